@@ -0,0 +1,48 @@
+import { useClosestPaints } from "../hooks/useClosestPaints";
+import type { Paint } from "../utils/paints";
+import { PaintSwatch } from "./PaintSwatch";
+
+interface ClosestPaintsProps {
+	/** Color to match as #RRGGBB */
+	color: string;
+	selectedPaint: Paint | null;
+	onSelect: (paint: Paint) => void;
+}
+
+/**
+ * Finds the catalog paints closest to any color, labelled with their ΔE2000
+ */
+export function ClosestPaints({
+	color,
+	selectedPaint,
+	onSelect,
+}: ClosestPaintsProps) {
+	const { matches, error } = useClosestPaints(color);
+	const closest = matches?.[0];
+
+	return (
+		<div className="space-y-2">
+			{error && <p className="text-sm text-red-600">{error}</p>}
+			{closest && (
+				<p className="text-sm text-gray-700">
+					Closest match: {closest.paint.brand} {closest.paint.code}{" "}
+					{closest.paint.name} (ΔE {closest.deltaE.toFixed(1)})
+				</p>
+			)}
+			<div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+				{matches?.map(({ paint, deltaE }) => (
+					<div key={paint.id} className="flex flex-col items-center">
+						<PaintSwatch
+							paint={paint}
+							isSelected={selectedPaint?.id === paint.id}
+							onSelect={onSelect}
+						/>
+						<span className="text-[10px] text-gray-500">
+							ΔE {deltaE.toFixed(1)}
+						</span>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,65 @@
+import {
+	getChoiceHex,
+	getChoiceLabel,
+	toChoiceValue,
+	type ColorChoice,
+} from "../utils/color-choices";
+
+interface ColorComparisonListProps {
+	choices: ColorChoice[];
+	maxChoices: number;
+	onRemove: (index: number) => void;
+}
+
+/**
+ * Colors picked to be rendered side by side, submitted as `variant` fields
+ */
+export function ColorComparisonList({
+	choices,
+	maxChoices,
+	onRemove,
+}: ColorComparisonListProps) {
+	if (choices.length === 0) {
+		return (
+			<p className="text-sm text-gray-500">
+				Add up to {maxChoices} colors to compare them in one go, or render the
+				selected color only.
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			<p className="text-sm text-gray-700">
+				Colors to compare ({choices.length} of {maxChoices}):
+			</p>
+			<ul className="flex flex-wrap gap-2">
+				{choices.map((choice, index) => (
+					<li
+						key={toChoiceValue(choice)}
+						className="flex items-center gap-2 rounded-full border border-gray-300 py-1 pl-1 pr-3 text-xs text-gray-700"
+					>
+						<span
+							className="h-5 w-5 rounded-full border border-gray-300"
+							style={{ backgroundColor: getChoiceHex(choice) }}
+						/>
+						{getChoiceLabel(choice)}
+						<button
+							type="button"
+							aria-label={`Remove ${getChoiceLabel(choice)}`}
+							className="text-gray-500 hover:text-red-600"
+							onClick={() => onRemove(index)}
+						>
+							×
+						</button>
+						<input
+							type="hidden"
+							name="variant"
+							value={toChoiceValue(choice)}
+						/>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import { rgbToHex } from "../utils/color";
+import { sampleAverageColor } from "../utils/eyedropper";
+
+interface ColorEyedropperProps {
+	onPick: (hex: string) => void;
+	/** Pixels around the clicked point that are averaged */
+	sampleRadius?: number;
+}
+
+// Inspiration photos are drawn at most this wide, which is plenty to pick from
+const MAX_CANVAS_WIDTH = 640;
+
+/**
+ * Pick a color by clicking on an inspiration photo
+ * The photo stays in the browser, it is never uploaded
+ */
+export function ColorEyedropper({
+	onPick,
+	sampleRadius = 3,
+}: ColorEyedropperProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [photo, setPhoto] = useState<HTMLImageElement | null>(null);
+	const [marker, setMarker] = useState<{ x: number; y: number } | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		const ctx = canvas?.getContext("2d", { willReadFrequently: true });
+		if (!canvas || !ctx || !photo) return;
+
+		const scale = Math.min(1, MAX_CANVAS_WIDTH / photo.naturalWidth);
+		canvas.width = Math.round(photo.naturalWidth * scale);
+		canvas.height = Math.round(photo.naturalHeight * scale);
+		ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+	}, [photo]);
+
+	const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		setMarker(null);
+		if (!file) {
+			setPhoto(null);
+			return;
+		}
+
+		const url = URL.createObjectURL(file);
+		const image = new Image();
+		image.onload = () => {
+			URL.revokeObjectURL(url);
+			setError(null);
+			setPhoto(image);
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(url);
+			setError(
+				"This photo can't be shown in your browser, try a JPEG or PNG."
+			);
+			setPhoto(null);
+		};
+		image.src = url;
+	};
+
+	const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+		const canvas = e.currentTarget;
+		const ctx = canvas.getContext("2d", { willReadFrequently: true });
+		if (!ctx) return;
+
+		// The canvas may be displayed smaller than its resolution
+		const rect = canvas.getBoundingClientRect();
+		const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+		const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+
+		const color = sampleAverageColor(
+			ctx.getImageData(0, 0, canvas.width, canvas.height),
+			x,
+			y,
+			sampleRadius
+		);
+		setMarker({
+			x: ((e.clientX - rect.left) / rect.width) * 100,
+			y: ((e.clientY - rect.top) / rect.height) * 100,
+		});
+		onPick(rgbToHex(color));
+	};
+
+	return (
+		<div className="space-y-2">
+			<label className="block text-sm text-gray-700">
+				Pick from an inspiration photo
+				<input
+					type="file"
+					accept="image/*"
+					className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+					onChange={handleFileChange}
+				/>
+			</label>
+			{error && <p className="text-sm text-red-600">{error}</p>}
+			{photo && (
+				<div className="relative inline-block max-w-full">
+					<canvas
+						ref={canvasRef}
+						className="block max-w-full h-auto cursor-crosshair rounded-md border border-gray-300"
+						onClick={handleClick}
+					/>
+					{marker && (
+						<div
+							className="pointer-events-none absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow"
+							style={{ left: `${marker.x}%`, top: `${marker.y}%` }}
+						/>
+					)}
+					<p className="mt-1 text-xs text-gray-500">
+						Click the photo to pick the color around that point
+					</p>
+				</div>
+			)}
+		</div>
+	);
+}
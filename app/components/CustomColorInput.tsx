@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { parseColor, rgbToHex } from "../utils/color";
+import { ColorEyedropper } from "./ColorEyedropper";
+
+interface CustomColorInputProps {
+	/** Current color as #RRGGBB */
+	value: string;
+	onChange: (hex: string) => void;
+}
+
+/**
+ * Color input that accepts typed hex, rgb() or hsl() values, a visual picker
+ * and an eyedropper on an inspiration photo
+ */
+export function CustomColorInput({ value, onChange }: CustomColorInputProps) {
+	const [text, setText] = useState(value);
+	const [isInvalid, setIsInvalid] = useState(false);
+
+	// Colors from the picker and eyedropper replace the typed value
+	const setColor = (hex: string) => {
+		setText(hex);
+		setIsInvalid(false);
+		onChange(hex);
+	};
+
+	const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		setText(e.target.value);
+		const rgb = parseColor(e.target.value);
+		setIsInvalid(!rgb);
+		if (rgb) onChange(rgbToHex(rgb));
+	};
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center gap-3">
+				<input
+					type="color"
+					aria-label="Color picker"
+					className="h-10 w-14 cursor-pointer rounded border border-gray-300"
+					value={value.toLowerCase()}
+					onChange={(e) => setColor(e.target.value.toUpperCase())}
+				/>
+				<input
+					type="text"
+					id="customColor"
+					placeholder="#9CAF88, rgb(156, 175, 136) or hsl(90, 20%, 61%)"
+					className={`flex-1 rounded-md border px-3 py-2 text-sm ${
+						isInvalid ? "border-red-500" : "border-gray-300"
+					}`}
+					value={text}
+					onChange={handleTextChange}
+				/>
+			</div>
+			{isInvalid && (
+				<p className="text-sm text-red-600">
+					Enter a hex, rgb() or hsl() color, e.g. #9CAF88
+				</p>
+			)}
+			<ColorEyedropper onPick={setColor} />
+		</div>
+	);
+}
@@ -0,0 +1,36 @@
+import {
+	surfaceLabels,
+	surfaceTypes,
+	type SurfaceType,
+} from "../utils/surfaces";
+
+interface MaskCoverageProps {
+	/** Share of the photo each uploaded mask paints, from 0 to 1 */
+	coverage: Partial<Record<SurfaceType, number>>;
+}
+
+/**
+ * How much of the photo the uploaded masks cover, per surface
+ * Helps to spot a mask that marks far more or less than intended
+ */
+export function MaskCoverage({ coverage }: MaskCoverageProps) {
+	const surfaces = surfaceTypes.filter(
+		(surface) => coverage[surface] !== undefined
+	);
+	if (surfaces.length === 0) return null;
+
+	return (
+		<p className="mb-4 text-sm text-gray-600">
+			Masks cover{" "}
+			{surfaces
+				.map(
+					(surface) =>
+						`${surfaceLabels[surface].toLowerCase()}: ${(
+							coverage[surface]! * 100
+						).toFixed(1)}%`
+				)
+				.join(", ")}{" "}
+			of the photo
+		</p>
+	);
+}
@@ -0,0 +1,484 @@
+import { useEffect, useRef, useState } from "react";
+import {
+	readMaskCoverage,
+	selectSimilarColors,
+	writeMaskImage,
+} from "../utils/mask-editor";
+
+type MaskTool = "brush" | "eraser" | "polygon" | "wand";
+
+type Point = { x: number; y: number };
+
+interface MaskEditorProps {
+	photo: File;
+	/** Mask to start from, e.g. an uploaded or generated mask */
+	initialMask: File | null;
+	/** Receives the mask as a PNG at the resolution of the photo */
+	onSave: (mask: File) => void;
+	onCancel: () => void;
+}
+
+const toolLabels: Record<MaskTool, string> = {
+	brush: "Brush",
+	eraser: "Eraser",
+	polygon: "Polygon",
+	wand: "Magic wand",
+};
+
+// Masks are edited at most this large and scaled to the photo when saved
+const MAX_EDITOR_SIZE = 2048;
+// Every undo step keeps a copy of the mask
+const MAX_HISTORY = 30;
+// Clicking this close to the first point closes a polygon, in screen pixels
+const CLOSE_DISTANCE = 10;
+// The mask is shown over the photo in this color, its alpha is the coverage
+const MASK_COLOR = { r: 99, g: 102, b: 241 };
+const maskFillStyle = `rgb(${MASK_COLOR.r}, ${MASK_COLOR.g}, ${MASK_COLOR.b})`;
+
+function readCoverage(canvas: HTMLCanvasElement): Uint8ClampedArray {
+	const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+	const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+	const coverage = new Uint8ClampedArray(canvas.width * canvas.height);
+	for (let i = 0; i < coverage.length; i++) {
+		coverage[i] = data[i * 4 + 3];
+	}
+	return coverage;
+}
+
+function drawCoverage(canvas: HTMLCanvasElement, coverage: Uint8ClampedArray) {
+	const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+	const image = ctx.createImageData(canvas.width, canvas.height);
+	for (let i = 0; i < coverage.length; i++) {
+		image.data[i * 4] = MASK_COLOR.r;
+		image.data[i * 4 + 1] = MASK_COLOR.g;
+		image.data[i * 4 + 2] = MASK_COLOR.b;
+		image.data[i * 4 + 3] = coverage[i];
+	}
+	ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Draw a mask over a photo with a brush, eraser, polygon lasso and magic wand
+ * The photo and mask stay in the browser until the mask is submitted
+ */
+export function MaskEditor({
+	photo,
+	initialMask,
+	onSave,
+	onCancel,
+}: MaskEditorProps) {
+	const photoCanvasRef = useRef<HTMLCanvasElement>(null);
+	const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+	const photoPixels = useRef<ImageData | null>(null);
+	const photoSize = useRef({ width: 0, height: 0 });
+	const undoStack = useRef<Uint8ClampedArray[]>([]);
+	const redoStack = useRef<Uint8ClampedArray[]>([]);
+	const lastPoint = useRef<Point | null>(null);
+	const [isLoaded, setIsLoaded] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [tool, setTool] = useState<MaskTool>("brush");
+	const [brushSize, setBrushSize] = useState(30);
+	const [tolerance, setTolerance] = useState(32);
+	const [opacity, setOpacity] = useState(0.5);
+	const [polygon, setPolygon] = useState<Point[]>([]);
+	const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		let isCancelled = false;
+
+		const load = async () => {
+			setIsLoaded(false);
+			try {
+				const image = await createImageBitmap(photo);
+				const mask = initialMask ? await createImageBitmap(initialMask) : null;
+				const photoCanvas = photoCanvasRef.current;
+				const maskCanvas = maskCanvasRef.current;
+				if (isCancelled || !photoCanvas || !maskCanvas) return;
+
+				const scale = Math.min(
+					1,
+					MAX_EDITOR_SIZE / Math.max(image.width, image.height)
+				);
+				const width = Math.round(image.width * scale);
+				const height = Math.round(image.height * scale);
+				photoSize.current = { width: image.width, height: image.height };
+
+				photoCanvas.width = maskCanvas.width = width;
+				photoCanvas.height = maskCanvas.height = height;
+				const photoCtx = photoCanvas.getContext("2d", {
+					willReadFrequently: true,
+				})!;
+				photoCtx.drawImage(image, 0, 0, width, height);
+				photoPixels.current = photoCtx.getImageData(0, 0, width, height);
+
+				// The black and white mask is shown as coverage of the mask color
+				const maskCtx = maskCanvas.getContext("2d", {
+					willReadFrequently: true,
+				})!;
+				maskCtx.clearRect(0, 0, width, height);
+				if (mask) {
+					maskCtx.drawImage(mask, 0, 0, width, height);
+					drawCoverage(
+						maskCanvas,
+						readMaskCoverage(maskCtx.getImageData(0, 0, width, height))
+					);
+				}
+
+				undoStack.current = [];
+				redoStack.current = [];
+				setHistorySize({ undo: 0, redo: 0 });
+				setPolygon([]);
+				setError(null);
+				setIsLoaded(true);
+			} catch (error) {
+				console.error("Error loading the mask editor:", error);
+				if (!isCancelled) {
+					setError(
+						"This photo can't be shown in your browser, try a JPEG or PNG."
+					);
+				}
+			}
+		};
+
+		void load();
+		return () => {
+			isCancelled = true;
+		};
+	}, [photo, initialMask]);
+
+	const updateHistorySize = () =>
+		setHistorySize({
+			undo: undoStack.current.length,
+			redo: redoStack.current.length,
+		});
+
+	// Remember the mask before a change, so it can be undone
+	const saveHistory = () => {
+		undoStack.current.push(readCoverage(maskCanvasRef.current!));
+		if (undoStack.current.length > MAX_HISTORY) undoStack.current.shift();
+		redoStack.current = [];
+		updateHistorySize();
+	};
+
+	const undo = () => {
+		const previous = undoStack.current.pop();
+		if (!previous) return;
+		redoStack.current.push(readCoverage(maskCanvasRef.current!));
+		drawCoverage(maskCanvasRef.current!, previous);
+		updateHistorySize();
+	};
+
+	const redo = () => {
+		const next = redoStack.current.pop();
+		if (!next) return;
+		undoStack.current.push(readCoverage(maskCanvasRef.current!));
+		drawCoverage(maskCanvasRef.current!, next);
+		updateHistorySize();
+	};
+
+	const invert = () => {
+		saveHistory();
+		const coverage = readCoverage(maskCanvasRef.current!);
+		for (let i = 0; i < coverage.length; i++) {
+			coverage[i] = 255 - coverage[i];
+		}
+		drawCoverage(maskCanvasRef.current!, coverage);
+	};
+
+	const clear = () => {
+		saveHistory();
+		const canvas = maskCanvasRef.current!;
+		canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+	};
+
+	// The canvas is displayed smaller than its resolution
+	const getScale = (canvas: HTMLCanvasElement) =>
+		canvas.width / canvas.getBoundingClientRect().width;
+
+	const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		const scale = getScale(e.currentTarget);
+		return {
+			x: (e.clientX - rect.left) * scale,
+			y: (e.clientY - rect.top) * scale,
+		};
+	};
+
+	const drawStroke = (from: Point, to: Point) => {
+		const canvas = maskCanvasRef.current!;
+		const ctx = canvas.getContext("2d")!;
+		ctx.globalCompositeOperation =
+			tool === "eraser" ? "destination-out" : "source-over";
+		ctx.strokeStyle = maskFillStyle;
+		ctx.lineWidth = brushSize * getScale(canvas);
+		ctx.lineCap = "round";
+		ctx.lineJoin = "round";
+		ctx.beginPath();
+		ctx.moveTo(from.x, from.y);
+		ctx.lineTo(to.x, to.y);
+		ctx.stroke();
+		ctx.globalCompositeOperation = "source-over";
+	};
+
+	const fillPolygon = (points: Point[]) => {
+		saveHistory();
+		const ctx = maskCanvasRef.current!.getContext("2d")!;
+		ctx.fillStyle = maskFillStyle;
+		ctx.beginPath();
+		for (const { x, y } of points) ctx.lineTo(x, y);
+		ctx.closePath();
+		ctx.fill();
+		setPolygon([]);
+	};
+
+	const selectArea = (point: Point) => {
+		if (!photoPixels.current) return;
+		saveHistory();
+		const selected = selectSimilarColors(
+			photoPixels.current,
+			point.x,
+			point.y,
+			tolerance
+		);
+		const coverage = readCoverage(maskCanvasRef.current!);
+		for (let i = 0; i < coverage.length; i++) {
+			if (selected[i]) coverage[i] = 255;
+		}
+		drawCoverage(maskCanvasRef.current!, coverage);
+	};
+
+	const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+		const point = toCanvasPoint(e);
+
+		if (tool === "brush" || tool === "eraser") {
+			saveHistory();
+			e.currentTarget.setPointerCapture(e.pointerId);
+			lastPoint.current = point;
+			drawStroke(point, point);
+		} else if (tool === "polygon") {
+			const first = polygon[0];
+			const scale = getScale(e.currentTarget);
+			if (
+				polygon.length >= 3 &&
+				Math.hypot(first.x - point.x, first.y - point.y) <
+					CLOSE_DISTANCE * scale
+			) {
+				fillPolygon(polygon);
+			} else {
+				setPolygon([...polygon, point]);
+			}
+		} else {
+			selectArea(point);
+		}
+	};
+
+	const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+		if (!lastPoint.current) return;
+		const point = toCanvasPoint(e);
+		drawStroke(lastPoint.current, point);
+		lastPoint.current = point;
+	};
+
+	const handlePointerUp = () => {
+		lastPoint.current = null;
+	};
+
+	// Scale the coverage to the photo and store it as black and white
+	const save = async () => {
+		setIsSaving(true);
+		const { width, height } = photoSize.current;
+		const canvas = document.createElement("canvas");
+		canvas.width = width;
+		canvas.height = height;
+		const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+		ctx.drawImage(maskCanvasRef.current!, 0, 0, width, height);
+
+		const image = ctx.getImageData(0, 0, width, height);
+		const coverage = new Uint8ClampedArray(width * height);
+		for (let i = 0; i < coverage.length; i++) {
+			coverage[i] = image.data[i * 4 + 3];
+		}
+		writeMaskImage(coverage, image);
+		ctx.putImageData(image, 0, 0);
+
+		const blob = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, "image/png")
+		);
+		setIsSaving(false);
+		if (!blob) {
+			setError("The mask could not be saved, please try again.");
+			return;
+		}
+		onSave(new File([blob], "mask.png", { type: "image/png" }));
+	};
+
+	const buttonClassName =
+		"px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 disabled:opacity-50";
+
+	return (
+		<div className="mt-3 space-y-3 rounded-md border border-gray-200 p-3">
+			{error && <p className="text-sm text-red-600">{error}</p>}
+
+			<div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+				{(Object.keys(toolLabels) as MaskTool[]).map((option) => (
+					<label key={option} className="flex items-center gap-1">
+						<input
+							type="radio"
+							checked={tool === option}
+							onChange={() => {
+								setTool(option);
+								setPolygon([]);
+							}}
+						/>
+						{toolLabels[option]}
+					</label>
+				))}
+			</div>
+
+			<div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+				{(tool === "brush" || tool === "eraser") && (
+					<label className="flex items-center gap-2">
+						Size
+						<input
+							type="range"
+							min="2"
+							max="150"
+							value={brushSize}
+							onChange={(e) => setBrushSize(Number(e.target.value))}
+						/>
+					</label>
+				)}
+				{tool === "wand" && (
+					<label className="flex items-center gap-2">
+						Tolerance
+						<input
+							type="range"
+							min="1"
+							max="150"
+							value={tolerance}
+							onChange={(e) => setTolerance(Number(e.target.value))}
+						/>
+					</label>
+				)}
+				<label className="flex items-center gap-2">
+					Mask opacity
+					<input
+						type="range"
+						min="0"
+						max="1"
+						step="0.05"
+						value={opacity}
+						onChange={(e) => setOpacity(Number(e.target.value))}
+					/>
+				</label>
+			</div>
+
+			<div className="flex flex-wrap gap-2">
+				<button
+					type="button"
+					className={buttonClassName}
+					disabled={historySize.undo === 0}
+					onClick={undo}
+				>
+					Undo
+				</button>
+				<button
+					type="button"
+					className={buttonClassName}
+					disabled={historySize.redo === 0}
+					onClick={redo}
+				>
+					Redo
+				</button>
+				<button
+					type="button"
+					className={buttonClassName}
+					disabled={!isLoaded}
+					onClick={invert}
+				>
+					Invert
+				</button>
+				<button
+					type="button"
+					className={buttonClassName}
+					disabled={!isLoaded}
+					onClick={clear}
+				>
+					Clear
+				</button>
+				{tool === "polygon" && (
+					<button
+						type="button"
+						className={buttonClassName}
+						disabled={polygon.length < 3}
+						onClick={() => fillPolygon(polygon)}
+					>
+						Close polygon
+					</button>
+				)}
+			</div>
+
+			<p className="text-xs text-gray-500">
+				{tool === "polygon"
+					? "Click the corners of the area, then click the first corner again to fill it"
+					: tool === "wand"
+					? "Click the photo to add the connected area of similar color"
+					: "Drag over the photo to paint the areas to change"}
+			</p>
+
+			<div
+				className={`relative inline-block max-w-full ${
+					isLoaded ? "" : "hidden"
+				}`}
+			>
+				<canvas
+					ref={photoCanvasRef}
+					className="block max-w-full h-auto rounded-md border border-gray-300"
+				/>
+				<canvas
+					ref={maskCanvasRef}
+					className="absolute inset-0 h-full w-full cursor-crosshair touch-none"
+					style={{ opacity }}
+					onPointerDown={handlePointerDown}
+					onPointerMove={handlePointerMove}
+					onPointerUp={handlePointerUp}
+					onPointerCancel={handlePointerUp}
+				/>
+				{polygon.length > 0 && (
+					<svg
+						className="pointer-events-none absolute inset-0 h-full w-full"
+						viewBox={`0 0 ${maskCanvasRef.current?.width ?? 1} ${
+							maskCanvasRef.current?.height ?? 1
+						}`}
+						preserveAspectRatio="none"
+					>
+						<polyline
+							points={polygon.map(({ x, y }) => `${x},${y}`).join(" ")}
+							className="fill-none stroke-indigo-600"
+							strokeWidth={2}
+							vectorEffect="non-scaling-stroke"
+						/>
+					</svg>
+				)}
+			</div>
+			{!isLoaded && !error && (
+				<p className="text-sm text-gray-500">Loading photo...</p>
+			)}
+
+			<div className="flex gap-2">
+				<button
+					type="button"
+					className="px-3 py-1 rounded-md bg-indigo-600 text-sm text-white hover:bg-indigo-700 disabled:opacity-50"
+					disabled={!isLoaded || isSaving}
+					onClick={save}
+				>
+					{isSaving ? "Saving..." : "Use this mask"}
+				</button>
+				<button type="button" className={buttonClassName} onClick={onCancel}>
+					Cancel
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { usePaintSearch } from "../hooks/usePaintSearch";
+import { paintFinishes, type Paint, type PaintFinish } from "../utils/paints";
+import { PaintSwatch } from "./PaintSwatch";
+
+interface PaintPickerProps {
+	selectedPaint: Paint | null;
+	onSelect: (paint: Paint) => void;
+	pageSize?: number;
+}
+
+/**
+ * Searchable, paginated picker for the paints in the catalog
+ * Selects the first paint once the catalog loaded, when none is selected yet
+ */
+export function PaintPicker({
+	selectedPaint,
+	onSelect,
+	pageSize = 12,
+}: PaintPickerProps) {
+	const [query, setQuery] = useState("");
+	const [brand, setBrand] = useState("");
+	const [finish, setFinish] = useState<PaintFinish | "">("");
+	const [page, setPage] = useState(1);
+	const { result, isLoading, error } = usePaintSearch({
+		query,
+		brand,
+		finish,
+		page,
+		pageSize,
+	});
+
+	const pageCount = result
+		? Math.max(1, Math.ceil(result.total / pageSize))
+		: 1;
+
+	useEffect(() => {
+		if (!selectedPaint && result && result.paints.length > 0) {
+			onSelect(result.paints[0]);
+		}
+	}, [result]);
+
+	return (
+		<div className="space-y-3">
+			<div className="flex flex-col gap-2 sm:flex-row">
+				<input
+					type="search"
+					id="paintSearch"
+					placeholder="Search by name or code"
+					className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+					value={query}
+					onChange={(e) => {
+						setQuery(e.target.value);
+						setPage(1);
+					}}
+				/>
+				<select
+					aria-label="Brand"
+					className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+					value={brand}
+					onChange={(e) => {
+						setBrand(e.target.value);
+						setPage(1);
+					}}
+				>
+					<option value="">All brands</option>
+					{result?.brands.map(({ brand }) => (
+						<option key={brand} value={brand}>
+							{brand}
+						</option>
+					))}
+				</select>
+				<select
+					aria-label="Finish"
+					className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+					value={finish}
+					onChange={(e) => {
+						setFinish(e.target.value as PaintFinish | "");
+						setPage(1);
+					}}
+				>
+					<option value="">All finishes</option>
+					{paintFinishes.map((finish) => (
+						<option key={finish} value={finish}>
+							{finish}
+						</option>
+					))}
+				</select>
+			</div>
+
+			{error && <p className="text-sm text-red-600">{error}</p>}
+
+			<div
+				className={`grid grid-cols-3 md:grid-cols-6 gap-3 ${
+					isLoading ? "opacity-60" : ""
+				}`}
+			>
+				{result?.paints.map((paint) => (
+					<PaintSwatch
+						key={paint.id}
+						paint={paint}
+						isSelected={selectedPaint?.id === paint.id}
+						onSelect={onSelect}
+					/>
+				))}
+			</div>
+			{result && result.paints.length === 0 && (
+				<p className="text-sm text-gray-500">No paints match your search.</p>
+			)}
+
+			{result && pageCount > 1 && (
+				<div className="flex items-center justify-between text-sm text-gray-700">
+					<button
+						type="button"
+						className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+						disabled={page <= 1}
+						onClick={() => setPage(page - 1)}
+					>
+						Previous
+					</button>
+					<span>
+						Page {page} of {pageCount} ({result.total} paints)
+					</span>
+					<button
+						type="button"
+						className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+						disabled={page >= pageCount}
+						onClick={() => setPage(page + 1)}
+					>
+						Next
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
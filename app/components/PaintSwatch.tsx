@@ -0,0 +1,36 @@
+import type { Paint } from "../utils/paints";
+
+interface PaintSwatchProps {
+	paint: Paint;
+	isSelected: boolean;
+	onSelect: (paint: Paint) => void;
+}
+
+/**
+ * Selectable swatch of a catalog paint with its name, brand and code
+ */
+export function PaintSwatch({ paint, isSelected, onSelect }: PaintSwatchProps) {
+	return (
+		<button
+			type="button"
+			title={`${paint.brand} ${paint.code} ${paint.name}${
+				paint.lrv !== null ? ` (LRV ${paint.lrv})` : ""
+			}`}
+			className={`flex flex-col items-center p-2 rounded-md transition-all ${
+				isSelected ? "ring-2 ring-indigo-500 scale-105" : "hover:scale-105"
+			}`}
+			onClick={() => onSelect(paint)}
+		>
+			<div
+				className="w-full h-12 rounded-md mb-1 border border-gray-300"
+				style={{ backgroundColor: paint.hex }}
+			/>
+			<span className="text-xs text-gray-700 truncate w-full text-center">
+				{paint.name}
+			</span>
+			<span className="text-[10px] text-gray-500 truncate w-full text-center">
+				{paint.brand} {paint.code}
+			</span>
+		</button>
+	);
+}
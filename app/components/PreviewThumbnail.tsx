@@ -6,7 +6,7 @@ interface PreviewThumbnailProps {
 	title?: string;
 	showCheckerboard?: boolean;
 	className?: string;
-	onLoad?: () => void;
+	onLoad?: (event: React.SyntheticEvent<HTMLImageElement>) => void;
 }
 
 /**
@@ -0,0 +1,148 @@
+import ImageFlipper from "./ImageFlipper";
+import type { RenderStage } from "../utils/render.server";
+import type { RenderStatus } from "../utils/renders.server";
+import type { RenderQuality } from "../utils/quality.server";
+import { surfaceLabels } from "../utils/surfaces";
+
+const stageLabels: Record<RenderStage, string> = {
+	queued: "Waiting in queue...",
+	retrying: "Retrying after a temporary error...",
+	generating_mask: "Detecting {{surface}}...",
+	painting: "Painting {{surface}}...",
+	recoloring: "Recoloring {{surface}}...",
+	wallpapering: "Applying wallpaper to {{surface}}...",
+};
+
+/**
+ * Get the progress message of a pending render
+ */
+export function getStageLabel(status: RenderStatus) {
+	if (status.status !== "pending" || !status.stage) {
+		return "Processing image...";
+	}
+
+	const surface = status.surface
+		? surfaceLabels[status.surface].toLowerCase()
+		: "walls";
+	return stageLabels[status.stage].replace("{{surface}}", surface);
+}
+
+/**
+ * Scores of the automatic quality checks of a completed render
+ */
+function QualityScores({ quality }: { quality: RenderQuality }) {
+	const scores = quality.surfaces.map(
+		({ surface, colorDeltaE }) =>
+			`${surfaceLabels[surface]} ΔE ${colorDeltaE.toFixed(1)}`
+	);
+	scores.push(`change outside the masks ${quality.outsideDrift.toFixed(1)}`);
+
+	return (
+		<p
+			className={`mt-2 text-sm ${
+				quality.passed ? "text-gray-600" : "text-amber-700"
+			}`}
+		>
+			{quality.passed ? "Quality checks passed" : "Quality checks failed"}
+			{quality.retried && " after painting again"}: {scores.join(", ")}
+		</p>
+	);
+}
+
+interface RenderResultProps {
+	status: RenderStatus | null;
+	originalUrl: string;
+	/** Width / height of the original, so the result is shown uncropped */
+	aspectRatio: number;
+}
+
+/**
+ * Result of a render compared to the original, or its progress or error
+ */
+export function RenderResult({
+	status,
+	originalUrl,
+	aspectRatio,
+}: RenderResultProps) {
+	return (
+		<>
+			<div
+				className="relative border border-gray-300 rounded-md overflow-hidden"
+				style={{ aspectRatio }}
+			>
+				{status?.status === "completed" ? (
+					<ImageFlipper
+						image1={originalUrl}
+						image2={status.resultUrl}
+						alt1="Original Image"
+						alt2="Processed Image"
+						className="w-full h-full"
+					/>
+				) : status?.status === "error" ? (
+					<div className="flex items-center justify-center h-full bg-red-50">
+						<div className="text-center p-4">
+							<svg
+								className="mx-auto h-12 w-12 text-red-500"
+								fill="none"
+								viewBox="0 0 24 24"
+								stroke="currentColor"
+							>
+								<path
+									strokeLinecap="round"
+									strokeLinejoin="round"
+									strokeWidth={2}
+									d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+								/>
+							</svg>
+							<h3 className="mt-2 text-sm font-medium text-red-800">
+								Processing Error
+							</h3>
+							<p className="mt-1 text-sm text-red-700">
+								{status.errorMessage ||
+									"An error occurred while processing your image"}
+							</p>
+						</div>
+					</div>
+				) : (
+					<div className="flex items-center flex-col justify-center h-full bg-gray-100 gap-8">
+						<div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500 mb-2"></div>
+						<p className="text-gray-600">
+							{status ? getStageLabel(status) : "Processing image..."}
+						</p>
+					</div>
+				)}
+			</div>
+			{status && status.surfaces.length > 0 && (
+				<ul className="mt-3 flex flex-wrap gap-4 text-sm text-gray-700">
+					{status.surfaces.map(
+						({ surface, colorHex, paint, finish, patternUrl }) => (
+							<li key={surface} className="flex items-center gap-2">
+								<span
+									className="h-4 w-4 rounded-full border border-gray-300 bg-cover"
+									style={{
+										backgroundColor: colorHex,
+										backgroundImage: patternUrl
+											? `url(${patternUrl})`
+											: undefined,
+									}}
+								/>
+								{surfaceLabels[surface]}:{" "}
+								{patternUrl
+									? "Wallpaper"
+									: paint
+									? `${paint.brand} ${paint.code} ${paint.name}`
+									: colorHex}
+								{finish && !patternUrl && (
+									<span className="text-gray-500">({finish})</span>
+								)}
+							</li>
+						)
+					)}
+				</ul>
+			)}
+			{status?.status === "completed" && status.quality && (
+				<QualityScores quality={status.quality} />
+			)}
+		</>
+	);
+}
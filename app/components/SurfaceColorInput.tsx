@@ -0,0 +1,100 @@
+import {
+	getChoiceHex,
+	getChoiceLabel,
+	toChoiceValue,
+	type ColorChoice,
+} from "../utils/color-choices";
+import { surfaceLabels, type SurfaceType } from "../utils/surfaces";
+import { ClosestPaints } from "./ClosestPaints";
+
+interface SurfaceColorInputProps {
+	surface: SurfaceType;
+	/** Color of the surface, null when the surface is not painted */
+	value: ColorChoice | null;
+	onChange: (value: ColorChoice | null) => void;
+	/** File types the mask input accepts */
+	accept: string;
+	isMaskRequired: boolean;
+}
+
+/**
+ * Color and optional mask of a surface that is painted besides the main surface
+ * Submitted as `surfaceColor.<surface>` and `surfaceMask.<surface>` fields
+ */
+export function SurfaceColorInput({
+	surface,
+	value,
+	onChange,
+	accept,
+	isMaskRequired,
+}: SurfaceColorInputProps) {
+	const label = surfaceLabels[surface];
+
+	return (
+		<div className="rounded-md border border-gray-200 p-3 space-y-3">
+			<label className="flex items-center gap-2 text-sm text-gray-700">
+				<input
+					type="checkbox"
+					checked={!!value}
+					onChange={(e) =>
+						onChange(
+							e.target.checked ? { kind: "custom", hex: "#FFFFFF" } : null
+						)
+					}
+				/>
+				Paint the {label.toLowerCase()}
+				{value && (
+					<span className="text-gray-500">({getChoiceLabel(value)})</span>
+				)}
+			</label>
+
+			{value && (
+				<>
+					<input
+						type="hidden"
+						name={`surfaceColor.${surface}`}
+						value={toChoiceValue(value)}
+					/>
+					<div className="flex items-center gap-3">
+						<input
+							type="color"
+							aria-label={`${label} color`}
+							className="h-10 w-14 cursor-pointer rounded border border-gray-300"
+							value={getChoiceHex(value).toLowerCase()}
+							onChange={(e) =>
+								onChange({ kind: "custom", hex: e.target.value.toUpperCase() })
+							}
+						/>
+						<span className="text-xs text-gray-500">
+							Pick any color or one of the closest catalog paints below
+						</span>
+					</div>
+					<ClosestPaints
+						color={getChoiceHex(value)}
+						selectedPaint={value.kind === "paint" ? value.paint : null}
+						onSelect={(paint) => onChange({ kind: "paint", paint })}
+					/>
+					<div>
+						<label
+							htmlFor={`surfaceMask.${surface}`}
+							className="block text-xs text-gray-600"
+						>
+							Mask of the {label.toLowerCase()}{" "}
+							{isMaskRequired
+								? "(Required)"
+								: "(Optional, detected when empty)"}
+						</label>
+						<input
+							type="file"
+							id={`surfaceMask.${surface}`}
+							name={`surfaceMask.${surface}`}
+							accept={accept}
+							required={isMaskRequired}
+							className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+						/>
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Date and time of an ISO timestamp in the browser's locale and time zone
+ * The server doesn't know the time zone, so it renders the UTC time until
+ * the page is hydrated
+ */
+export function Timestamp({ value }: { value: string }) {
+	const [label, setLabel] = useState(
+		`${value.slice(0, 16).replace("T", " ")} UTC`
+	);
+
+	useEffect(() => {
+		setLabel(
+			new Date(value).toLocaleString(undefined, {
+				dateStyle: "medium",
+				timeStyle: "short",
+			})
+		);
+	}, [value]);
+
+	return <time dateTime={value}>{label}</time>;
+}
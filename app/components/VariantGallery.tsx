@@ -0,0 +1,67 @@
+import type { BatchVariantStatus } from "../utils/batches.server";
+import { getStageLabel } from "./RenderResult";
+
+interface VariantGalleryProps {
+	variants: BatchVariantStatus[];
+	selectedId: string | null;
+	onSelect: (variant: BatchVariantStatus) => void;
+}
+
+function getVariantLabel({ paint, colorHex }: BatchVariantStatus) {
+	return paint ? `${paint.brand} ${paint.code} ${paint.name}` : colorHex;
+}
+
+/**
+ * Variants of a batch with their color and status, click one to open it
+ */
+export function VariantGallery({
+	variants,
+	selectedId,
+	onSelect,
+}: VariantGalleryProps) {
+	return (
+		<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+			{variants.map((variant) => (
+				<button
+					key={variant.id}
+					type="button"
+					className={`flex flex-col rounded-md border bg-white p-2 text-left transition-all ${
+						selectedId === variant.id
+							? "border-indigo-500 ring-2 ring-indigo-500"
+							: "border-gray-300 hover:border-indigo-300"
+					}`}
+					onClick={() => onSelect(variant)}
+				>
+					<div className="relative mb-2 aspect-square overflow-hidden rounded bg-gray-100">
+						{variant.status.status === "completed" ? (
+							<img
+								src={variant.status.resultUrl}
+								alt={getVariantLabel(variant)}
+								className="h-full w-full object-cover"
+							/>
+						) : (
+							<div className="flex h-full items-center justify-center p-2 text-center text-xs">
+								{variant.status.status === "error" ? (
+									<span className="text-red-700">Failed</span>
+								) : (
+									<span className="text-gray-600">
+										{getStageLabel(variant.status)}
+									</span>
+								)}
+							</div>
+						)}
+					</div>
+					<div className="flex items-center gap-2">
+						<span
+							className="h-4 w-4 shrink-0 rounded-full border border-gray-300"
+							style={{ backgroundColor: variant.colorHex }}
+						/>
+						<span className="truncate text-xs text-gray-700">
+							{getVariantLabel(variant)}
+						</span>
+					</div>
+				</button>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { wallCornerLabels, type Point } from "../utils/wallpaper";
+
+interface WallCornerPickerProps {
+	photo: File;
+	/** Corners marked so far, as fractions of the photo size */
+	corners: Point[];
+	onChange: (corners: Point[]) => void;
+}
+
+/**
+ * Mark the four corners of a wall plane by clicking on the photo
+ * Once all corners are marked, a click moves the closest corner
+ */
+export function WallCornerPicker({
+	photo,
+	corners,
+	onChange,
+}: WallCornerPickerProps) {
+	const [url, setUrl] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const objectUrl = URL.createObjectURL(photo);
+		setUrl(objectUrl);
+		setError(null);
+		return () => URL.revokeObjectURL(objectUrl);
+	}, [photo]);
+
+	const handleClick = (e: React.MouseEvent<HTMLImageElement>) => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		const point = {
+			x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+			y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+		};
+
+		if (corners.length < 4) {
+			onChange([...corners, point]);
+			return;
+		}
+
+		// Distances are compared on screen, where the photo may not be square
+		let closest = 0;
+		let closestDistance = Infinity;
+		for (let i = 0; i < corners.length; i++) {
+			const distance = Math.hypot(
+				(corners[i].x - point.x) * rect.width,
+				(corners[i].y - point.y) * rect.height
+			);
+			if (distance < closestDistance) {
+				closest = i;
+				closestDistance = distance;
+			}
+		}
+		onChange(corners.map((corner, i) => (i === closest ? point : corner)));
+	};
+
+	if (error) {
+		return <p className="text-sm text-red-600">{error}</p>;
+	}
+
+	return (
+		<div className="space-y-2">
+			<p className="text-xs text-gray-500">
+				{corners.length < 4
+					? `Click the ${wallCornerLabels[corners.length]} corner of the wall`
+					: "Click near a corner to move it"}
+			</p>
+			{url && (
+				<div className="relative inline-block max-w-full">
+					<img
+						src={url}
+						alt="Photo to mark the wall on"
+						className="block max-w-full h-auto cursor-crosshair rounded-md border border-gray-300"
+						onClick={handleClick}
+						onError={() =>
+							setError(
+								"This photo can't be shown in your browser, try a JPEG or PNG."
+							)
+						}
+					/>
+					<svg
+						className="pointer-events-none absolute inset-0 h-full w-full"
+						viewBox="0 0 100 100"
+						preserveAspectRatio="none"
+					>
+						<polygon
+							points={corners
+								.map(({ x, y }) => `${x * 100},${y * 100}`)
+								.join(" ")}
+							className="fill-indigo-500/20 stroke-indigo-500"
+							strokeWidth={2}
+							vectorEffect="non-scaling-stroke"
+						/>
+					</svg>
+					{corners.map((corner, i) => (
+						<div
+							key={i}
+							title={wallCornerLabels[i]}
+							className="pointer-events-none absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-indigo-500 shadow"
+							style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+						/>
+					))}
+				</div>
+			)}
+			{corners.length > 0 && (
+				<button
+					type="button"
+					className="text-xs text-indigo-700 hover:underline"
+					onClick={() => onChange([])}
+				>
+					Reset corners
+				</button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState } from "react";
+import { PreviewThumbnail } from "./PreviewThumbnail";
+import {
+	defaultSegmentationOptions,
+	growWallRegions,
+} from "../utils/segmentation";
+
+type Point = { x: number; y: number };
+
+interface WallSegmenterProps {
+	photo: File;
+	/** Receives the mask as a PNG at the resolution of the photo */
+	onSave: (mask: File) => void;
+	onCancel: () => void;
+}
+
+// Photos are segmented at most this large, which keeps a click under a second
+const MAX_SEGMENT_SIZE = 1024;
+// The selection is shown over the photo in this color
+const SELECTION_COLOR = { r: 99, g: 102, b: 241, a: 128 };
+
+/**
+ * Select walls by clicking on them, the selection grows over similar colors
+ * up to strong edges. Runs in the browser without an AI provider.
+ */
+export function WallSegmenter({ photo, onSave, onCancel }: WallSegmenterProps) {
+	const photoCanvasRef = useRef<HTMLCanvasElement>(null);
+	const selectionCanvasRef = useRef<HTMLCanvasElement>(null);
+	const photoPixels = useRef<ImageData | null>(null);
+	const photoSize = useRef({ width: 0, height: 0 });
+	const [isLoaded, setIsLoaded] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [seeds, setSeeds] = useState<Point[]>([]);
+	const [tolerance, setTolerance] = useState(
+		defaultSegmentationOptions.tolerance
+	);
+	const [edgeThreshold, setEdgeThreshold] = useState(
+		defaultSegmentationOptions.edgeThreshold
+	);
+	const [mask, setMask] = useState<File | null>(null);
+	const [maskUrl, setMaskUrl] = useState<string | null>(null);
+
+	useEffect(() => {
+		let isCancelled = false;
+
+		const load = async () => {
+			setIsLoaded(false);
+			try {
+				const image = await createImageBitmap(photo);
+				const photoCanvas = photoCanvasRef.current;
+				const selectionCanvas = selectionCanvasRef.current;
+				if (isCancelled || !photoCanvas || !selectionCanvas) return;
+
+				const scale = Math.min(
+					1,
+					MAX_SEGMENT_SIZE / Math.max(image.width, image.height)
+				);
+				const width = Math.round(image.width * scale);
+				const height = Math.round(image.height * scale);
+				photoSize.current = { width: image.width, height: image.height };
+
+				photoCanvas.width = selectionCanvas.width = width;
+				photoCanvas.height = selectionCanvas.height = height;
+				const ctx = photoCanvas.getContext("2d", {
+					willReadFrequently: true,
+				})!;
+				ctx.drawImage(image, 0, 0, width, height);
+				photoPixels.current = ctx.getImageData(0, 0, width, height);
+
+				setSeeds([]);
+				setError(null);
+				setIsLoaded(true);
+			} catch (error) {
+				console.error("Error loading the wall selection:", error);
+				if (!isCancelled) {
+					setError(
+						"This photo can't be shown in your browser, try a JPEG or PNG."
+					);
+				}
+			}
+		};
+
+		void load();
+		return () => {
+			isCancelled = true;
+		};
+	}, [photo]);
+
+	// Grow the selection again whenever a point or setting changes
+	useEffect(() => {
+		const pixels = photoPixels.current;
+		const selectionCanvas = selectionCanvasRef.current;
+		if (!isLoaded || !pixels || !selectionCanvas) return;
+
+		const selected = growWallRegions(pixels, seeds, {
+			tolerance,
+			edgeThreshold,
+		});
+		const selectionCtx = selectionCanvas.getContext("2d")!;
+		const overlay = selectionCtx.createImageData(pixels.width, pixels.height);
+		for (let i = 0; i < selected.length; i++) {
+			if (!selected[i]) continue;
+			overlay.data[i * 4] = SELECTION_COLOR.r;
+			overlay.data[i * 4 + 1] = SELECTION_COLOR.g;
+			overlay.data[i * 4 + 2] = SELECTION_COLOR.b;
+			overlay.data[i * 4 + 3] = SELECTION_COLOR.a;
+		}
+		selectionCtx.putImageData(overlay, 0, 0);
+
+		if (seeds.length === 0) {
+			setMask(null);
+			return;
+		}
+
+		// The mask is white on transparent, scaled to the photo
+		let isCancelled = false;
+		const small = document.createElement("canvas");
+		small.width = pixels.width;
+		small.height = pixels.height;
+		const smallCtx = small.getContext("2d")!;
+		const maskPixels = smallCtx.createImageData(pixels.width, pixels.height);
+		for (let i = 0; i < selected.length; i++) {
+			maskPixels.data.fill(255, i * 4, i * 4 + 3);
+			maskPixels.data[i * 4 + 3] = selected[i] ? 255 : 0;
+		}
+		smallCtx.putImageData(maskPixels, 0, 0);
+
+		const canvas = document.createElement("canvas");
+		canvas.width = photoSize.current.width;
+		canvas.height = photoSize.current.height;
+		const ctx = canvas.getContext("2d")!;
+		ctx.drawImage(small, 0, 0, canvas.width, canvas.height);
+		canvas.toBlob((blob) => {
+			if (isCancelled || !blob) return;
+			setMask(new File([blob], "wall-selection.png", { type: "image/png" }));
+		}, "image/png");
+
+		return () => {
+			isCancelled = true;
+		};
+	}, [isLoaded, seeds, tolerance, edgeThreshold]);
+
+	useEffect(() => {
+		if (!mask) {
+			setMaskUrl(null);
+			return;
+		}
+		const url = URL.createObjectURL(mask);
+		setMaskUrl(url);
+		return () => URL.revokeObjectURL(url);
+	}, [mask]);
+
+	const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		const scale = e.currentTarget.width / rect.width;
+		setSeeds([
+			...seeds,
+			{
+				x: (e.clientX - rect.left) * scale,
+				y: (e.clientY - rect.top) * scale,
+			},
+		]);
+	};
+
+	const buttonClassName =
+		"px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 disabled:opacity-50";
+
+	return (
+		<div className="mt-3 space-y-3 rounded-md border border-gray-200 p-3">
+			{error && <p className="text-sm text-red-600">{error}</p>}
+
+			<p className="text-xs text-gray-500">
+				Click every wall to paint. The selection stops at strong edges like door
+				frames and furniture, lower the edge contrast if it leaks past them.
+			</p>
+
+			<div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+				<label className="flex items-center gap-2">
+					Color tolerance
+					<input
+						type="range"
+						min="5"
+						max="120"
+						value={tolerance}
+						onChange={(e) => setTolerance(Number(e.target.value))}
+					/>
+				</label>
+				<label className="flex items-center gap-2">
+					Edge contrast
+					<input
+						type="range"
+						min="4"
+						max="80"
+						value={edgeThreshold}
+						onChange={(e) => setEdgeThreshold(Number(e.target.value))}
+					/>
+				</label>
+				<button
+					type="button"
+					className={buttonClassName}
+					disabled={seeds.length === 0}
+					onClick={() => setSeeds(seeds.slice(0, -1))}
+				>
+					Undo point
+				</button>
+				<button
+					type="button"
+					className={buttonClassName}
+					disabled={seeds.length === 0}
+					onClick={() => setSeeds([])}
+				>
+					Clear
+				</button>
+			</div>
+
+			<div className="flex flex-wrap items-start gap-4">
+				<div
+					className={`relative inline-block max-w-full ${
+						isLoaded ? "" : "hidden"
+					}`}
+				>
+					<canvas
+						ref={photoCanvasRef}
+						className="block max-w-full h-auto rounded-md border border-gray-300"
+					/>
+					<canvas
+						ref={selectionCanvasRef}
+						className="absolute inset-0 h-full w-full cursor-crosshair"
+						onClick={handleClick}
+					/>
+				</div>
+				{maskUrl && (
+					<PreviewThumbnail
+						src={maskUrl}
+						alt="Wall selection"
+						title="selected walls:"
+						showCheckerboard={true}
+					/>
+				)}
+			</div>
+			{!isLoaded && !error && (
+				<p className="text-sm text-gray-500">Loading photo...</p>
+			)}
+
+			<div className="flex gap-2">
+				<button
+					type="button"
+					className="px-3 py-1 rounded-md bg-indigo-600 text-sm text-white hover:bg-indigo-700 disabled:opacity-50"
+					disabled={!mask}
+					onClick={() => mask && onSave(mask)}
+				>
+					Use as mask
+				</button>
+				<button type="button" className={buttonClassName} onClick={onCancel}>
+					Cancel
+				</button>
+			</div>
+		</div>
+	);
+}
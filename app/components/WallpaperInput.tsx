@@ -0,0 +1,109 @@
+import type { Point } from "../utils/wallpaper";
+import { WallCornerPicker } from "./WallCornerPicker";
+
+interface WallpaperInputProps {
+	/** Photo the wall is marked on, null before a photo was chosen */
+	photo: File | null;
+	corners: Point[];
+	onCornersChange: (corners: Point[]) => void;
+	/** File types the pattern input accepts */
+	accept: string;
+}
+
+const sizeInputClassName =
+	"mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2 text-sm";
+
+/**
+ * Pattern tile, real-world scale and wall plane of a wallpaper
+ * Submitted as the `wallpaperPattern`, `tileWidthCm`, `wallWidthCm`,
+ * `wallHeightCm` and `wallpaperCorners` fields
+ */
+export function WallpaperInput({
+	photo,
+	corners,
+	onCornersChange,
+	accept,
+}: WallpaperInputProps) {
+	return (
+		<div className="space-y-3">
+			<div>
+				<label
+					htmlFor="wallpaperPattern"
+					className="block text-sm text-gray-700"
+				>
+					Pattern tile
+				</label>
+				<p className="text-xs text-gray-500">
+					One repeat of the wallpaper, it is tiled across the wall
+				</p>
+				<input
+					type="file"
+					id="wallpaperPattern"
+					name="wallpaperPattern"
+					accept={accept}
+					required
+					className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+				/>
+			</div>
+
+			<div className="flex flex-wrap gap-4">
+				<label className="block text-sm text-gray-700">
+					Pattern width (cm)
+					<input
+						type="number"
+						name="tileWidthCm"
+						min="1"
+						step="any"
+						defaultValue="53"
+						required
+						className={sizeInputClassName}
+					/>
+				</label>
+				<label className="block text-sm text-gray-700">
+					Wall width (cm)
+					<input
+						type="number"
+						name="wallWidthCm"
+						min="1"
+						step="any"
+						defaultValue="400"
+						required
+						className={sizeInputClassName}
+					/>
+				</label>
+				<label className="block text-sm text-gray-700">
+					Wall height (cm)
+					<input
+						type="number"
+						name="wallHeightCm"
+						min="1"
+						step="any"
+						defaultValue="250"
+						required
+						className={sizeInputClassName}
+					/>
+				</label>
+			</div>
+
+			<div>
+				<p className="text-sm text-gray-700">Corners of the wall</p>
+				{photo ? (
+					<WallCornerPicker
+						photo={photo}
+						corners={corners}
+						onChange={onCornersChange}
+					/>
+				) : (
+					<p className="text-xs text-gray-500">
+						Upload a photo below to mark the wall on it
+					</p>
+				)}
+				<input
+					type="hidden"
+					name="wallpaperCorners"
+					value={JSON.stringify(corners)}
+				/>
+			</div>
+		</div>
+	);
+}
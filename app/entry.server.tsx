@@ -0,0 +1,84 @@
+import { PassThrough } from "node:stream";
+
+import type { AppLoadContext, EntryContext } from "react-router";
+import { createReadableStreamFromReadable } from "@react-router/node";
+import { ServerRouter } from "react-router";
+import { isbot } from "isbot";
+import type { RenderToPipeableStreamOptions } from "react-dom/server";
+import { renderToPipeableStream } from "react-dom/server";
+import { startJobWorker } from "./utils/jobs.server";
+import { getDatabase } from "./utils/sqlite.server";
+
+export const streamTimeout = 5_000;
+
+// Migrate the database before serving requests. A database the application
+// can't use, e.g. one migrated by a newer version, ends the process.
+getDatabase().then(
+	() =>
+		// Start processing render jobs, including the ones interrupted by a restart
+		startJobWorker().catch((error) =>
+			console.error("Failed to start job worker:", error)
+		),
+	(error) => {
+		console.error("Failed to open the database:", error);
+		process.exit(1);
+	}
+);
+
+export default function handleRequest(
+	request: Request,
+	responseStatusCode: number,
+	responseHeaders: Headers,
+	routerContext: EntryContext,
+	loadContext: AppLoadContext
+) {
+	return new Promise((resolve, reject) => {
+		let shellRendered = false;
+		let userAgent = request.headers.get("user-agent");
+
+		// Ensure requests from bots and SPA Mode renders wait for all content to load before responding
+		// https://react.dev/reference/react-dom/server/renderToPipeableStream#waiting-for-all-content-to-load-for-crawlers-and-static-generation
+		let readyOption: keyof RenderToPipeableStreamOptions =
+			(userAgent && isbot(userAgent)) || routerContext.isSpaMode
+				? "onAllReady"
+				: "onShellReady";
+
+		const { pipe, abort } = renderToPipeableStream(
+			<ServerRouter context={routerContext} url={request.url} />,
+			{
+				[readyOption]() {
+					shellRendered = true;
+					const body = new PassThrough();
+					const stream = createReadableStreamFromReadable(body);
+
+					responseHeaders.set("Content-Type", "text/html");
+
+					resolve(
+						new Response(stream, {
+							headers: responseHeaders,
+							status: responseStatusCode,
+						})
+					);
+
+					pipe(body);
+				},
+				onShellError(error: unknown) {
+					reject(error);
+				},
+				onError(error: unknown) {
+					responseStatusCode = 500;
+					// Log streaming rendering errors from inside the shell.  Don't log
+					// errors encountered during initial shell rendering since they'll
+					// reject and get logged in handleDocumentRequest.
+					if (shellRendered) {
+						console.error(error);
+					}
+				},
+			}
+		);
+
+		// Abort the rendering stream after the `streamTimeout` so it has time to
+		// flush down the rejected boundaries
+		setTimeout(abort, streamTimeout + 1000);
+	});
+}
@@ -0,0 +1,26 @@
+import type { BatchStatus } from "../utils/batches.server";
+import type { RenderStatus } from "../utils/renders.server";
+import { useLiveStatus } from "./useLiveStatus";
+
+/**
+ * Whether a render stopped changing
+ */
+export function isRenderFinished(status: RenderStatus) {
+	return status.status === "completed" || status.status === "error";
+}
+
+function isBatchFinished(status: BatchStatus) {
+	return status.variants.every((variant) => isRenderFinished(variant.status));
+}
+
+/**
+ * Follow the status of every variant of a batch of renders
+ * @returns The latest status, or null until the first status arrived
+ */
+export function useBatchStatus(batchId: string | undefined) {
+	return useLiveStatus<BatchStatus>(
+		batchId ? `/api/batch/${batchId}` : null,
+		batchId ? `/api/batch/${batchId}/events` : null,
+		isBatchFinished
+	);
+}
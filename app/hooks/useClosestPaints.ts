@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import type { PaintMatch } from "../utils/paints.server";
+
+const SEARCH_DELAY_MS = 250;
+
+/**
+ * Find the catalog paints closest to a color
+ * Changes of the color are debounced, e.g. while dragging a color input
+ * @param hex - #RRGGBB color, or null to not search
+ * @returns The matches, closest first, or null while there are none
+ */
+export function useClosestPaints(hex: string | null, limit = 5) {
+	const [matches, setMatches] = useState<PaintMatch[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!hex) {
+			setMatches(null);
+			return;
+		}
+
+		const controller = new AbortController();
+		const params = new URLSearchParams({ hex, limit: String(limit) });
+		const timeoutId = setTimeout(async () => {
+			try {
+				const response = await fetch(`/api/paints/closest?${params}`, {
+					signal: controller.signal,
+				});
+				const data = await response.json();
+				if (!response.ok) throw new Error(data.error || "Search failed");
+
+				setMatches(data.matches);
+				setError(null);
+			} catch (error: any) {
+				if (error.name === "AbortError") return;
+				console.error("Error finding closest paints:", error);
+				setError("Could not find matching paints");
+			}
+		}, SEARCH_DELAY_MS);
+
+		return () => {
+			clearTimeout(timeoutId);
+			controller.abort();
+		};
+	}, [hex, limit]);
+
+	return { matches, error };
+}
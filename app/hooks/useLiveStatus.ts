@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follow a status that the server updates over time
+ * Listens to the Server-Sent Events stream of the status and falls back to
+ * polling the status endpoint when the stream is not available
+ * @param statusUrl - Endpoint returning the status as JSON, null to not follow
+ * @param eventsUrl - Endpoint streaming the status as `status` events
+ * @param isFinished - Whether the status stopped changing
+ * @returns The latest status, or null until the first status arrived
+ */
+export function useLiveStatus<T>(
+	statusUrl: string | null,
+	eventsUrl: string | null,
+	isFinished: (status: T) => boolean
+) {
+	const [status, setStatus] = useState<T | null>(null);
+
+	useEffect(() => {
+		setStatus(null);
+		if (!statusUrl || !eventsUrl) return;
+
+		let isMounted = true;
+		let isDone = false;
+		let intervalId: number | undefined;
+		let eventSource: EventSource | null = null;
+
+		const stop = () => {
+			isDone = true;
+			eventSource?.close();
+			if (intervalId) clearInterval(intervalId);
+		};
+
+		const handleStatus = (data: T) => {
+			if (!isMounted) return;
+			setStatus(data);
+			if (isFinished(data)) stop();
+		};
+
+		const checkStatus = async () => {
+			try {
+				const response = await fetch(statusUrl);
+				if (!response.ok) throw new Error("Failed to fetch status");
+
+				handleStatus(await response.json());
+			} catch (error) {
+				console.error("Error checking status:", error);
+			}
+		};
+
+		const startPolling = () => {
+			checkStatus();
+			intervalId = window.setInterval(checkStatus, POLL_INTERVAL_MS);
+		};
+
+		if (typeof EventSource === "undefined") {
+			startPolling();
+		} else {
+			eventSource = new EventSource(eventsUrl);
+			eventSource.addEventListener("status", (event) => {
+				handleStatus(JSON.parse((event as MessageEvent).data));
+			});
+			eventSource.onerror = () => {
+				// The stream dropped before the status was final
+				eventSource?.close();
+				eventSource = null;
+				if (isMounted && !isDone) startPolling();
+			};
+		}
+
+		return () => {
+			isMounted = false;
+			stop();
+		};
+	}, [statusUrl, eventsUrl]);
+
+	return status;
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import type { PaintFinish } from "../utils/paints";
+import type { PaintSearchResult } from "../utils/paints.server";
+
+export type PaintSearchResponse = PaintSearchResult & {
+	brands: { brand: string; collections: string[] }[];
+};
+
+export type PaintSearchParams = {
+	query: string;
+	brand: string;
+	finish: PaintFinish | "";
+	page: number;
+	pageSize: number;
+};
+
+const SEARCH_DELAY_MS = 250;
+
+/**
+ * Search the paint catalog
+ * Typing in the query is debounced, and outdated requests are aborted
+ * @returns The latest results, null until the first results arrived
+ */
+export function usePaintSearch({
+	query,
+	brand,
+	finish,
+	page,
+	pageSize,
+}: PaintSearchParams) {
+	const [result, setResult] = useState<PaintSearchResponse | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const controller = new AbortController();
+		const params = new URLSearchParams({
+			q: query,
+			brand,
+			finish,
+			page: String(page),
+			pageSize: String(pageSize),
+		});
+
+		setIsLoading(true);
+		const timeoutId = setTimeout(async () => {
+			try {
+				const response = await fetch(`/api/paints?${params}`, {
+					signal: controller.signal,
+				});
+				const data = await response.json();
+				if (!response.ok) throw new Error(data.error || "Search failed");
+
+				setResult(data);
+				setError(null);
+			} catch (error: any) {
+				if (error.name === "AbortError") return;
+				console.error("Error searching paints:", error);
+				setError("Could not load paints");
+			}
+			setIsLoading(false);
+		}, SEARCH_DELAY_MS);
+
+		return () => {
+			clearTimeout(timeoutId);
+			controller.abort();
+		};
+	}, [query, brand, finish, page, pageSize]);
+
+	return { result, isLoading, error };
+}
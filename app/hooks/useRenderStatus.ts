@@ -0,0 +1,16 @@
+import type { RenderStatus } from "../utils/renders.server";
+import { isRenderFinished } from "./useBatchStatus";
+import { useLiveStatus } from "./useLiveStatus";
+
+/**
+ * Follow the status of a single render
+ * @param renderId - Render to follow, undefined to not follow one
+ * @returns The latest status, or null until the first status arrived
+ */
+export function useRenderStatus(renderId: string | undefined) {
+	return useLiveStatus<RenderStatus>(
+		renderId ? `/api/image/${renderId}/status` : null,
+		renderId ? `/api/image/${renderId}/events` : null,
+		isRenderFinished
+	);
+}
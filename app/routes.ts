@@ -2,6 +2,24 @@ import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
 export default [
 	index("routes/image-upload.tsx"),
+	route("history", "routes/history.tsx"),
+	route("history/:renderId", "routes/history.$renderId.tsx"),
 	route("api/image/:imageId", "routes/api/image.$imageId.ts"),
 	route("api/image/:imageId/status", "routes/api/image.$imageId.status.ts"),
+	route("api/image/:imageId/events", "routes/api/image.$imageId.events.ts"),
+	route(
+		"api/image/:imageId/assets/:assetType",
+		"routes/api/image.$imageId.assets.$assetType.ts"
+	),
+	route("api/asset/:assetId", "routes/api/asset.$assetId.ts"),
+	route("api/batch/:batchId", "routes/api/batch.$batchId.ts"),
+	route("api/batch/:batchId/events", "routes/api/batch.$batchId.events.ts"),
+	route("api/jobs", "routes/api/jobs.ts"),
+	route("api/paints", "routes/api/paints.ts"),
+	route("api/paints/closest", "routes/api/paints.closest.ts"),
+	route("api/prompt-templates", "routes/api/prompt-templates.ts"),
+	route(
+		"api/prompt-templates/:name/active",
+		"routes/api/prompt-templates.$name.active.ts"
+	),
 ] satisfies RouteConfig;
@@ -0,0 +1,65 @@
+/**
+ * API endpoint to retrieve render assets
+ * GET /api/asset/:assetId - Returns the asset image with its content type
+ * GET /api/asset/:assetId?width=320 - Returns the asset scaled down to a width
+ * Assets never change after they are stored, so they can be cached forever
+ */
+import sharp from "sharp";
+import {
+	getAsset,
+	MAX_ASSET_WIDTH,
+	MIN_ASSET_WIDTH,
+} from "../../utils/assets.server";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	const { assetId } = params;
+
+	if (!assetId) {
+		return new Response("Asset ID is required", { status: 400 });
+	}
+
+	const widthParam = new URL(request.url).searchParams.get("width");
+	const width = widthParam === null ? null : Number(widthParam);
+	if (
+		width !== null &&
+		(!Number.isInteger(width) ||
+			width < MIN_ASSET_WIDTH ||
+			width > MAX_ASSET_WIDTH)
+	) {
+		return new Response(
+			`Width must be a whole number from ${MIN_ASSET_WIDTH} to ${MAX_ASSET_WIDTH}`,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const asset = await getAsset(assetId);
+
+		if (!asset) {
+			return new Response("Asset not found", { status: 404 });
+		}
+
+		// Assets smaller than the width are served as they are
+		const data = width
+			? await sharp(asset.data)
+					.resize({ width, withoutEnlargement: true })
+					.toBuffer()
+			: asset.data;
+
+		return new Response(data, {
+			headers: {
+				"Content-Type": asset.contentType,
+				"Cache-Control": "public, max-age=31536000, immutable", // Cache for 1 year
+			},
+		});
+	} catch (error) {
+		console.error("Error retrieving asset:", error);
+		return new Response("Failed to retrieve asset", { status: 500 });
+	}
+}
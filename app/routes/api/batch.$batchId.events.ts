@@ -0,0 +1,38 @@
+/**
+ * API endpoint that streams batch status updates as Server-Sent Events
+ * GET /api/batch/:batchId/events - Sends a `status` event whenever a variant
+ * changes and closes the stream once every variant completed or failed
+ */
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+	const { batchId } = params;
+
+	if (!batchId) {
+		return new Response("Batch ID is required", { status: 400 });
+	}
+
+	const { getBatchStatus, isFinalBatchStatus } = await import(
+		"../../utils/batches.server"
+	);
+	const { createStatusStream } = await import(
+		"../../utils/status-stream.server"
+	);
+
+	const initialStatus = await getBatchStatus(batchId);
+	if (!initialStatus) {
+		return new Response("Batch not found", { status: 404 });
+	}
+
+	return createStatusStream(request, {
+		initialStatus,
+		imageIds: initialStatus.variants.map((variant) => variant.id),
+		getStatus: () => getBatchStatus(batchId),
+		isFinal: isFinalBatchStatus,
+	});
+}
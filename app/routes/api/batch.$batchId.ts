@@ -0,0 +1,45 @@
+/**
+ * API endpoint for the status of a batch of renders
+ * GET /api/batch/:batchId - Returns the status of every variant of the batch
+ */
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, init?: ResponseInit) => {
+	return new Response(JSON.stringify(data), {
+		...init,
+		headers: {
+			...init?.headers,
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+export async function loader({ params }: LoaderFunctionArgs) {
+	const batchId = params.batchId;
+
+	if (!batchId) {
+		return json({ error: "Batch ID is required" }, { status: 400 });
+	}
+
+	try {
+		// Import the batch status only in server-side code
+		const { getBatchStatus } = await import("../../utils/batches.server");
+
+		const status = await getBatchStatus(batchId);
+
+		if (status === null) {
+			return json({ error: "Batch not found" }, { status: 404 });
+		}
+
+		return json(status);
+	} catch (error) {
+		console.error("Error fetching batch status:", error);
+		return json({ error: "Failed to fetch batch status" }, { status: 500 });
+	}
+}
@@ -3,8 +3,20 @@
  * It uses the OpenAI API to generate images with colored walls based on user prompts.
  */
 
-import { OpenAI, type Uploadable } from "openai";
+import {
+	APIConnectionError,
+	APIError,
+	OpenAI,
+	RateLimitError,
+	toFile,
+} from "openai";
 import { convertFileToBase64 } from "./helpers";
+import {
+	providerError,
+	type ImageEditRequest,
+	type ImageEditResult,
+	type ImageProvider,
+} from "../../utils/image-provider.server";
 
 // Define types for OpenAI API requests
 type ChatCompletionMessageParam = {
@@ -75,106 +87,97 @@ async function generateImageWithGptResponse(
  */
 async function generateImageWithGptImage(
 	apiKey: string,
-	prompt: string,
-	file: File,
-	maskFile: File | null
+	request: ImageEditRequest
 ): Promise<string> {
 	console.log("Generating image with OpenAI gpt-image-1 API");
-	console.log("Using prompt:", prompt);
+	console.log("Using prompt:", request.prompt);
 
 	// Initialize the OpenAI client
 	const openai = new OpenAI({
 		apiKey: apiKey,
 	});
 
-	try {
-		// Now use gpt-image-1 to generate the image based on the detailed description
-		let imageResponse;
-		if (maskFile) {
-			console.log("Using mask file:", maskFile.name);
-			// If mask is provided, use it in the API call
-			imageResponse = await openai.images.edit({
-				// model: "dall-e-2",
-				model: "gpt-image-1",
-				prompt: prompt,
-				image: file,
-				mask: maskFile,
-				n: 1,
-				size: "1024x1024",
-				quality: "medium",
-			});
-		} else {
-			console.log("No mask file provided");
-			// If no mask is provided, use the standard edit API
-			imageResponse = await openai.images.edit({
-				model: "gpt-image-1",
-				prompt: prompt,
-				image: file,
-				n: 1,
-				size: "1024x1024",
-				quality: "medium",
-			});
-		}
-		console.log("Image response:", imageResponse);
+	const image = await toFile(request.image, "image.png", { type: "image/png" });
+	const mask = request.mask
+		? await toFile(request.mask, "mask.png", { type: "image/png" })
+		: undefined;
+	console.log(mask ? "Using mask file" : "No mask file provided");
 
-		// Extract the base64 image from the response
-		const generatedImageBase64 = imageResponse.data?.[0]?.b64_json;
-		if (!generatedImageBase64) {
-			throw new Error("No image data received from GPT Image API");
-		}
-
-		// Log successful image generation
-		console.log("GPT Image successfully generated");
-		console.log("Image format:", "PNG (Base64)");
+	const imageResponse = await openai.images.edit({
+		model: "gpt-image-1",
+		prompt: request.prompt,
+		image,
+		mask,
+		n: 1,
+		size: request.size ?? "1024x1024",
+		quality: request.quality ?? "medium",
+	});
+	console.log("Image response:", imageResponse);
 
-		return generatedImageBase64;
-	} catch (error: any) {
-		console.error("API error:", error);
-		// Instead of throwing, return the error message
-		throw new Error(`API error: ${error.message || JSON.stringify(error)}`);
+	// Extract the base64 image from the response
+	const generatedImageBase64 = imageResponse.data?.[0]?.b64_json;
+	if (!generatedImageBase64) {
+		throw new NoImageError("No image data received from GPT Image API");
 	}
+
+	console.log("GPT Image successfully generated");
+	return generatedImageBase64;
 }
 
+class NoImageError extends Error {}
+
 /**
- * Process an image and prompt to generate a response using OpenAI API
- * This function can be called directly from other routes
+ * Map an error thrown by the OpenAI client to a typed provider error
  */
-export async function processImageAndPrompt(
-	prompt: string,
-	file: File,
-	maskFile: File | null = null
-): Promise<{
-	image: string;
-	imageId?: string;
-	error?: string;
-} | null> {
-	console.log("Calling OpenAI API with image and prompt");
-
-	// Get API key from environment variable
-	const apiKey = process.env.OPENAI_API_KEY;
-	if (!apiKey) {
-		console.error("Missing OpenAI API key");
-		return null;
+function toProviderError(error: unknown): ImageEditResult {
+	if (error instanceof NoImageError) {
+		return providerError("no_image", error.message, true);
 	}
-
-	try {
-		// Generate image directly using GPT-4 Vision
-		const generatedImageBase64 = await generateImageWithGptImage(
-			apiKey,
-			prompt,
-			file,
-			maskFile
+	if (error instanceof RateLimitError) {
+		return providerError("rate_limited", `API error: ${error.message}`, true);
+	}
+	if (error instanceof APIConnectionError) {
+		return providerError("network_error", `API error: ${error.message}`, true);
+	}
+	if (error instanceof APIError) {
+		const retryable = error.status === undefined || error.status >= 500;
+		return providerError(
+			retryable ? "provider_error" : "invalid_request",
+			`API error: ${error.message}`,
+			retryable
 		);
-
-		return {
-			image: `data:image/png;base64,${generatedImageBase64}`,
-		};
-	} catch (error: any) {
-		console.error("Error calling OpenAI API:", error);
-		// Return the error message instead of null
-		return {
-			image: "",
-			error: error.message || "An error occurred while processing the image",
-		};
 	}
+	const message = error instanceof Error ? error.message : JSON.stringify(error);
+	return providerError("provider_error", `API error: ${message}`);
 }
+
+/**
+ * Image provider backed by the OpenAI images.edit endpoint
+ */
+export const openAIProvider: ImageProvider = {
+	name: "openai",
+	async editImage(request) {
+		console.log("Calling OpenAI API with image and prompt");
+
+		const apiKey = process.env.OPENAI_API_KEY;
+		if (!apiKey) {
+			console.error("Missing OpenAI API key");
+			return providerError("missing_api_key", "Missing OpenAI API key");
+		}
+
+		try {
+			const generatedImageBase64 = await generateImageWithGptImage(
+				apiKey,
+				request
+			);
+			return {
+				ok: true,
+				image: Buffer.from(generatedImageBase64, "base64"),
+				contentType: "image/png",
+			};
+		} catch (error) {
+			console.error("Error calling OpenAI API:", error);
+			return toProviderError(error);
+		}
+	},
+};
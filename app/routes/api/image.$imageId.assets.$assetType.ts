@@ -0,0 +1,50 @@
+/**
+ * API endpoint to retrieve one of the assets of a render
+ * GET /api/image/:imageId/assets/:assetType - Redirects to the original, mask,
+ * generated-mask, pattern or result asset
+ */
+import { assetTypes, getAssetUrl, type AssetType } from "../../utils/assets.server";
+import { getRender } from "../../utils/renders.server";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+export async function loader({ params }: LoaderFunctionArgs) {
+	const { imageId } = params;
+	// URLs use dashes, asset types use underscores
+	const assetType = params.assetType?.replace(/-/g, "_") as AssetType;
+
+	if (!imageId) {
+		return new Response("Image ID is required", { status: 400 });
+	}
+	if (!assetTypes.includes(assetType)) {
+		return new Response(
+			`Unknown asset type, expected one of: ${assetTypes.join(", ")}`,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const render = await getRender(imageId);
+		const assetId = render?.assetIds[assetType];
+
+		if (!assetId) {
+			return new Response("Asset not found", { status: 404 });
+		}
+
+		// The render may still get this asset later, so only the asset itself is cached
+		return new Response(null, {
+			status: 302,
+			headers: {
+				Location: getAssetUrl(assetId),
+				"Cache-Control": "no-store",
+			},
+		});
+	} catch (error) {
+		console.error("Error retrieving render asset:", error);
+		return new Response("Failed to retrieve asset", { status: 500 });
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * API endpoint that streams render status updates as Server-Sent Events
+ * GET /api/image/:imageId/events - Sends a `status` event on every change
+ * and closes the stream once the render completed or failed
+ */
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+	const { imageId } = params;
+
+	if (!imageId) {
+		return new Response("Image ID is required", { status: 400 });
+	}
+
+	const { getRenderStatus, isFinalStatus } = await import(
+		"../../utils/renders.server"
+	);
+	const { createStatusStream } = await import(
+		"../../utils/status-stream.server"
+	);
+
+	const initialStatus = await getRenderStatus(imageId);
+	if (!initialStatus) {
+		return new Response("Image not found", { status: 404 });
+	}
+
+	return createStatusStream(request, {
+		initialStatus,
+		imageIds: [imageId],
+		getStatus: () => getRenderStatus(imageId),
+		isFinal: isFinalStatus,
+	});
+}
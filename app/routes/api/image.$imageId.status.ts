@@ -23,23 +23,18 @@ export async function loader({ params }: LoaderFunctionArgs) {
 	}
 
 	try {
-		// Import SQLite utilities only in server-side code
-		const { getImageField } = await import("../../utils/sqlite.server");
+		// Import the render status only in server-side code
+		const { getRenderStatus } = await import(
+			"../../utils/renders.server"
+		);
 
-		// Get the status field from SQLite
-		const status = await getImageField(imageId, "status");
+		const status = await getRenderStatus(imageId);
 
 		if (status === null) {
 			return json({ error: "Image not found" }, { status: 404 });
 		}
 
-		// If status is error, get the error message
-		if (status === "error") {
-			const errorMessage = await getImageField(imageId, "errorMessage");
-			return json({ status, errorMessage: errorMessage || "Unknown error occurred" });
-		}
-
-		return json({ status });
+		return json(status);
 	} catch (error) {
 		console.error("Error fetching image status:", error);
 		return json(
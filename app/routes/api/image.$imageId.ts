@@ -1,8 +1,9 @@
 /**
- * API endpoint to retrieve images from SQLite
- * GET /api/image/:imageId - Returns the image data with content type
+ * API endpoint to retrieve the result of a render
+ * GET /api/image/:imageId - Redirects to the result asset once the render completed
  */
-import { getImage } from "../../utils/sqlite.server";
+import { getAssetUrl } from "../../utils/assets.server";
+import { getRender } from "../../utils/renders.server";
 
 // Define LoaderFunctionArgs type since it's not exported from @react-router/node
 type LoaderFunctionArgs = {
@@ -18,23 +19,20 @@ export async function loader({ params }: LoaderFunctionArgs) {
 	}
 
 	try {
-		// Get image from Redis
-		const imageData = await getImage(imageId);
+		const render = await getRender(imageId);
 
-		console.log("Retrieved image data:", imageData);
-
-		if (!imageData) {
+		if (!render) {
 			return new Response("Image not found", { status: 404 });
 		}
+		if (!render.assetIds.result) {
+			return new Response("Image has no result yet", { status: 404 });
+		}
 
-		// Get content type from metadata or default to jpeg
-		const contentType = imageData.fileType || "image/jpeg";
-
-		// Return image as binary response with proper content type
-		return new Response(Buffer.from(imageData.data, "base64"), {
+		return new Response(null, {
+			status: 302,
 			headers: {
-				"Content-Type": contentType,
-				"Cache-Control": "public, max-age=31536000", // Cache for 1 year
+				Location: getAssetUrl(render.assetIds.result),
+				"Cache-Control": "no-store",
 			},
 		});
 	} catch (error) {
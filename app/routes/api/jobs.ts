@@ -0,0 +1,51 @@
+/**
+ * API endpoint to inspect render jobs
+ * GET /api/jobs?status=running - Returns the most recently updated jobs
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`, since jobs reference the
+ * renders of every session
+ */
+import type { JobStatus } from "../../utils/jobs.server";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, init?: ResponseInit) => {
+	return new Response(JSON.stringify(data), {
+		...init,
+		headers: {
+			...init?.headers,
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+const jobStatuses: JobStatus[] = ["queued", "running", "completed", "error"];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const { isAdminRequest } = await import("../../utils/admin.server");
+	if (!isAdminRequest(request)) {
+		return json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const status = new URL(request.url).searchParams.get("status");
+
+	if (status && !jobStatuses.includes(status as JobStatus)) {
+		return json(
+			{ error: `Invalid status, expected one of: ${jobStatuses.join(", ")}` },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const { listJobs } = await import("../../utils/jobs.server");
+		const jobs = await listJobs((status as JobStatus) || undefined);
+		return json({ jobs });
+	} catch (error) {
+		console.error("Error listing jobs:", error);
+		return json({ error: "Failed to list jobs" }, { status: 500 });
+	}
+}
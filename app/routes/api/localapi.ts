@@ -0,0 +1,80 @@
+/**
+ * This file contains a deterministic offline image provider.
+ * It tints the input image with the color named in the prompt so the full
+ * upload → status → result flow can run without an API key or network.
+ */
+import { createHash } from "crypto";
+import sharp from "sharp";
+import {
+	providerError,
+	type ImageProvider,
+} from "../../utils/image-provider.server";
+
+/**
+ * Pick the tint color for a prompt
+ * Uses the first hex color in the prompt, or derives one from its hash
+ */
+export function getPromptColor(prompt: string): string {
+	const match = prompt.match(/#[0-9a-fA-F]{6}\b/);
+	if (match) return match[0];
+
+	const hash = createHash("sha256").update(prompt).digest("hex");
+	return `#${hash.substring(0, 6)}`;
+}
+
+/**
+ * Image provider that recolors the image locally with sharp
+ * The output only depends on the input image, mask, prompt and size
+ */
+export const localProvider: ImageProvider = {
+	name: "local",
+	async editImage(request) {
+		try {
+			let image = sharp(request.image).removeAlpha();
+			if (request.size && request.size !== "auto") {
+				const [width, height] = request.size.split("x").map(Number);
+				image = image.resize(width, height, { fit: "fill" });
+			}
+			const original = await image.png().toBuffer({ resolveWithObject: true });
+			const { width, height } = original.info;
+
+			const tinted = sharp(original.data).tint(getPromptColor(request.prompt));
+
+			if (!request.mask) {
+				return {
+					ok: true,
+					image: await tinted.png().toBuffer(),
+					contentType: "image/png",
+				};
+			}
+
+			// Transparent mask areas receive the tint, opaque areas keep the original
+			const maskAlpha = await sharp(request.mask)
+				.resize(width, height, { fit: "fill" })
+				.ensureAlpha()
+				.extractChannel(3)
+				.negate()
+				.raw()
+				.toBuffer();
+			const tintedLayer = await tinted
+				.joinChannel(maskAlpha, { raw: { width, height, channels: 1 } })
+				.png()
+				.toBuffer();
+
+			return {
+				ok: true,
+				image: await sharp(original.data)
+					.composite([{ input: tintedLayer }])
+					.png()
+					.toBuffer(),
+				contentType: "image/png",
+			};
+		} catch (error: any) {
+			console.error("Local provider error:", error);
+			return providerError(
+				"invalid_request",
+				`Local provider error: ${error.message || JSON.stringify(error)}`
+			);
+		}
+	},
+};
@@ -0,0 +1,48 @@
+/**
+ * API endpoint to find the catalog paints closest to a color
+ * GET /api/paints/closest?hex=%23A1B2C3&limit=5&brand= - Returns the paints
+ * with their CIEDE2000 difference to the color, closest first
+ */
+import { hexToRgb, rgbToHex } from "../../utils/color";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, init?: ResponseInit) => {
+	return new Response(JSON.stringify(data), {
+		...init,
+		headers: {
+			...init?.headers,
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const searchParams = new URL(request.url).searchParams;
+	const rgb = hexToRgb(searchParams.get("hex") ?? "");
+
+	if (!rgb) {
+		return json(
+			{ error: "A hex color like #A1B2C3 is required" },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const { findClosestPaints } = await import("../../utils/paints.server");
+		const hex = rgbToHex(rgb);
+		const matches = await findClosestPaints(hex, {
+			limit: Number(searchParams.get("limit")) || undefined,
+			brand: searchParams.get("brand") || undefined,
+		});
+		return json({ hex, matches });
+	} catch (error) {
+		console.error("Error finding closest paints:", error);
+		return json({ error: "Failed to find closest paints" }, { status: 500 });
+	}
+}
@@ -0,0 +1,54 @@
+/**
+ * API endpoint to search the paint catalog
+ * GET /api/paints?q=sage&brand=&collection=&finish=matte&page=1&pageSize=24
+ * Returns a page of paints with the total number of matches and the brands
+ * with their collections to filter on
+ */
+import { paintFinishes, type PaintFinish } from "../../utils/paints";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, init?: ResponseInit) => {
+	return new Response(JSON.stringify(data), {
+		...init,
+		headers: {
+			...init?.headers,
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const searchParams = new URL(request.url).searchParams;
+	const finish = searchParams.get("finish");
+
+	if (finish && !paintFinishes.includes(finish as PaintFinish)) {
+		return json(
+			{ error: `Invalid finish, expected one of: ${paintFinishes.join(", ")}` },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const { searchPaints, listPaintBrands } = await import(
+			"../../utils/paints.server"
+		);
+		const result = await searchPaints({
+			query: searchParams.get("q") || undefined,
+			brand: searchParams.get("brand") || undefined,
+			collection: searchParams.get("collection") || undefined,
+			finish: (finish as PaintFinish) || undefined,
+			page: Number(searchParams.get("page")) || undefined,
+			pageSize: Number(searchParams.get("pageSize")) || undefined,
+		});
+		return json({ ...result, brands: await listPaintBrands() });
+	} catch (error) {
+		console.error("Error searching paints:", error);
+		return json({ error: "Failed to search paints" }, { status: 500 });
+	}
+}
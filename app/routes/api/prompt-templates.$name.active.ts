@@ -0,0 +1,68 @@
+/**
+ * Admin API endpoint to switch the active version of a prompt template
+ * POST /api/prompt-templates/:name/active - Activates the version from a JSON
+ * body { version }, renders created afterwards use it
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`
+ */
+
+// Define ActionFunctionArgs type since it's not exported from @react-router/node
+type ActionFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, init?: ResponseInit) => {
+	return new Response(JSON.stringify(data), {
+		...init,
+		headers: {
+			...init?.headers,
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+export async function action({ request, params }: ActionFunctionArgs) {
+	const { isAdminRequest } = await import("../../utils/admin.server");
+	if (!isAdminRequest(request)) {
+		return json({ error: "Unauthorized" }, { status: 401 });
+	}
+	if (request.method !== "POST") {
+		return json({ error: "Method not allowed" }, { status: 405 });
+	}
+
+	let version: unknown;
+	try {
+		({ version } = await request.json());
+	} catch {
+		return json({ error: "Expected a JSON body" }, { status: 400 });
+	}
+
+	if (!Number.isInteger(version)) {
+		return json(
+			{ error: "The version to activate is required" },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const { activateTemplateVersion } = await import(
+			"../../utils/prompt-templates.server"
+		);
+		const result = await activateTemplateVersion(
+			params.name,
+			version as number
+		);
+
+		if (!result.ok) {
+			return json({ error: result.error }, { status: 404 });
+		}
+		return json({ template: result.template });
+	} catch (error) {
+		console.error("Error activating prompt template:", error);
+		return json(
+			{ error: "Failed to activate prompt template" },
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,106 @@
+/**
+ * Admin API endpoint for prompt templates
+ * GET /api/prompt-templates?name=paint.walls - Lists the versions of the
+ * templates, newest first, and the variables templates can use
+ * POST /api/prompt-templates - Adds a version of a template from a JSON body
+ * { name, body, note?, activate? }
+ * Both require `Authorization: Bearer <ADMIN_TOKEN>`
+ */
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, init?: ResponseInit) => {
+	return new Response(JSON.stringify(data), {
+		...init,
+		headers: {
+			...init?.headers,
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const { isAdminRequest } = await import("../../utils/admin.server");
+	if (!isAdminRequest(request)) {
+		return json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const name = new URL(request.url).searchParams.get("name");
+
+	try {
+		const { listPromptTemplates } = await import(
+			"../../utils/prompt-templates.server"
+		);
+		const { templateVariables } = await import("../../utils/prompt-templates");
+
+		const variables: Record<string, string> = {};
+		for (const [variable, { description }] of Object.entries(
+			templateVariables
+		)) {
+			variables[variable] = description;
+		}
+
+		return json({
+			templates: await listPromptTemplates(name || undefined),
+			variables,
+		});
+	} catch (error) {
+		console.error("Error listing prompt templates:", error);
+		return json({ error: "Failed to list prompt templates" }, { status: 500 });
+	}
+}
+
+export async function action({ request }: LoaderFunctionArgs) {
+	const { isAdminRequest } = await import("../../utils/admin.server");
+	if (!isAdminRequest(request)) {
+		return json({ error: "Unauthorized" }, { status: 401 });
+	}
+	if (request.method !== "POST") {
+		return json({ error: "Method not allowed" }, { status: 405 });
+	}
+
+	let input: {
+		name?: unknown;
+		body?: unknown;
+		note?: unknown;
+		activate?: unknown;
+	};
+	try {
+		input = await request.json();
+	} catch {
+		return json({ error: "Expected a JSON body" }, { status: 400 });
+	}
+
+	if (typeof input.name !== "string" || typeof input.body !== "string") {
+		return json(
+			{ error: "The name and body of the template are required" },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const { addTemplateVersion } = await import(
+			"../../utils/prompt-templates.server"
+		);
+		const result = await addTemplateVersion(input.name, input.body, {
+			note: typeof input.note === "string" ? input.note : null,
+			activate: input.activate === true,
+		});
+
+		if (!result.ok) {
+			return json(
+				{ error: result.error },
+				{ status: result.code === "not_found" ? 404 : 400 }
+			);
+		}
+		return json({ template: result.template }, { status: 201 });
+	} catch (error) {
+		console.error("Error adding prompt template:", error);
+		return json({ error: "Failed to add prompt template" }, { status: 500 });
+	}
+}
@@ -0,0 +1,143 @@
+import { Link, useLoaderData } from "react-router";
+import { RenderResult } from "../components/RenderResult";
+import { Timestamp } from "../components/Timestamp";
+import { isRenderFinished } from "../hooks/useBatchStatus";
+import { useRenderStatus } from "../hooks/useRenderStatus";
+import type { RenderMethod } from "../utils/render.server";
+import type { RenderRecord, RenderStatus } from "../utils/renders.server";
+import { sceneModeLabels } from "../utils/surfaces";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, status: number = 200) => {
+	return new Response(JSON.stringify(data), {
+		status,
+		headers: {
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+type RenderDetailData = {
+	render: Pick<
+		RenderRecord,
+		"id" | "mode" | "method" | "fileName" | "createdAt" | "timestamp"
+	>;
+	/** Status when the page was loaded, pending renders are followed live */
+	status: RenderStatus;
+	originalUrl: string;
+	/** Width / height of the original, so the result is shown uncropped */
+	aspectRatio: number;
+};
+
+const methodLabels: Record<RenderMethod, string> = {
+	ai: "AI render",
+	local: "Local recolor",
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	const { renderId } = params;
+
+	// Import server utilities only in server-side code
+	const { getAsset, getAssetUrl } = await import("../utils/assets.server");
+	const { getRender, getRenderStatus } = await import(
+		"../utils/renders.server"
+	);
+	const { getSessionId } = await import("../utils/session.server");
+
+	// Renders of other sessions are not found, like in the history
+	const sessionId = await getSessionId(request);
+	const render = renderId && sessionId ? await getRender(renderId) : null;
+	if (!render || render.sessionId !== sessionId) {
+		throw new Response("Render not found", { status: 404 });
+	}
+
+	const status = await getRenderStatus(render.id);
+	if (!status || !render.assetIds.original) {
+		throw new Response("Render not found", { status: 404 });
+	}
+
+	const original = await getAsset(render.assetIds.original);
+	const data: RenderDetailData = {
+		render: {
+			id: render.id,
+			mode: render.mode,
+			method: render.method,
+			fileName: render.fileName,
+			createdAt: render.createdAt,
+			timestamp: render.timestamp,
+		},
+		status,
+		originalUrl: getAssetUrl(render.assetIds.original),
+		aspectRatio:
+			original && original.height > 0 ? original.width / original.height : 1,
+	};
+	return json(data);
+}
+
+export function meta() {
+	return [
+		{ title: "Render" },
+		{
+			name: "description",
+			content: "A render with its colors and status",
+		},
+	];
+}
+
+export default function RenderDetail() {
+	const { render, status, originalUrl, aspectRatio } =
+		useLoaderData() as RenderDetailData;
+	const liveStatus = useRenderStatus(
+		isRenderFinished(status) ? undefined : render.id
+	);
+
+	return (
+		<div className="container mx-auto p-8">
+			<div className="flex items-center justify-between mb-8">
+				<h1 className="text-3xl font-bold truncate">{render.fileName}</h1>
+				<Link to="/history" className="text-indigo-600 hover:text-indigo-800">
+					Back to history
+				</Link>
+			</div>
+
+			<dl className="mb-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+				<div>
+					<dt className="text-gray-500">Photo of</dt>
+					<dd className="text-gray-900">{sceneModeLabels[render.mode]}</dd>
+				</div>
+				<div>
+					<dt className="text-gray-500">Method</dt>
+					<dd className="text-gray-900">{methodLabels[render.method]}</dd>
+				</div>
+				{render.createdAt && (
+					<div>
+						<dt className="text-gray-500">Created</dt>
+						<dd className="text-gray-900">
+							<Timestamp value={render.createdAt} />
+						</dd>
+					</div>
+				)}
+				{isRenderFinished(status) && render.timestamp && (
+					<div>
+						<dt className="text-gray-500">Finished</dt>
+						<dd className="text-gray-900">
+							<Timestamp value={render.timestamp} />
+						</dd>
+					</div>
+				)}
+			</dl>
+
+			<RenderResult
+				status={liveStatus ?? status}
+				originalUrl={originalUrl}
+				aspectRatio={aspectRatio}
+			/>
+		</div>
+	);
+}
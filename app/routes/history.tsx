@@ -0,0 +1,324 @@
+import { Form, Link, useLoaderData } from "react-router";
+import { Timestamp } from "../components/Timestamp";
+import { normalizeHex } from "../utils/color";
+import type { RenderFilter, RenderRecord } from "../utils/renders.server";
+import type { RenderPaint } from "../utils/paints";
+import { sceneModeLabels, type SceneMode } from "../utils/surfaces";
+
+// Define LoaderFunctionArgs type since it's not exported from @react-router/node
+type LoaderFunctionArgs = {
+	request: Request;
+	params: Record<string, string>;
+};
+
+// Helper function to create JSON responses
+const json = (data: any, status: number = 200) => {
+	return new Response(JSON.stringify(data), {
+		status,
+		headers: {
+			"Content-Type": "application/json",
+		},
+	});
+};
+
+/** Render as it is listed in the history */
+type HistoryRender = {
+	id: string;
+	status: RenderRecord["status"];
+	mode: SceneMode;
+	colorHex: string;
+	paint: RenderPaint | null;
+	fileName: string;
+	/** Small result, or the original while there is no result */
+	thumbnailUrl: string | null;
+	errorMessage: string | null;
+	createdAt: string | null;
+	timestamp: string | null;
+};
+
+type HistoryData = {
+	renders: HistoryRender[];
+	total: number;
+	page: number;
+	pageSize: number;
+	filter: RenderFilter;
+	/** Colors of all renders of the session, to filter by */
+	colors: { colorHex: string; paint: RenderPaint | null }[];
+};
+
+const PAGE_SIZE = 24;
+const THUMBNAIL_WIDTH = 320;
+
+const statusLabels: Record<RenderRecord["status"], string> = {
+	pending: "Pending",
+	completed: "Completed",
+	error: "Failed",
+};
+
+const statusClassNames: Record<RenderRecord["status"], string> = {
+	pending: "bg-blue-100 text-blue-800",
+	completed: "bg-green-100 text-green-800",
+	error: "bg-red-100 text-red-800",
+};
+
+const renderStatuses: RenderRecord["status"][] = [
+	"pending",
+	"completed",
+	"error",
+];
+
+function isRenderStatus(value: string): value is RenderRecord["status"] {
+	return (renderStatuses as string[]).includes(value);
+}
+
+function getColorLabel({
+	colorHex,
+	paint,
+}: {
+	colorHex: string;
+	paint: RenderPaint | null;
+}) {
+	return paint ? `${paint.brand} ${paint.code} ${paint.name}` : colorHex;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	// Import server utilities only in server-side code
+	const { getAssetUrl } = await import("../utils/assets.server");
+	const { listRenderColors, listRenders } = await import(
+		"../utils/renders.server"
+	);
+	const { getSessionId } = await import("../utils/session.server");
+
+	const params = new URL(request.url).searchParams;
+	const page = Math.max(1, Math.floor(Number(params.get("page"))) || 1);
+	// Unknown filter values show all renders
+	const filter: RenderFilter = {};
+	const status = params.get("status");
+	if (status && isRenderStatus(status)) filter.status = status;
+	const colorHex = normalizeHex(params.get("color") ?? "");
+	if (colorHex) filter.colorHex = colorHex;
+
+	const data: HistoryData = {
+		renders: [],
+		total: 0,
+		page,
+		pageSize: PAGE_SIZE,
+		filter,
+		colors: [],
+	};
+
+	// Browsers without a session have not made renders yet
+	const sessionId = await getSessionId(request);
+	if (!sessionId) {
+		return json(data);
+	}
+
+	try {
+		const { renders, total } = await listRenders(sessionId, filter, {
+			limit: PAGE_SIZE,
+			offset: (page - 1) * PAGE_SIZE,
+		});
+		data.total = total;
+		data.colors = await listRenderColors(sessionId);
+		data.renders = renders.map((render) => {
+			const thumbnailAssetId =
+				render.assetIds.result ?? render.assetIds.original;
+			return {
+				id: render.id,
+				status: render.status,
+				mode: render.mode,
+				colorHex: render.colorHex,
+				paint: render.paint,
+				fileName: render.fileName,
+				thumbnailUrl: thumbnailAssetId
+					? getAssetUrl(thumbnailAssetId, THUMBNAIL_WIDTH)
+					: null,
+				errorMessage: render.errorMessage,
+				createdAt: render.createdAt,
+				timestamp: render.timestamp,
+			};
+		});
+		return json(data);
+	} catch (error) {
+		console.error("Error listing renders:", error);
+		return json({ error: "Failed to load the history" }, 500);
+	}
+}
+
+export function meta() {
+	return [
+		{ title: "Render History" },
+		{
+			name: "description",
+			content: "Renders made in this browser",
+		},
+	];
+}
+
+export default function History() {
+	const data = useLoaderData() as HistoryData | { error: string };
+
+	if ("error" in data) {
+		return (
+			<div className="container mx-auto p-8">
+				<h1 className="text-3xl font-bold mb-8">Render History</h1>
+				<div className="p-4 bg-red-50 rounded-md">
+					<p className="text-red-700">{data.error}</p>
+				</div>
+			</div>
+		);
+	}
+
+	const { renders, total, page, pageSize, filter, colors } = data;
+	const pageCount = Math.max(1, Math.ceil(total / pageSize));
+	const getPageUrl = (targetPage: number) => {
+		const params = new URLSearchParams();
+		if (filter.status) params.set("status", filter.status);
+		if (filter.colorHex) params.set("color", filter.colorHex);
+		params.set("page", String(targetPage));
+		return `?${params}`;
+	};
+
+	return (
+		<div className="container mx-auto p-8">
+			<div className="flex items-center justify-between mb-8">
+				<h1 className="text-3xl font-bold">Render History</h1>
+				<Link to="/" className="text-indigo-600 hover:text-indigo-800">
+					New render
+				</Link>
+			</div>
+
+			<Form
+				method="get"
+				className="mb-6 flex flex-wrap items-end gap-4 text-sm text-gray-700"
+			>
+				<label className="flex flex-col gap-1">
+					Status
+					<select
+						name="status"
+						defaultValue={filter.status ?? ""}
+						className="rounded-md border border-gray-300 p-2"
+					>
+						<option value="">All</option>
+						{renderStatuses.map((status) => (
+							<option key={status} value={status}>
+								{statusLabels[status]}
+							</option>
+						))}
+					</select>
+				</label>
+				<label className="flex flex-col gap-1">
+					Color
+					<select
+						name="color"
+						defaultValue={filter.colorHex ?? ""}
+						className="rounded-md border border-gray-300 p-2"
+					>
+						<option value="">All colors</option>
+						{colors.map((color) => (
+							<option key={color.colorHex} value={color.colorHex}>
+								{getColorLabel(color)}
+							</option>
+						))}
+					</select>
+				</label>
+				<button
+					type="submit"
+					className="px-4 py-2 rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+				>
+					Filter
+				</button>
+			</Form>
+
+			{renders.length === 0 ? (
+				<p className="text-gray-600">
+					{filter.status || filter.colorHex
+						? "No renders match these filters."
+						: "Renders you make in this browser are listed here."}
+				</p>
+			) : (
+				<ul className="grid grid-cols-2 md:grid-cols-4 gap-4">
+					{renders.map((render) => (
+						<li key={render.id}>
+							<Link
+								to={`/history/${render.id}`}
+								className="flex h-full flex-col rounded-md border border-gray-300 bg-white p-2 hover:border-indigo-300"
+							>
+								<div className="relative mb-2 aspect-square overflow-hidden rounded bg-gray-100">
+									{render.thumbnailUrl && (
+										<img
+											src={render.thumbnailUrl}
+											alt={render.fileName}
+											loading="lazy"
+											className={`h-full w-full object-cover ${
+												render.status === "completed" ? "" : "opacity-50"
+											}`}
+										/>
+									)}
+									<span
+										className={`absolute left-2 top-2 rounded px-2 py-0.5 text-xs font-medium ${
+											statusClassNames[render.status]
+										}`}
+									>
+										{statusLabels[render.status]}
+									</span>
+								</div>
+								<div className="flex items-center gap-2">
+									<span
+										className="h-4 w-4 shrink-0 rounded-full border border-gray-300"
+										style={{ backgroundColor: render.colorHex }}
+									/>
+									<span className="truncate text-xs text-gray-700">
+										{getColorLabel(render)}
+									</span>
+								</div>
+								<p className="mt-1 truncate text-xs text-gray-500">
+									{sceneModeLabels[render.mode]} · {render.fileName}
+								</p>
+								{render.createdAt && (
+									<p className="text-xs text-gray-500">
+										Created <Timestamp value={render.createdAt} />
+									</p>
+								)}
+								{render.status !== "pending" && render.timestamp && (
+									<p className="text-xs text-gray-500">
+										Finished <Timestamp value={render.timestamp} />
+									</p>
+								)}
+								{render.errorMessage && (
+									<p className="mt-1 line-clamp-2 text-xs text-red-700">
+										{render.errorMessage}
+									</p>
+								)}
+							</Link>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{pageCount > 1 && (
+				<nav className="mt-6 flex items-center gap-4 text-sm">
+					{page > 1 && (
+						<Link
+							to={getPageUrl(page - 1)}
+							className="text-indigo-600 hover:text-indigo-800"
+						>
+							Previous
+						</Link>
+					)}
+					<span className="text-gray-600">
+						Page {page} of {pageCount}
+					</span>
+					{page < pageCount && (
+						<Link
+							to={getPageUrl(page + 1)}
+							className="text-indigo-600 hover:text-indigo-800"
+						>
+							Next
+						</Link>
+					)}
+				</nav>
+			)}
+		</div>
+	);
+}
@@ -1,10 +1,48 @@
-import { Form, useActionData, useNavigation } from "react-router";
-import { useEffect, useState } from "react";
+import {
+	Form,
+	Link,
+	useActionData,
+	useLoaderData,
+	useNavigation,
+} from "react-router";
+import { useState } from "react";
 import { v4 as uuidv4 } from "uuid";
-import { paintColors } from "../utils/prompts";
-import { convertFileToBase64, convertToPng } from "./api/helpers";
 import { PreviewThumbnail } from "../components/PreviewThumbnail";
-import ImageFlipper from "../components/ImageFlipper";
+import { PaintPicker } from "../components/PaintPicker";
+import { ClosestPaints } from "../components/ClosestPaints";
+import { CustomColorInput } from "../components/CustomColorInput";
+import { ColorComparisonList } from "../components/ColorComparisonList";
+import { SurfaceColorInput } from "../components/SurfaceColorInput";
+import { WallpaperInput } from "../components/WallpaperInput";
+import { MaskEditor } from "../components/MaskEditor";
+import { MaskCoverage } from "../components/MaskCoverage";
+import { WallSegmenter } from "../components/WallSegmenter";
+import { RenderResult } from "../components/RenderResult";
+import { VariantGallery } from "../components/VariantGallery";
+import { useBatchStatus } from "../hooks/useBatchStatus";
+import type { RenderMethod } from "../utils/render.server";
+import type { BatchColor } from "../utils/batches.server";
+import type { SurfaceInput } from "../utils/renders.server";
+import { isPaintFinish, type Paint, type PaintFinish } from "../utils/paints";
+import { toChoiceValue, type ColorChoice } from "../utils/color-choices";
+import {
+	defaultRoomTypes,
+	isSceneMode,
+	mainSurfaces,
+	roomTypes,
+	sceneFinishes,
+	sceneModeLabels,
+	sceneModes,
+	sceneSurfaces,
+	surfaceLabels,
+	type SceneMode,
+	type SurfaceType,
+} from "../utils/surfaces";
+import {
+	parseWallpaperPlacement,
+	type Point,
+	type WallpaperPlacement,
+} from "../utils/wallpaper";
 
 // Define ActionFunctionArgs type since it's not exported from @react-router/node
 type ActionFunctionArgs = {
@@ -13,20 +51,34 @@ type ActionFunctionArgs = {
 };
 
 // Helper function to create JSON responses
-const json = (data: any, status: number = 200) => {
+const json = (data: any, status: number = 200, headers: HeadersInit = {}) => {
 	return new Response(JSON.stringify(data), {
 		status,
 		headers: {
+			...headers,
 			"Content-Type": "application/json",
 		},
 	});
 };
 
+export async function loader() {
+	const { getMaxBatchColors } = await import("../utils/batches.server");
+	return json({ maxBatchColors: getMaxBatchColors() });
+}
+
 export async function action({ request }: ActionFunctionArgs) {
-	// Import SQLite utilities only in server-side code
-	const { storeImage } = await import("../utils/sqlite.server");
-	// Import the wallPrompt from prompts.ts
-	const { wallPrompt } = await import("../utils/prompts");
+	// Import server utilities only in server-side code
+	const { storeAsset } = await import("../utils/assets.server");
+	const { createBatch, getMaxBatchColors } = await import(
+		"../utils/batches.server"
+	);
+	const { normalizeImage } = await import("../utils/normalize.server");
+	const { parseMaskAdjustments, prepareMask } = await import(
+		"../utils/mask.server"
+	);
+	const { resolveColorChoice } = await import("../utils/paints.server");
+	const { getPatternColor } = await import("../utils/wallpaper.server");
+	const { startSession } = await import("../utils/session.server");
 
 	// Process the form data here to avoid double consumption
 	const formData = await request.formData();
@@ -37,88 +89,283 @@ export async function action({ request }: ActionFunctionArgs) {
 		console.log(`[${key}]`, value);
 	}
 
-	const colorHex = formData.get("colorHex") as string;
-	const file = formData.get("image") as File;
-	const maskFile = (formData.get("mask") as File) || null;
+	const sceneMode = formData.get("sceneMode") as string | null;
+	if (!sceneMode || !isSceneMode(sceneMode)) {
+		return json({ error: "Please choose interior or exterior." }, 400);
+	}
+	const mainSurface = mainSurfaces[sceneMode];
 
-	if (!file) {
+	// Only rooms are described in more detail
+	const roomTypeValue =
+		sceneMode === "interior"
+			? (formData.get("roomType") as string | null)
+			: null;
+	if (roomTypeValue && !roomTypes.includes(roomTypeValue)) {
+		return json({ error: "Please choose a valid room type." }, 400);
+	}
+	const roomType = roomTypeValue || defaultRoomTypes[sceneMode];
+
+	const colorMode = formData.get("colorMode");
+	// Wallpapers cover the walls instead of a color and are not compared
+	const isWallpaper = colorMode === "wallpaper";
+	if (isWallpaper && sceneMode !== "interior") {
+		return json({ error: "Wallpapers can only cover interior walls." }, 400);
+	}
+	const paintId = formData.get("paintId") as string | null;
+	const customColor = formData.get("customColor") as string | null;
+	// Without colors to compare, only the selected color is rendered
+	const variants = isWallpaper ? [] : (formData.getAll("variant") as string[]);
+	if (!isWallpaper && variants.length === 0) {
+		variants.push(
+			colorMode === "custom"
+				? `custom:${customColor ?? ""}`
+				: `paint:${paintId ?? ""}`
+		);
+	}
+	const renderMethod: RenderMethod =
+		formData.get("renderMethod") === "local" ? "local" : "ai";
+	const finishValue = isWallpaper
+		? null
+		: (formData.get("finish") as string | null);
+	const file = formData.get("image") as File | null;
+	// An empty file input is submitted as a file without content
+	const maskFile = formData.get("mask") as File | null;
+
+	if (!file || file.size === 0) {
 		return json({ error: "Image is required" }, 400);
 	}
 
-	// Validate file type - OpenAI requires PNG
-	const validTypes = ["image/png"];
-	if (!validTypes.includes(file.type)) {
+	// Without a finish, the default finish of the main surface is used
+	let finish: PaintFinish | null = null;
+	if (finishValue) {
+		if (!isPaintFinish(finishValue)) {
+			return json({ error: "Please choose a valid finish." }, 400);
+		}
+		if (!sceneFinishes[sceneMode].includes(finishValue)) {
+			return json(
+				{
+					error: `The ${finishValue} finish is not available for ${sceneMode} paint.`,
+				},
+				400
+			);
+		}
+		finish = finishValue;
+	}
+
+	const maxColors = getMaxBatchColors();
+	if (variants.length > maxColors) {
 		return json(
-			{
-				error: `Unsupported image format: ${file.type}. Please use PNG format.`,
-			},
+			{ error: `Please choose at most ${maxColors} colors to compare.` },
 			400
 		);
 	}
 
-	let hasValidMask = maskFile && validTypes.includes(maskFile.type);
-	// Validate mask file type if provided
-	if (!hasValidMask) {
-		console.log("unsupported mask: ", maskFile.type, "size: ", maskFile.size);
+	const colors: BatchColor[] = [];
+	const seenColors = new Set<string>();
+	for (const variant of variants) {
+		const color = await resolveColorChoice(variant);
+		if (!color.ok) {
+			return json({ error: color.error }, 400);
+		}
+		// Catalog paints only come in the finishes of their manufacturer
+		if (
+			color.paint &&
+			finish &&
+			color.finishes.length > 0 &&
+			!color.finishes.includes(finish)
+		) {
+			return json(
+				{
+					error: `${color.paint.brand} ${color.paint.name} is not available in ${finish}.`,
+				},
+				400
+			);
+		}
+
+		// The same color is rendered once
+		const key = color.paint ? color.paint.id : color.colorHex;
+		if (seenColors.has(key)) continue;
+		seenColors.add(key);
+
+		colors.push({ colorHex: color.colorHex, paint: color.paint });
 	}
 
-	// Replace {{color}} placeholder with the selected color hex value
-	const prompt = wallPrompt.replace("{{color}}", colorHex);
+	// Photos and masks are identified by their content and converted to PNG
+	const image = await normalizeImage(Buffer.from(await file.arrayBuffer()));
+	if (!image.ok) {
+		return json({ error: image.error }, 400);
+	}
 
-	try {
-		const imageId = uuidv4();
+	let wallpaper: { pattern: Buffer; placement: WallpaperPlacement } | null =
+		null;
+	if (isWallpaper) {
+		const placement = parseWallpaperPlacement({
+			corners: formData.get("wallpaperCorners") as string | null,
+			wallWidthCm: formData.get("wallWidthCm") as string | null,
+			wallHeightCm: formData.get("wallHeightCm") as string | null,
+			tileWidthCm: formData.get("tileWidthCm") as string | null,
+		});
+		if (!placement.ok) {
+			return json({ error: placement.error }, 400);
+		}
 
-		const imageBase64 = await convertFileToBase64(file);
-		// Store an empty image with a status of "pending"
-		await storeImage(imageId, imageBase64, { status: "pending" });
+		const patternFile = formData.get("wallpaperPattern") as File | null;
+		if (!patternFile || patternFile.size === 0) {
+			return json({ error: "Please upload a pattern tile." }, 400);
+		}
+		const pattern = await normalizeImage(
+			Buffer.from(await patternFile.arrayBuffer())
+		);
+		if (!pattern.ok) {
+			return json({ error: `Invalid pattern: ${pattern.error}` }, 400);
+		}
 
-		// Process the image and prompt directly with the extracted data
-		processAndStoreImage(imageId, prompt, file, hasValidMask ? maskFile : null);
+		// The average color of the pattern stands in for the color of the walls
+		colors.push({
+			colorHex: await getPatternColor(pattern.image),
+			paint: null,
+		});
+		wallpaper = { pattern: pattern.image, placement: placement.placement };
+	}
 
-		console.log("Image stored in SQLite with ID:", imageId);
-		return json({ response: { imageId, imageBase64 } });
-	} catch (error) {
-		console.log(error);
-		return json({ error: "Failed to process image and prompt" }, 500);
+	// Edge adjustments apply to every uploaded mask
+	const maskAdjustments = parseMaskAdjustments({
+		grow: formData.get("maskGrow") as string | null,
+		feather: formData.get("maskFeather") as string | null,
+	});
+	if (!maskAdjustments.ok) {
+		return json({ error: maskAdjustments.error }, 400);
 	}
-}
 
-const processAndStoreImage = async (
-	imageId: string,
-	prompt: string,
-	file: File,
-	maskFile: File | null
-) => {
-	const { storeImage } = await import("../utils/sqlite.server");
-	const { processImageAndPrompt } = await import("./api/chatgpt");
+	const readMask = async (maskFile: File | null) => {
+		if (!maskFile || maskFile.size === 0) return null;
+		return prepareMask(
+			Buffer.from(await maskFile.arrayBuffer()),
+			image.width,
+			image.height,
+			maskAdjustments.adjustments
+		);
+	};
 
-	console.log("Processing image and prompt, maskFile: ", maskFile);
-	const response = await processImageAndPrompt(prompt, file, maskFile);
+	// Share of the photo each uploaded mask paints, shown with the result
+	const maskCoverage: Partial<Record<SurfaceType, number>> = {};
 
-	if (!response) return;
+	const mask = await readMask(maskFile);
+	if (mask && !mask.ok) {
+		return json({ error: `Invalid mask: ${mask.error}` }, 400);
+	}
+	if (mask) maskCoverage[mainSurface] = mask.coverage;
 
-	// Check if there was an error from the API
-	if (response.error) {
-		// Update the status to error with the error message
-		await storeImage(imageId, "", {
-			fileName: file.name,
-			timestamp: new Date().toISOString(),
-			status: "error",
-			errorMessage: response.error,
+	// Other surfaces are only painted when they have a color
+	const surfaces: (BatchColor & {
+		surface: SurfaceType;
+		mask: Buffer | null;
+	})[] = [];
+	for (const surface of sceneSurfaces[sceneMode]) {
+		const value = formData.get(`surfaceColor.${surface}`) as string | null;
+		if (surface === mainSurface || !value) continue;
+
+		const color = await resolveColorChoice(value);
+		if (!color.ok) {
+			return json({ error: `${surfaceLabels[surface]}: ${color.error}` }, 400);
+		}
+
+		const surfaceMask = await readMask(
+			formData.get(`surfaceMask.${surface}`) as File | null
+		);
+		if (surfaceMask && !surfaceMask.ok) {
+			return json(
+				{
+					error: `Invalid mask for ${surfaceLabels[
+						surface
+					].toLowerCase()}: ${surfaceMask.error}`,
+				},
+				400
+			);
+		}
+		if (renderMethod === "local" && !surfaceMask) {
+			return json(
+				{
+					error: `Local recoloring requires a mask of the ${surfaceLabels[
+						surface
+					].toLowerCase()} to paint.`,
+				},
+				400
+			);
+		}
+
+		if (surfaceMask) maskCoverage[surface] = surfaceMask.coverage;
+
+		surfaces.push({
+			surface,
+			colorHex: color.colorHex,
+			paint: color.paint,
+			mask: surfaceMask && surfaceMask.mask,
 		});
-		return;
 	}
 
-	// Extract the base64 data from the data URL
-	const base64Data = response.image.split(";base64,").pop() as string;
+	if (renderMethod === "local" && !mask) {
+		return json(
+			{
+				error: `Local recoloring requires a mask of the ${surfaceLabels[
+					mainSurface
+				].toLowerCase()} to paint.`,
+			},
+			400
+		);
+	}
+
+	try {
+		const batchId = uuidv4();
+		// The renders are listed in the history of the browser's session
+		const session = await startSession(request);
 
-	// Store the image in SQLite with metadata
-	await storeImage(imageId, base64Data, {
-		fileName: file.name,
-		timestamp: new Date().toISOString(),
-		status: "completed",
-	});
-};
+		// The uploads are stored once and shared by every variant
+		const original = await storeAsset(batchId, "original", image.image);
+		const maskAsset = mask
+			? await storeAsset(batchId, "mask", mask.mask)
+			: null;
+		const surfaceInputs: SurfaceInput[] = [];
+		for (const surface of surfaces) {
+			surfaceInputs.push({
+				...surface,
+				finish: null,
+				mask: surface.mask && (await storeAsset(batchId, "mask", surface.mask)),
+				wallpaper: null,
+			});
+		}
+		const wallpaperInput = wallpaper && {
+			...wallpaper.placement,
+			pattern: await storeAsset(batchId, "pattern", wallpaper.pattern),
+		};
+
+		// Queue a render per color, the job worker processes them in the background
+		const variantIds = await createBatch(batchId, {
+			method: renderMethod,
+			mode: sceneMode,
+			roomType,
+			sessionId: session.sessionId,
+			fileName: file.name,
+			original,
+			mask: maskAsset,
+			colors,
+			finish,
+			wallpaper: wallpaperInput,
+			surfaces: surfaceInputs,
+		});
+
+		console.log(
+			`Batch ${batchId} queued with ${variantIds.length} render(s):`,
+			variantIds
+		);
+		return json({ response: { batchId, maskCoverage } }, 200, {
+			"Set-Cookie": session.setCookie,
+		});
+	} catch (error) {
+		console.log(error);
+		return json({ error: "Failed to process image and prompt" }, 500);
+	}
+}
 
 export function meta() {
 	return [
@@ -130,43 +377,18 @@ export function meta() {
 	];
 }
 
-// Color swatch component for paint color selection
-function ColorSwatch({
-	color,
-	selectedColor,
-	setSelectedColor,
-}: {
-	color: { name: string; hex: string };
-	selectedColor: { name: string; hex: string } | null;
-	setSelectedColor: (color: { name: string; hex: string }) => void;
-}) {
-	const isSelected = selectedColor?.hex === color.hex;
-	return (
-		<button
-			type="button"
-			className={`flex flex-col items-center p-2 rounded-md transition-all ${
-				isSelected ? "ring-2 ring-indigo-500 scale-105" : "hover:scale-105"
-			}`}
-			onClick={() => setSelectedColor(color)}
-		>
-			<div
-				className="w-full h-12 rounded-md mb-1 border border-gray-300"
-				style={{ backgroundColor: color.hex }}
-			/>
-			<span className="text-xs text-gray-700 truncate w-full text-center">
-				{color.name}
-			</span>
-		</button>
-	);
-}
+// Formats the server can normalize, HEIC photos are often sent without a type
+const uploadAccept =
+	"image/png,image/jpeg,image/webp,image/heic,image/heif,image/avif,.heic,.heif";
 
 export default function ImageUpload() {
 	// Define ActionData type for the return value of the action function
 	type ActionData =
 		| {
 				response: {
-					imageId: string;
-					imageBase64: string;
+					batchId: string;
+					/** Share of the photo each uploaded mask paints, from 0 to 1 */
+					maskCoverage: Partial<Record<SurfaceType, number>>;
 				};
 				error?: undefined;
 		  }
@@ -176,91 +398,89 @@ export default function ImageUpload() {
 		  }
 		| undefined;
 	const actionData = useActionData<typeof action>() as ActionData;
+	const { maxBatchColors } = useLoaderData() as { maxBatchColors: number };
 	const navigation = useNavigation();
 	const isSubmitting = navigation.state === "submitting";
 	const [previewImage, setPreviewImage] = useState<string | null>(null);
+	// Width / height of the uploaded photo, so results are shown uncropped
+	const [imageAspectRatio, setImageAspectRatio] = useState(1);
 	const [previewMaskImage, setPreviewMaskImage] = useState<string | null>(null);
 	const [selectedFile, setSelectedFile] = useState<File | null>(null);
 	const [selectedMaskFile, setSelectedMaskFile] = useState<File | null>(null);
-	const [processingStatus, setProcessingStatus] = useState<string | null>(null);
-	const [selectedColor, setSelectedColor] = useState(paintColors[0]);
-
-	// State for API error messages
-	const [apiError, setApiError] = useState<string | null>(null);
-
-	// Poll for image status updates
-	useEffect(() => {
-		let intervalId: number;
-		let isMounted = true;
-
-		const checkImageStatus = async () => {
-			if (!actionData?.response?.imageId) return;
-
-			try {
-				// Fetch the image status from the server
-				const response = await fetch(
-					`/api/image/${actionData.response.imageId}/status`
-				);
-				if (!response.ok) throw new Error("Failed to fetch image status");
-
-				const data = await response.json();
-
-				if (isMounted) {
-					setProcessingStatus(data.status);
-
-					// Handle error status
-					if (data.status === "error") {
-						setApiError(
-							data.errorMessage ||
-								"An error occurred while processing the image"
-						);
-						clearInterval(intervalId);
-					}
-					// If processing is complete, stop polling
-					else if (data.status === "completed") {
-						clearInterval(intervalId);
-					}
-				}
-			} catch (error) {
-				console.error("Error checking image status:", error);
-			}
-		};
-
-		if (actionData?.response?.imageId) {
-			// Reset error state when starting a new request
-			setApiError(null);
+	const [isEditingMask, setIsEditingMask] = useState(false);
+	const [isSelectingWalls, setIsSelectingWalls] = useState(false);
+	const [sceneMode, setSceneMode] = useState<SceneMode>("interior");
+	const [selectedPaint, setSelectedPaint] = useState<Paint | null>(null);
+	const [colorMode, setColorMode] = useState<
+		"catalog" | "custom" | "wallpaper"
+	>("catalog");
+	const [wallCorners, setWallCorners] = useState<Point[]>([]);
+	const [customColor, setCustomColor] = useState("#9CAF88");
+	const [renderMethod, setRenderMethod] = useState<RenderMethod>("ai");
+	const [surfaceColors, setSurfaceColors] = useState<
+		Partial<Record<SurfaceType, ColorChoice>>
+	>({});
+	const [comparedColors, setComparedColors] = useState<ColorChoice[]>([]);
+	const [finish, setFinish] = useState<PaintFinish>("matte");
+	const [selectedVariantId, setSelectedVariantId] = useState<string | null>(
+		null
+	);
 
-			// Initial check
-			checkImageStatus();
+	const currentChoice: ColorChoice | null =
+		colorMode === "custom"
+			? { kind: "custom", hex: customColor }
+			: colorMode === "catalog"
+			? selectedPaint && { kind: "paint", paint: selectedPaint }
+			: null;
+	const canCompareCurrent =
+		!!currentChoice &&
+		comparedColors.length < maxBatchColors &&
+		!comparedColors.some(
+			(choice) => toChoiceValue(choice) === toChoiceValue(currentChoice)
+		);
 
-			// Set up polling every 2 seconds
-			intervalId = window.setInterval(checkImageStatus, 2000);
-		}
+	// Catalog paints limit the finishes, custom colors come in any finish
+	const renderedChoices =
+		comparedColors.length > 0
+			? comparedColors
+			: currentChoice
+			? [currentChoice]
+			: [];
+	const mainSurface = mainSurfaces[sceneMode];
+	const availableFinishes = sceneFinishes[sceneMode].filter((option) =>
+		renderedChoices.every(
+			(choice) =>
+				choice.kind === "custom" ||
+				choice.paint.finishes.length === 0 ||
+				choice.paint.finishes.includes(option)
+		)
+	);
+	const selectedFinish = availableFinishes.includes(finish)
+		? finish
+		: availableFinishes[0] ?? null;
+	const canSubmit =
+		colorMode === "wallpaper"
+			? wallCorners.length === 4
+			: (comparedColors.length > 0 || !!currentChoice) && !!selectedFinish;
 
-		return () => {
-			isMounted = false;
-			if (intervalId) clearInterval(intervalId);
-		};
-	}, [actionData?.response?.imageId]);
+	// Follow the variants as they are rendered on the server
+	const batchStatus = useBatchStatus(actionData?.response?.batchId);
+	const selectedVariant =
+		batchStatus?.variants.find(({ id }) => id === selectedVariantId) ??
+		batchStatus?.variants[0] ??
+		null;
+	const generatedMaskUrl =
+		selectedVariant?.status.assets.generated_mask ?? null;
 
 	// Handle file input change
-	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+	const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		const file = e.target.files?.[0];
+		// Corners marked on another photo don't apply
+		setWallCorners([]);
 		if (file) {
-			try {
-				// Convert to PNG immediately
-				const pngFile = await convertToPng(file);
-
-				// Create a preview URL from the PNG file
-				const previewUrl = URL.createObjectURL(pngFile);
-				setPreviewImage(previewUrl);
-				setSelectedFile(pngFile);
-			} catch (error) {
-				console.error("Error converting image to PNG:", error);
-				// Fallback to original file if conversion fails
-				setPreviewImage(URL.createObjectURL(file));
-				setSelectedFile(file);
-			}
+			// The server converts the photo, so it is sent as it is
+			setPreviewImage(URL.createObjectURL(file));
+			setSelectedFile(file);
 		} else {
 			setPreviewImage(null);
 			setSelectedFile(null);
@@ -268,34 +488,55 @@ export default function ImageUpload() {
 	};
 
 	// Handle mask file input change
-	const handleMaskFileChange = async (
-		e: React.ChangeEvent<HTMLInputElement>
-	) => {
+	const handleMaskFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		const file = e.target.files?.[0];
 		if (file) {
-			try {
-				// Convert to PNG immediately
-				const pngFile = await convertToPng(file);
-
-				// Create a preview URL from the PNG file
-				const previewUrl = URL.createObjectURL(pngFile);
-				setPreviewMaskImage(previewUrl);
-				setSelectedMaskFile(pngFile);
-			} catch (error) {
-				console.error("Error converting mask to PNG:", error);
-				// Fallback to original file if conversion fails
-				setPreviewMaskImage(URL.createObjectURL(file));
-				setSelectedMaskFile(file);
-			}
+			setPreviewMaskImage(URL.createObjectURL(file));
+			setSelectedMaskFile(file);
 		} else {
 			setPreviewMaskImage(null);
 			setSelectedMaskFile(null);
 		}
 	};
 
+	// Load the generated mask as the mask to submit, so it can be corrected
+	const loadGeneratedMask = async () => {
+		if (!generatedMaskUrl) return false;
+
+		try {
+			const response = await fetch(generatedMaskUrl);
+			if (!response.ok) throw new Error("Failed to fetch generated mask");
+
+			const blob = await response.blob();
+			const maskFile = new File([blob], "generated-mask.png", {
+				type: "image/png",
+			});
+			setPreviewMaskImage(URL.createObjectURL(maskFile));
+			setSelectedMaskFile(maskFile);
+			return true;
+		} catch (error) {
+			console.error("Error loading generated mask:", error);
+			return false;
+		}
+	};
+
+	// Masks drawn in the editor or selected on the photo are submitted like
+	// uploaded masks
+	const handleMaskEdited = (maskFile: File) => {
+		setPreviewMaskImage(URL.createObjectURL(maskFile));
+		setSelectedMaskFile(maskFile);
+		setIsEditingMask(false);
+		setIsSelectingWalls(false);
+	};
+
 	return (
 		<div className="container mx-auto p-8">
-			<h1 className="text-3xl font-bold mb-8">Paint Visualizer</h1>
+			<div className="flex items-center justify-between mb-8">
+				<h1 className="text-3xl font-bold">Paint Visualizer</h1>
+				<Link to="/history" className="text-indigo-600 hover:text-indigo-800">
+					History
+				</Link>
+			</div>
 
 			<Form
 				method="post"
@@ -303,7 +544,7 @@ export default function ImageUpload() {
 				encType="multipart/form-data"
 				onSubmit={(e) => {
 					// Don't prevent default - let React Router handle the submission
-					// Just replace the file input value with our PNG file from state
+					// Just replace the file input values with the files from state
 					if (selectedFile) {
 						// Find the file input element
 						const fileInput = e.currentTarget.querySelector(
@@ -314,7 +555,7 @@ export default function ImageUpload() {
 						const dataTransfer = new DataTransfer();
 						dataTransfer.items.add(selectedFile);
 
-						// Set the file input's files to our PNG file
+						// Set the file input's files to the selected file
 						fileInput.files = dataTransfer.files;
 					}
 
@@ -329,7 +570,7 @@ export default function ImageUpload() {
 						const dataTransfer = new DataTransfer();
 						dataTransfer.items.add(selectedMaskFile);
 
-						// Set the file input's files to our PNG file
+						// Set the file input's files to the selected file
 						maskFileInput.files = dataTransfer.files;
 					}
 				}}
@@ -340,29 +581,262 @@ export default function ImageUpload() {
 						{actionData.error}
 					</div>
 				)}
-				<div>
-					<label
-						htmlFor="colorPicker"
-						className="block text-sm font-medium text-gray-700 mb-2"
-					>
-						Select Wall Paint Color
-					</label>
-					<div className="grid grid-cols-3 md:grid-cols-6 gap-3">
-						{paintColors.map((color) => (
-							<ColorSwatch
-								key={color.hex}
-								color={color}
-								selectedColor={selectedColor}
-								setSelectedColor={setSelectedColor}
-							/>
+				<fieldset>
+					<legend className="block text-sm font-medium text-gray-700 mb-2">
+						Photo Of
+					</legend>
+					<div className="flex gap-6">
+						{sceneModes.map((mode) => (
+							<label
+								key={mode}
+								className="flex items-center gap-2 text-sm text-gray-700"
+							>
+								<input
+									type="radio"
+									name="sceneMode"
+									value={mode}
+									checked={sceneMode === mode}
+									onChange={() => {
+										setSceneMode(mode);
+										// Wallpapers only cover interior walls
+										if (mode !== "interior" && colorMode === "wallpaper") {
+											setColorMode("catalog");
+										}
+									}}
+								/>
+								{sceneModeLabels[mode]}
+							</label>
 						))}
 					</div>
-					<input
-						type="hidden"
-						name="colorHex"
-						value={selectedColor?.hex || paintColors[0].hex}
-					/>
-				</div>
+					{sceneMode === "interior" && (
+						<label className="mt-3 block text-sm text-gray-700">
+							Room
+							<select
+								name="roomType"
+								defaultValue=""
+								className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+							>
+								<option value="">Not specified</option>
+								{roomTypes.map((roomType) => (
+									<option key={roomType} value={roomType}>
+										{roomType}
+									</option>
+								))}
+							</select>
+						</label>
+					)}
+					{sceneMode === "exterior" && (
+						<p className="mt-1 text-xs text-gray-500">
+							Brick, stone, render and wood keep their texture, choose masonry
+							paint for brick and render and stain for wood
+						</p>
+					)}
+				</fieldset>
+
+				<fieldset>
+					<legend className="block text-sm font-medium text-gray-700 mb-2">
+						{sceneMode === "interior"
+							? "Wall Color or Wallpaper"
+							: "Facade Color"}
+					</legend>
+					<div className="flex gap-6 mb-3">
+						<label className="flex items-center gap-2 text-sm text-gray-700">
+							<input
+								type="radio"
+								name="colorMode"
+								value="catalog"
+								checked={colorMode === "catalog"}
+								onChange={() => setColorMode("catalog")}
+							/>
+							Paint from the catalog
+						</label>
+						<label className="flex items-center gap-2 text-sm text-gray-700">
+							<input
+								type="radio"
+								name="colorMode"
+								value="custom"
+								checked={colorMode === "custom"}
+								onChange={() => setColorMode("custom")}
+							/>
+							Custom color
+						</label>
+						{sceneMode === "interior" && (
+							<label className="flex items-center gap-2 text-sm text-gray-700">
+								<input
+									type="radio"
+									name="colorMode"
+									value="wallpaper"
+									checked={colorMode === "wallpaper"}
+									onChange={() => setColorMode("wallpaper")}
+								/>
+								Wallpaper
+							</label>
+						)}
+					</div>
+
+					{colorMode === "wallpaper" ? (
+						<WallpaperInput
+							photo={selectedFile}
+							corners={wallCorners}
+							onCornersChange={setWallCorners}
+							accept={uploadAccept}
+						/>
+					) : colorMode === "catalog" ? (
+						<>
+							<PaintPicker
+								selectedPaint={selectedPaint}
+								onSelect={setSelectedPaint}
+							/>
+							{selectedPaint && (
+								<p className="mt-2 text-sm text-gray-700">
+									Selected: {selectedPaint.brand} {selectedPaint.code}{" "}
+									{selectedPaint.name} ({selectedPaint.hex})
+								</p>
+							)}
+							<input
+								type="hidden"
+								name="paintId"
+								value={selectedPaint?.id ?? ""}
+							/>
+						</>
+					) : (
+						<>
+							<CustomColorInput
+								value={customColor}
+								onChange={setCustomColor}
+							/>
+							<p className="mt-4 mb-2 text-sm text-gray-700">
+								Closest catalog paints, click one to use it instead:
+							</p>
+							<ClosestPaints
+								color={customColor}
+								selectedPaint={null}
+								onSelect={(paint) => {
+									setSelectedPaint(paint);
+									setColorMode("catalog");
+								}}
+							/>
+							<input
+								type="hidden"
+								name="customColor"
+								value={customColor}
+							/>
+						</>
+					)}
+
+					{colorMode !== "wallpaper" && (
+						<>
+							<div className="mt-4 space-y-2">
+								<button
+									type="button"
+									className="px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 disabled:opacity-50"
+									disabled={!canCompareCurrent}
+									onClick={() => {
+										if (currentChoice) {
+											setComparedColors([...comparedColors, currentChoice]);
+										}
+									}}
+								>
+									Add color to comparison
+								</button>
+								<ColorComparisonList
+									choices={comparedColors}
+									maxChoices={maxBatchColors}
+									onRemove={(index) =>
+										setComparedColors(
+											comparedColors.filter((_, i) => i !== index)
+										)
+									}
+								/>
+							</div>
+
+							<div className="mt-4">
+								<label
+									htmlFor="finish"
+									className="block text-sm font-medium text-gray-700"
+								>
+									Finish
+								</label>
+								{selectedFinish ? (
+									<select
+										id="finish"
+										name="finish"
+										value={selectedFinish}
+										onChange={(e) => setFinish(e.target.value as PaintFinish)}
+										className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+									>
+										{availableFinishes.map((option) => (
+											<option key={option} value={option}>
+												{option}
+											</option>
+										))}
+									</select>
+								) : (
+									<p className="mt-1 text-sm text-red-700">
+										The chosen paints are not available in a common finish.
+									</p>
+								)}
+							</div>
+						</>
+					)}
+				</fieldset>
+
+				<fieldset>
+					<legend className="block text-sm font-medium text-gray-700 mb-2">
+						Other Surfaces
+					</legend>
+					<p className="text-xs text-gray-500 mb-2">
+						Painted the same in every compared color, on top of the{" "}
+						{surfaceLabels[mainSurface].toLowerCase()}
+					</p>
+					<div className="space-y-2">
+						{sceneSurfaces[sceneMode]
+							.filter((surface) => surface !== mainSurface)
+							.map((surface) => (
+								<SurfaceColorInput
+									key={surface}
+									surface={surface}
+									value={surfaceColors[surface] ?? null}
+									onChange={(value) =>
+										setSurfaceColors({
+											...surfaceColors,
+											[surface]: value ?? undefined,
+										})
+									}
+									accept={uploadAccept}
+									isMaskRequired={renderMethod === "local"}
+								/>
+							))}
+					</div>
+				</fieldset>
+
+				<fieldset>
+					<legend className="block text-sm font-medium text-gray-700 mb-2">
+						Render Method
+					</legend>
+					<div className="flex flex-col gap-2 sm:flex-row sm:gap-6">
+						<label className="flex items-center gap-2 text-sm text-gray-700">
+							<input
+								type="radio"
+								name="renderMethod"
+								value="ai"
+								checked={renderMethod === "ai"}
+								onChange={() => setRenderMethod("ai")}
+							/>
+							AI render
+						</label>
+						<label className="flex items-center gap-2 text-sm text-gray-700">
+							<input
+								type="radio"
+								name="renderMethod"
+								value="local"
+								checked={renderMethod === "local"}
+								onChange={() => setRenderMethod("local")}
+							/>
+							Instant local recolor (requires a mask)
+						</label>
+					</div>
+				</fieldset>
 
 				<div>
 					<label
@@ -375,7 +849,7 @@ export default function ImageUpload() {
 						type="file"
 						id="image"
 						name="image"
-						accept="image/*"
+						accept={uploadAccept}
 						className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
 						required
 						onChange={handleFileChange}
@@ -387,27 +861,98 @@ export default function ImageUpload() {
 						htmlFor="mask"
 						className="block text-sm font-medium text-gray-700"
 					>
-						Upload Mask (Optional)
+						Upload {sceneMode === "interior" ? "Wall" : "Facade"} Mask{" "}
+						{renderMethod === "local" ? "(Required)" : "(Optional)"}
 					</label>
 					<p className="text-xs text-gray-500 mb-1">
 						A black and white image where white areas indicate regions to be
-						modified
+						modified, a transparent one where transparent areas do. You can also
+						draw one on the photo, or click the walls to select them without AI
 					</p>
 					<input
 						type="file"
 						id="mask"
 						name="mask"
-						accept="image/*"
+						accept={uploadAccept}
 						className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+						required={renderMethod === "local" && !selectedMaskFile}
 						onChange={handleMaskFileChange}
 					/>
+					<div className="mt-2 flex gap-2">
+						<button
+							type="button"
+							className="px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 disabled:opacity-50"
+							disabled={!selectedFile || isEditingMask}
+							onClick={() => {
+								setIsSelectingWalls(false);
+								setIsEditingMask(true);
+							}}
+						>
+							{selectedMaskFile ? "Edit mask" : "Draw mask"}
+						</button>
+						<button
+							type="button"
+							className="px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 disabled:opacity-50"
+							disabled={!selectedFile || isSelectingWalls}
+							onClick={() => {
+								setIsEditingMask(false);
+								setIsSelectingWalls(true);
+							}}
+						>
+							Select walls
+						</button>
+					</div>
+					{isSelectingWalls && selectedFile && (
+						<WallSegmenter
+							photo={selectedFile}
+							onSave={handleMaskEdited}
+							onCancel={() => setIsSelectingWalls(false)}
+						/>
+					)}
+					{isEditingMask && selectedFile && (
+						<MaskEditor
+							photo={selectedFile}
+							initialMask={selectedMaskFile}
+							onSave={handleMaskEdited}
+							onCancel={() => setIsEditingMask(false)}
+						/>
+					)}
+					<div className="mt-2 flex flex-wrap gap-4">
+						<label className="block text-sm text-gray-700">
+							Grow edges (px)
+							<input
+								type="number"
+								name="maskGrow"
+								min="-50"
+								max="50"
+								step="1"
+								defaultValue="0"
+								title="Negative values shrink the masked areas"
+								className="mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2 text-sm"
+							/>
+						</label>
+						<label className="block text-sm text-gray-700">
+							Feather edges (px)
+							<input
+								type="number"
+								name="maskFeather"
+								min="0"
+								max="50"
+								step="1"
+								defaultValue="0"
+								className="mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2 text-sm"
+							/>
+						</label>
+					</div>
 					<div className="flex gap-4">
 						{previewImage && (
 							<PreviewThumbnail
 								src={previewImage}
 								alt="Preview"
 								title="uploaded image:"
-								onLoad={() => {
+								onLoad={(event) => {
+									const { naturalWidth, naturalHeight } = event.currentTarget;
+									setImageAspectRatio(naturalWidth / naturalHeight);
 									// Free memory when the image is loaded
 									URL.revokeObjectURL(previewImage);
 								}}
@@ -425,9 +970,39 @@ export default function ImageUpload() {
 								}}
 							/>
 						)}
-						{actionData?.response?.imageBase64 && (
+						{generatedMaskUrl && (
+							<div>
+								<PreviewThumbnail
+									src={generatedMaskUrl}
+									alt="Generated Mask"
+									title="generated mask:"
+									showCheckerboard={true}
+								/>
+								<div className="mt-1 flex gap-2">
+									<button
+										type="button"
+										className="text-xs text-indigo-700 hover:underline"
+										onClick={loadGeneratedMask}
+									>
+										Use as mask
+									</button>
+									{selectedFile && (
+										<button
+											type="button"
+											className="text-xs text-indigo-700 hover:underline"
+											onClick={async () => {
+												if (await loadGeneratedMask()) setIsEditingMask(true);
+											}}
+										>
+											Edit
+										</button>
+									)}
+								</div>
+							</div>
+						)}
+						{batchStatus && (
 							<PreviewThumbnail
-								src={`data:image/png;base64,${actionData.response.imageBase64}`}
+								src={batchStatus.originalUrl}
 								alt="Sent"
 								title="processed:"
 							/>
@@ -438,9 +1013,9 @@ export default function ImageUpload() {
 				<div className="mt-6">
 					<button
 						type="submit"
-						disabled={isSubmitting}
+						disabled={isSubmitting || !canSubmit}
 						className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-							isSubmitting
+							isSubmitting || !canSubmit
 								? "bg-indigo-400 cursor-not-allowed"
 								: "bg-indigo-600 hover:bg-indigo-700"
 						} focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500`}
@@ -479,58 +1054,31 @@ export default function ImageUpload() {
 			{actionData?.response && (
 				<div className="mt-8 p-6 bg-gray-50 rounded-lg shadow">
 					<h2 className="text-xl font-semibold mb-4">Result Image:</h2>
-					<div className="mt-4 flex flex-col md:flex-row gap-6">
-						{/* Display the returned image or loading indicator */}
-						<div className="w-full">
-							<div className="relative border aspect-square border-gray-300 rounded-md overflow-hidden">
-								{processingStatus === "completed" ? (
-									<>
-										<ImageFlipper
-											image1={`data:image/png;base64,${actionData.response.imageBase64}`}
-											image2={`/api/image/${actionData.response.imageId}`}
-											alt1="Original Image"
-											alt2="Processed Image"
-											className="w-full h-full"
-										/>
-									</>
-								) : processingStatus === "error" ? (
-									<>
-										<div className="flex items-center justify-center h-64 bg-red-50">
-											<div className="text-center p-4">
-												<svg
-													className="mx-auto h-12 w-12 text-red-500"
-													fill="none"
-													viewBox="0 0 24 24"
-													stroke="currentColor"
-												>
-													<path
-														strokeLinecap="round"
-														strokeLinejoin="round"
-														strokeWidth={2}
-														d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-													/>
-												</svg>
-												<h3 className="mt-2 text-sm font-medium text-red-800">
-													Processing Error
-												</h3>
-												<p className="mt-1 text-sm text-red-700">
-													{apiError ||
-														"An error occurred while processing your image"}
-												</p>
-											</div>
-										</div>
-									</>
-								) : (
-									<>
-										<div className="flex items-center flex-col justify-center h-full bg-gray-100 gap-8">
-											<div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500 mb-2"></div>
-											<p className="text-gray-600">Processing image...</p>
-										</div>
-									</>
-								)}
-							</div>
+					<MaskCoverage coverage={actionData.response.maskCoverage} />
+					{batchStatus && batchStatus.variants.length > 1 && (
+						<VariantGallery
+							variants={batchStatus.variants}
+							selectedId={selectedVariant?.id ?? null}
+							onSelect={(variant) => setSelectedVariantId(variant.id)}
+						/>
+					)}
+					{batchStatus && (
+						<div className="mt-4 w-full">
+							<RenderResult
+								status={selectedVariant?.status ?? null}
+								originalUrl={batchStatus.originalUrl}
+								aspectRatio={imageAspectRatio}
+							/>
 						</div>
-					</div>
+					)}
+					{selectedVariant && (
+						<Link
+							to={`/history/${selectedVariant.id}`}
+							className="mt-3 inline-block text-sm text-indigo-600 hover:text-indigo-800"
+						>
+							Open this render on its own page
+						</Link>
+					)}
 				</div>
 			)}
 
@@ -0,0 +1,26 @@
+/**
+ * Access control of admin endpoints for server-side operations
+ * Admin requests send `Authorization: Bearer <ADMIN_TOKEN>`, admin endpoints
+ * are disabled while ADMIN_TOKEN is not set
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { createHash, timingSafeEqual } from "node:crypto";
+
+// Hashing gives both values the same length for the constant time comparison
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Whether a request is authorized with the admin token
+ */
+export function isAdminRequest(request: Request): boolean {
+	const adminToken = process.env.ADMIN_TOKEN;
+	const authorization = request.headers.get("Authorization");
+	if (!adminToken || !authorization?.startsWith("Bearer ")) {
+		return false;
+	}
+
+	return timingSafeEqual(
+		digest(authorization.slice("Bearer ".length)),
+		digest(adminToken)
+	);
+}
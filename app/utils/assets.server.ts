@@ -0,0 +1,115 @@
+/**
+ * Image assets of renders for server-side operations
+ * Every asset is stored once under its own id and never changes afterwards
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import { v4 as uuidv4 } from "uuid";
+import { getImageStore } from "./image-store.server";
+
+export type AssetType =
+	| "original"
+	| "mask"
+	| "generated_mask"
+	| "pattern"
+	| "result";
+
+export const assetTypes: AssetType[] = [
+	"original",
+	"mask",
+	"generated_mask",
+	"pattern",
+	"result",
+];
+
+export type AssetInfo = {
+	id: string;
+	renderId: string;
+	type: AssetType;
+	contentType: string;
+	width: number;
+	height: number;
+};
+
+export type Asset = AssetInfo & { data: Buffer };
+
+const contentTypes: Record<string, string> = {
+	png: "image/png",
+	jpeg: "image/jpeg",
+	webp: "image/webp",
+	gif: "image/gif",
+	heif: "image/heic",
+	avif: "image/avif",
+	tiff: "image/tiff",
+};
+
+// Widths an asset can be scaled down to when it is served
+export const MIN_ASSET_WIDTH = 16;
+export const MAX_ASSET_WIDTH = 2048;
+
+/**
+ * Get the URL an asset is served from
+ * @param width - Width to scale the asset down to, e.g. for thumbnails
+ */
+export function getAssetUrl(assetId: string, width?: number) {
+	return width
+		? `/api/asset/${assetId}?width=${width}`
+		: `/api/asset/${assetId}`;
+}
+
+/**
+ * Store an image as a new asset of a render
+ * The content type and dimensions are read from the image itself
+ */
+export async function storeAsset(
+	renderId: string,
+	type: AssetType,
+	data: Buffer
+): Promise<AssetInfo> {
+	const { format, width, height } = await sharp(data).metadata();
+
+	const asset: AssetInfo = {
+		id: uuidv4(),
+		renderId,
+		type,
+		contentType: (format && contentTypes[format]) || "application/octet-stream",
+		width: width ?? 0,
+		height: height ?? 0,
+	};
+
+	const imageStore = await getImageStore();
+	await imageStore.storeImage(asset.id, data, {
+		kind: "asset",
+		renderId,
+		assetType: type,
+		fileType: asset.contentType,
+		width: asset.width,
+		height: asset.height,
+		timestamp: new Date().toISOString(),
+	});
+
+	return asset;
+}
+
+/**
+ * Retrieve an asset with its image data
+ * @returns The asset, or null if not found
+ */
+export async function getAsset(assetId: string): Promise<Asset | null> {
+	const imageStore = await getImageStore();
+	const stored = await imageStore.getImage(assetId);
+
+	if (!stored?.data || stored.kind !== "asset") {
+		return null;
+	}
+
+	return {
+		id: assetId,
+		renderId: stored.renderId,
+		type: stored.assetType,
+		contentType: stored.fileType,
+		width: stored.width,
+		height: stored.height,
+		data: stored.data,
+	};
+}
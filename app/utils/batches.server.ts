@@ -0,0 +1,199 @@
+/**
+ * Batches of renders for server-side operations
+ * A batch renders the same original and masks with several colors for the
+ * main surface, with one variant render and job per color. Other surfaces are
+ * painted the same in every variant.
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { v4 as uuidv4 } from "uuid";
+import { getImageStore } from "./image-store.server";
+import { getAssetUrl, type AssetInfo } from "./assets.server";
+import {
+	createRender,
+	getRender,
+	getRenderStatus,
+	isFinalStatus,
+	toAssetFields,
+	toRenderJobPayload,
+	type RenderStatus,
+	type SurfaceInput,
+} from "./renders.server";
+import { enqueueRenderJob } from "./jobs.server";
+import type { RenderMethod } from "./render.server";
+import type { PaintFinish, RenderPaint } from "./paints";
+import { mainSurfaces, type SceneMode } from "./surfaces";
+
+export type BatchColor = {
+	colorHex: string;
+	/** Catalog paint of the color, null for custom colors */
+	paint: RenderPaint | null;
+};
+
+export type BatchVariantStatus = {
+	id: string;
+	colorHex: string;
+	paint: RenderPaint | null;
+	status: RenderStatus;
+};
+
+export type BatchStatus = {
+	id: string;
+	mode: SceneMode;
+	originalUrl: string;
+	variants: BatchVariantStatus[];
+};
+
+const DEFAULT_MAX_BATCH_COLORS = 6;
+
+/**
+ * Get the most colors a batch may have, BATCH_MAX_COLORS or 6
+ */
+export function getMaxBatchColors(): number {
+	const configured = Math.floor(Number(process.env.BATCH_MAX_COLORS));
+	return configured > 0 ? configured : DEFAULT_MAX_BATCH_COLORS;
+}
+
+/**
+ * Create a batch with a variant render per color and queue their jobs
+ * All variants share the original and mask assets of the batch
+ * @param mode - Whether the photo shows a room or a building from outside
+ * @param roomType - Kind of room or building in the photo, for the prompts
+ * @param sessionId - Session whose history lists the variants
+ * @param mask - Uploaded mask of the main surface
+ * @param colors - Colors of the main surface, one per variant
+ * @param finish - Finish of the main surface
+ * @param wallpaper - Wallpaper that covers the main walls instead of paint
+ * @param surfaces - Other surfaces, painted in every variant
+ * @returns The ids of the variant renders, in the order of the colors
+ */
+export async function createBatch(
+	batchId: string,
+	{
+		method,
+		mode,
+		roomType,
+		sessionId,
+		fileName,
+		original,
+		mask,
+		colors,
+		finish,
+		wallpaper,
+		surfaces,
+	}: {
+		method: RenderMethod;
+		mode: SceneMode;
+		roomType: string;
+		sessionId: string | null;
+		fileName: string;
+		original: AssetInfo;
+		mask: AssetInfo | null;
+		colors: BatchColor[];
+		finish: PaintFinish | null;
+		wallpaper: SurfaceInput["wallpaper"];
+		surfaces: SurfaceInput[];
+	}
+): Promise<string[]> {
+	const variantIds: string[] = [];
+	const payloads = [];
+	for (const color of colors) {
+		const renderId = uuidv4();
+		const renderSurfaces = await createRender(renderId, {
+			method,
+			mode,
+			roomType,
+			fileName,
+			batchId,
+			sessionId,
+			original,
+			surfaces: [
+				{ surface: mainSurfaces[mode], ...color, finish, mask, wallpaper },
+				...surfaces,
+			],
+		});
+		variantIds.push(renderId);
+		payloads.push(toRenderJobPayload(method, original.id, renderSurfaces));
+	}
+
+	const assets = [original];
+	if (mask) assets.push(mask);
+	if (wallpaper) assets.push(wallpaper.pattern);
+
+	const imageStore = await getImageStore();
+	await imageStore.storeImage(batchId, null, {
+		kind: "batch",
+		method,
+		mode,
+		sessionId: sessionId ?? undefined,
+		fileName,
+		variantIds,
+		timestamp: new Date().toISOString(),
+		...toAssetFields(assets),
+	});
+
+	// Queue the variants once the batch exists, so its status is complete
+	for (let i = 0; i < variantIds.length; i++) {
+		await enqueueRenderJob(variantIds[i], payloads[i]);
+	}
+
+	return variantIds;
+}
+
+/**
+ * Get the ids of the variant renders of a batch
+ * @returns The ids, or null if the batch was not found
+ */
+export async function getBatchVariantIds(
+	batchId: string
+): Promise<string[] | null> {
+	const imageStore = await getImageStore();
+	const stored = await imageStore.getImage(batchId);
+
+	if (!stored || stored.kind !== "batch") {
+		return null;
+	}
+	return stored.variantIds;
+}
+
+/**
+ * Get the status of every variant of a batch
+ * @returns The status, or null if the batch was not found
+ */
+export async function getBatchStatus(
+	batchId: string
+): Promise<BatchStatus | null> {
+	const imageStore = await getImageStore();
+	const stored = await imageStore.getImage(batchId);
+
+	if (!stored || stored.kind !== "batch") {
+		return null;
+	}
+
+	const variants: BatchVariantStatus[] = [];
+	for (const variantId of stored.variantIds as string[]) {
+		const render = await getRender(variantId);
+		const status = await getRenderStatus(variantId);
+		if (!render || !status) continue;
+
+		variants.push({
+			id: variantId,
+			colorHex: render.colorHex,
+			paint: render.paint,
+			status,
+		});
+	}
+
+	return {
+		id: batchId,
+		mode: stored.mode ?? "interior",
+		originalUrl: getAssetUrl(stored.originalAssetId),
+		variants,
+	};
+}
+
+/**
+ * Whether all variants of a batch have stopped changing
+ */
+export function isFinalBatchStatus(status: BatchStatus) {
+	return status.variants.every((variant) => isFinalStatus(variant.status));
+}
@@ -0,0 +1,53 @@
+/**
+ * Colors a user picked to render, submitted as `variant` form fields
+ * Catalog paints are sent as `paint:<id>`, custom colors as `custom:<color>`
+ */
+import type { Paint } from "./paints";
+
+export type ColorChoice =
+	| { kind: "paint"; paint: Paint }
+	| { kind: "custom"; hex: string };
+
+export type ColorChoiceValue =
+	| { kind: "paint"; paintId: string }
+	| { kind: "custom"; color: string };
+
+/**
+ * Get the form value of a color choice
+ */
+export function toChoiceValue(choice: ColorChoice): string {
+	return choice.kind === "paint"
+		? `paint:${choice.paint.id}`
+		: `custom:${choice.hex.toUpperCase()}`;
+}
+
+/**
+ * Parse the form value of a color choice
+ * @returns The choice, or null if the value is not a color choice
+ */
+export function parseChoiceValue(value: string): ColorChoiceValue | null {
+	const separator = value.indexOf(":");
+	const kind = value.slice(0, separator);
+	const rest = value.slice(separator + 1).trim();
+	if (separator === -1 || !rest) return null;
+
+	if (kind === "paint") return { kind, paintId: rest };
+	if (kind === "custom") return { kind, color: rest };
+	return null;
+}
+
+/**
+ * Get the color of a choice as #RRGGBB
+ */
+export function getChoiceHex(choice: ColorChoice): string {
+	return choice.kind === "paint" ? choice.paint.hex : choice.hex;
+}
+
+/**
+ * Get a short label of a choice for lists
+ */
+export function getChoiceLabel(choice: ColorChoice): string {
+	return choice.kind === "paint"
+		? `${choice.paint.brand} ${choice.paint.code} ${choice.paint.name}`
+		: `Custom ${choice.hex.toUpperCase()}`;
+}
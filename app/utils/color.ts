@@ -0,0 +1,269 @@
+/**
+ * Color conversion utilities (sRGB, CIE XYZ and CIELAB with a D65 white point)
+ * and the CIEDE2000 color difference
+ */
+
+export type RGB = { r: number; g: number; b: number };
+export type LAB = { l: number; a: number; b: number };
+
+const WHITE_X = 0.95047;
+const WHITE_Y = 1.0;
+const WHITE_Z = 1.08883;
+
+/**
+ * Parse a #RRGGBB hex string
+ * @returns The RGB channels (0-255), or null if the string is not a valid hex color
+ */
+export function hexToRgb(hex: string): RGB | null {
+	const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+	if (!match) return null;
+
+	return {
+		r: parseInt(match[1], 16),
+		g: parseInt(match[2], 16),
+		b: parseInt(match[3], 16),
+	};
+}
+
+/**
+ * Format RGB channels (0-255) as an uppercase #RRGGBB hex string
+ */
+export function rgbToHex({ r, g, b }: RGB): string {
+	const toHex = (value: number) =>
+		Math.round(Math.min(255, Math.max(0, value)))
+			.toString(16)
+			.padStart(2, "0");
+	return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+}
+
+/**
+ * Bring a hex color into the uppercase #RRGGBB form colors are stored in
+ * @returns The normalized color, or null if the string is not a valid hex color
+ */
+export function normalizeHex(hex: string): string | null {
+	const rgb = hexToRgb(hex);
+	return rgb ? rgbToHex(rgb) : null;
+}
+
+function srgbToLinear(channel: number): number {
+	const c = channel / 255;
+	return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(channel: number): number {
+	const c =
+		channel <= 0.0031308
+			? channel * 12.92
+			: 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+	return Math.min(255, Math.max(0, c * 255));
+}
+
+function labF(t: number): number {
+	return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+	return t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+}
+
+/**
+ * Convert sRGB channels (0-255) to CIELAB
+ */
+export function rgbToLab({ r, g, b }: RGB): LAB {
+	const lr = srgbToLinear(r);
+	const lg = srgbToLinear(g);
+	const lb = srgbToLinear(b);
+
+	const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / WHITE_X;
+	const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175) / WHITE_Y;
+	const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / WHITE_Z;
+
+	const fx = labF(x);
+	const fy = labF(y);
+	const fz = labF(z);
+
+	return {
+		l: 116 * fy - 16,
+		a: 500 * (fx - fy),
+		b: 200 * (fy - fz),
+	};
+}
+
+/**
+ * Convert CIELAB to sRGB channels (0-255, not rounded, clamped to gamut)
+ */
+export function labToRgb({ l, a, b }: LAB): RGB {
+	const fy = (l + 16) / 116;
+	const fx = fy + a / 500;
+	const fz = fy - b / 200;
+
+	const x = labFInverse(fx) * WHITE_X;
+	const y = labFInverse(fy) * WHITE_Y;
+	const z = labFInverse(fz) * WHITE_Z;
+
+	return {
+		r: linearToSrgb(x * 3.2404542 - y * 1.5371385 - z * 0.4985314),
+		g: linearToSrgb(-x * 0.969266 + y * 1.8760108 + z * 0.041556),
+		b: linearToSrgb(x * 0.0556434 - y * 0.2040259 + z * 1.0572252),
+	};
+}
+
+/**
+ * Parse a #RRGGBB hex string into CIELAB
+ * @returns The color, or null if the string is not a valid hex color
+ */
+export function hexToLab(hex: string): LAB | null {
+	const rgb = hexToRgb(hex);
+	return rgb ? rgbToLab(rgb) : null;
+}
+
+function toRadians(degrees: number) {
+	return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number) {
+	return (radians * 180) / Math.PI;
+}
+
+/**
+ * Hue angle in degrees (0-360) of the a and b coordinates
+ */
+function hueAngle(b: number, a: number) {
+	if (a === 0 && b === 0) return 0;
+	const angle = toDegrees(Math.atan2(b, a));
+	return angle < 0 ? angle + 360 : angle;
+}
+
+/**
+ * CIEDE2000 color difference between two CIELAB colors
+ * Follows Sharma, Wu and Dalal (2005) with the reference weights kL = kC = kH = 1.
+ * A difference below 1 is not perceptible, below 2 only on close inspection.
+ */
+export function deltaE2000(first: LAB, second: LAB): number {
+	const c1 = Math.hypot(first.a, first.b);
+	const c2 = Math.hypot(second.a, second.b);
+	const meanC = (c1 + c2) / 2;
+	const meanC7 = Math.pow(meanC, 7);
+	const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+	const a1 = (1 + g) * first.a;
+	const a2 = (1 + g) * second.a;
+	const cp1 = Math.hypot(a1, first.b);
+	const cp2 = Math.hypot(a2, second.b);
+	const hp1 = hueAngle(first.b, a1);
+	const hp2 = hueAngle(second.b, a2);
+
+	const deltaL = second.l - first.l;
+	const deltaC = cp2 - cp1;
+	let deltaHue = 0;
+	if (cp1 * cp2 !== 0) {
+		deltaHue = hp2 - hp1;
+		if (deltaHue > 180) deltaHue -= 360;
+		else if (deltaHue < -180) deltaHue += 360;
+	}
+	const deltaH = 2 * Math.sqrt(cp1 * cp2) * Math.sin(toRadians(deltaHue / 2));
+
+	const meanL = (first.l + second.l) / 2;
+	const meanCp = (cp1 + cp2) / 2;
+	let meanHp = hp1 + hp2;
+	if (cp1 * cp2 !== 0) {
+		if (Math.abs(hp1 - hp2) <= 180) meanHp /= 2;
+		else if (hp1 + hp2 < 360) meanHp = (hp1 + hp2 + 360) / 2;
+		else meanHp = (hp1 + hp2 - 360) / 2;
+	}
+
+	const t =
+		1 -
+		0.17 * Math.cos(toRadians(meanHp - 30)) +
+		0.24 * Math.cos(toRadians(2 * meanHp)) +
+		0.32 * Math.cos(toRadians(3 * meanHp + 6)) -
+		0.2 * Math.cos(toRadians(4 * meanHp - 63));
+	const deltaTheta = 30 * Math.exp(-Math.pow((meanHp - 275) / 25, 2));
+	const meanCp7 = Math.pow(meanCp, 7);
+	const rc = 2 * Math.sqrt(meanCp7 / (meanCp7 + Math.pow(25, 7)));
+	const meanL50 = Math.pow(meanL - 50, 2);
+	const sl = 1 + (0.015 * meanL50) / Math.sqrt(20 + meanL50);
+	const sc = 1 + 0.045 * meanCp;
+	const sh = 1 + 0.015 * meanCp * t;
+	const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+	return Math.sqrt(
+		Math.pow(deltaL / sl, 2) +
+			Math.pow(deltaC / sc, 2) +
+			Math.pow(deltaH / sh, 2) +
+			rt * (deltaC / sc) * (deltaH / sh)
+	);
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness 0-100) to sRGB channels (0-255)
+ */
+export function hslToRgb(h: number, s: number, l: number): RGB {
+	const hue = ((h % 360) + 360) % 360;
+	const saturation = Math.min(100, Math.max(0, s)) / 100;
+	const lightness = Math.min(100, Math.max(0, l)) / 100;
+
+	const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+	const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+	const m = lightness - chroma / 2;
+
+	let rgb: [number, number, number];
+	if (hue < 60) rgb = [chroma, x, 0];
+	else if (hue < 120) rgb = [x, chroma, 0];
+	else if (hue < 180) rgb = [0, chroma, x];
+	else if (hue < 240) rgb = [0, x, chroma];
+	else if (hue < 300) rgb = [x, 0, chroma];
+	else rgb = [chroma, 0, x];
+
+	return {
+		r: Math.round((rgb[0] + m) * 255),
+		g: Math.round((rgb[1] + m) * 255),
+		b: Math.round((rgb[2] + m) * 255),
+	};
+}
+
+const numberPattern = "([+-]?\\d+(?:\\.\\d+)?)";
+const rgbPattern = new RegExp(
+	`^rgb\\(\\s*${numberPattern}\\s*[,\\s]\\s*${numberPattern}\\s*[,\\s]\\s*${numberPattern}\\s*\\)$`,
+	"i"
+);
+const hslPattern = new RegExp(
+	`^hsl\\(\\s*${numberPattern}(?:deg)?\\s*[,\\s]\\s*${numberPattern}%\\s*[,\\s]\\s*${numberPattern}%\\s*\\)$`,
+	"i"
+);
+
+/**
+ * Parse a color typed by a user
+ * Accepts hex (#RGB or #RRGGBB, with or without #), rgb(r, g, b) with
+ * channels 0-255 and hsl(h, s%, l%), separated by commas or spaces
+ * @returns The RGB channels, or null if the value is not a valid color
+ */
+export function parseColor(input: string): RGB | null {
+	const value = input.trim();
+
+	const shortHex = /^#?([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+	if (shortHex) {
+		return hexToRgb(
+			`#${shortHex[1]}${shortHex[1]}${shortHex[2]}${shortHex[2]}${shortHex[3]}${shortHex[3]}`
+		);
+	}
+
+	const hex = hexToRgb(value);
+	if (hex) return hex;
+
+	const rgb = rgbPattern.exec(value);
+	if (rgb) {
+		const [r, g, b] = rgb.slice(1, 4).map(Number);
+		if ([r, g, b].some((channel) => channel < 0 || channel > 255)) return null;
+		return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+	}
+
+	const hsl = hslPattern.exec(value);
+	if (hsl) {
+		const [h, s, l] = hsl.slice(1, 4).map(Number);
+		if (s < 0 || s > 100 || l < 0 || l > 100) return null;
+		return hslToRgb(h, s, l);
+	}
+
+	return null;
+}
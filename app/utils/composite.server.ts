@@ -0,0 +1,81 @@
+/**
+ * Compositing of provider results into the image they were generated from
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+
+const DEFAULT_FEATHER_PX = 3;
+
+/**
+ * Get how far composited edges fade into the masked area in pixels,
+ * COMPOSITE_FEATHER_PX or 3
+ * @returns null when COMPOSITE_RESULTS is "false", results are then used
+ * as the provider generated them
+ */
+export function getCompositeFeather(): number | null {
+	if (process.env.COMPOSITE_RESULTS === "false") return null;
+
+	const configured = Number(process.env.COMPOSITE_FEATHER_PX);
+	return process.env.COMPOSITE_FEATHER_PX && configured >= 0
+		? configured
+		: DEFAULT_FEATHER_PX;
+}
+
+/**
+ * Take the masked areas of a generated image and keep the rest of the original
+ * The edge fades inwards, so every pixel outside the mask is exactly the
+ * original pixel.
+ * @param original - Image the provider edited
+ * @param generated - Provider result at the resolution of the original
+ * @param mask - Black and white mask at the resolution of the original
+ * @param featherPx - Width of the faded edge
+ * @returns PNG encoded image
+ */
+export async function compositeMasked(
+	original: Buffer,
+	generated: Buffer,
+	mask: Buffer,
+	featherPx: number
+): Promise<Buffer> {
+	const { data: base, info } = await sharp(original)
+		.ensureAlpha()
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+	const { width, height } = info;
+
+	const overlay = await sharp(generated)
+		.resize(width, height, { fit: "fill" })
+		.ensureAlpha()
+		.raw()
+		.toBuffer();
+	const hardMask = await sharp(mask)
+		.resize(width, height, { fit: "fill" })
+		.flatten({ background: "#000000" })
+		.greyscale()
+		.raw()
+		.toBuffer();
+	// Blurring alone would spread the edge outwards, the minimum keeps it inside
+	const softMask =
+		featherPx > 0
+			? await sharp(hardMask, { raw: { width, height, channels: 1 } })
+					.blur(Math.max(0.3, featherPx / 2))
+					.toColourspace("b-w")
+					.raw()
+					.toBuffer()
+			: hardMask;
+
+	const output = Buffer.from(base);
+	for (let i = 0; i < width * height; i++) {
+		const weight = Math.min(hardMask[i], softMask[i]);
+		if (weight === 0) continue;
+		for (let c = i * 4; c < i * 4 + 4; c++) {
+			output[c] = Math.round(
+				(base[c] * (255 - weight) + overlay[c] * weight) / 255
+			);
+		}
+	}
+
+	return sharp(output, { raw: { width, height, channels: 4 } })
+		.png()
+		.toBuffer();
+}
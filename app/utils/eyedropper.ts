@@ -0,0 +1,51 @@
+/**
+ * Color sampling for the eyedropper on inspiration photos
+ */
+import type { RGB } from "./color";
+
+/**
+ * Average the pixels around a point, so noise and texture don't decide the color
+ * @param image - RGBA pixels, e.g. from CanvasRenderingContext2D.getImageData
+ * @param radius - Pixels around the point to include, 0 for a single pixel
+ */
+export function sampleAverageColor(
+	image: { data: Uint8ClampedArray; width: number; height: number },
+	x: number,
+	y: number,
+	radius: number
+): RGB {
+	const centerX = Math.min(image.width - 1, Math.max(0, Math.round(x)));
+	const centerY = Math.min(image.height - 1, Math.max(0, Math.round(y)));
+
+	let r = 0;
+	let g = 0;
+	let b = 0;
+	let count = 0;
+	for (
+		let py = Math.max(0, centerY - radius);
+		py <= Math.min(image.height - 1, centerY + radius);
+		py++
+	) {
+		for (
+			let px = Math.max(0, centerX - radius);
+			px <= Math.min(image.width - 1, centerX + radius);
+			px++
+		) {
+			const offset = (py * image.width + px) * 4;
+			// Skip transparent pixels, their color is meaningless
+			if (image.data[offset + 3] === 0) continue;
+
+			r += image.data[offset];
+			g += image.data[offset + 1];
+			b += image.data[offset + 2];
+			count++;
+		}
+	}
+
+	if (count === 0) return { r: 0, g: 0, b: 0 };
+	return {
+		r: Math.round(r / count),
+		g: Math.round(g / count),
+		b: Math.round(b / count),
+	};
+}
@@ -0,0 +1,138 @@
+/**
+ * Fits photos into the image sizes the providers support without cropping
+ * Images are scaled to the closest landscape, portrait or square size and
+ * padded, and provider output is mapped back onto the original framing.
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import type { ImageSize } from "./image-provider.server";
+
+export type ProviderSize = Exclude<ImageSize, "auto">;
+
+/** Placement of the original image on the padded provider canvas */
+export type Frame = {
+	size: ProviderSize;
+	/** Resolution of the original image */
+	width: number;
+	height: number;
+	/** Area of the canvas covered by the scaled original */
+	left: number;
+	top: number;
+	contentWidth: number;
+	contentHeight: number;
+};
+
+const providerSizes: ProviderSize[] = ["1024x1024", "1536x1024", "1024x1536"];
+
+/**
+ * Get the width and height of a provider size
+ */
+export function getCanvasSize(size: ProviderSize) {
+	const [width, height] = size.split("x").map(Number);
+	return { width, height };
+}
+
+/**
+ * Pick the supported size with the aspect ratio closest to the image
+ * Ratios are compared on a log scale, so 2:1 and 1:2 are equally far from 1:1
+ */
+export function getClosestSize(width: number, height: number): ProviderSize {
+	const ratio = Math.log(width / height);
+
+	let closest = providerSizes[0];
+	let closestDistance = Infinity;
+	for (const size of providerSizes) {
+		const canvas = getCanvasSize(size);
+		const distance = Math.abs(ratio - Math.log(canvas.width / canvas.height));
+		if (distance < closestDistance) {
+			closest = size;
+			closestDistance = distance;
+		}
+	}
+	return closest;
+}
+
+/**
+ * Calculate where an image of the given resolution lands on the closest size
+ */
+export function getFrame(width: number, height: number): Frame {
+	const size = getClosestSize(width, height);
+	const canvas = getCanvasSize(size);
+	const scale = Math.min(canvas.width / width, canvas.height / height);
+	const contentWidth = Math.min(
+		canvas.width,
+		Math.max(1, Math.round(width * scale))
+	);
+	const contentHeight = Math.min(
+		canvas.height,
+		Math.max(1, Math.round(height * scale))
+	);
+
+	return {
+		size,
+		width,
+		height,
+		left: Math.floor((canvas.width - contentWidth) / 2),
+		top: Math.floor((canvas.height - contentHeight) / 2),
+		contentWidth,
+		contentHeight,
+	};
+}
+
+/**
+ * Scale an image into its frame and pad the remaining canvas
+ * @param image - The photo, or a black and white mask of the photo
+ * @param padding - "mirror" extends the photo edges, "black" letterboxes,
+ * which leaves the padding unpainted when used for masks
+ * @returns PNG encoded image at the size of the frame
+ */
+export async function fitToFrame(
+	image: Buffer,
+	frame: Frame,
+	padding: "mirror" | "black"
+): Promise<Buffer> {
+	const canvas = getCanvasSize(frame.size);
+
+	return sharp(image)
+		.resize(frame.contentWidth, frame.contentHeight, { fit: "fill" })
+		.extend({
+			left: frame.left,
+			top: frame.top,
+			right: canvas.width - frame.contentWidth - frame.left,
+			bottom: canvas.height - frame.contentHeight - frame.top,
+			...(padding === "mirror"
+				? { extendWith: "mirror" as const }
+				: { background: "#000000" }),
+		})
+		.png()
+		.toBuffer();
+}
+
+/**
+ * Map provider output back onto the framing and resolution of the original
+ * Removes the padding and scales the content back to the original size
+ * @returns PNG encoded image at the resolution of the original
+ */
+export async function restoreFraming(
+	image: Buffer,
+	frame: Frame
+): Promise<Buffer> {
+	const canvas = getCanvasSize(frame.size);
+
+	// Providers may return another resolution than requested
+	const onCanvas = await sharp(image)
+		.resize(canvas.width, canvas.height, { fit: "fill" })
+		.png()
+		.toBuffer();
+
+	return sharp(onCanvas)
+		.extract({
+			left: frame.left,
+			top: frame.top,
+			width: frame.contentWidth,
+			height: frame.contentHeight,
+		})
+		.resize(frame.width, frame.height, { fit: "fill" })
+		.png()
+		.toBuffer();
+}
@@ -0,0 +1,27 @@
+/**
+ * In-process notifications for image store updates
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { EventEmitter } from "events";
+
+const emitter = new EventEmitter();
+// Every open status stream adds a listener
+emitter.setMaxListeners(0);
+
+/**
+ * Notify subscribers that an image was stored
+ */
+export function publishImageUpdate(imageId: string) {
+	emitter.emit(imageId);
+}
+
+/**
+ * Call the listener whenever the image is stored in this process
+ * @returns A function that removes the listener
+ */
+export function subscribeToImage(imageId: string, listener: () => void) {
+	emitter.on(imageId, listener);
+	return () => {
+		emitter.off(imageId, listener);
+	};
+}
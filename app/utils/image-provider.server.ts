@@ -0,0 +1,91 @@
+/**
+ * Image generation provider interface for server-side operations
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+
+export type ImageSize = "1024x1024" | "1536x1024" | "1024x1536" | "auto";
+export type ImageQuality = "low" | "medium" | "high" | "auto";
+
+export type ImageEditRequest = {
+	/** PNG encoded input image */
+	image: Buffer;
+	/** Optional PNG encoded alpha mask, fully transparent areas are edited */
+	mask?: Buffer | null;
+	prompt: string;
+	size?: ImageSize;
+	quality?: ImageQuality;
+};
+
+export type ImageProviderErrorCode =
+	| "missing_api_key"
+	| "invalid_request"
+	| "rate_limited"
+	| "network_error"
+	| "no_image"
+	| "provider_error";
+
+export type ImageProviderError = {
+	code: ImageProviderErrorCode;
+	message: string;
+	/** Whether the same request may succeed when tried again later */
+	retryable: boolean;
+};
+
+export type ImageEditResult =
+	| { ok: true; image: Buffer; contentType: "image/png" }
+	| { ok: false; error: ImageProviderError };
+
+export interface ImageProvider {
+	name: ImageProviderName;
+	editImage(request: ImageEditRequest): Promise<ImageEditResult>;
+}
+
+export type ImageProviderName = "openai" | "mock" | "local";
+
+const providerNames: ImageProviderName[] = ["openai", "mock", "local"];
+
+/**
+ * Create a failed ImageEditResult
+ */
+export function providerError(
+	code: ImageProviderErrorCode,
+	message: string,
+	retryable = false
+): ImageEditResult {
+	return { ok: false, error: { code, message, retryable } };
+}
+
+/**
+ * Resolve the configured provider name
+ * Uses IMAGE_PROVIDER when set, otherwise OpenAI when an API key is available
+ * and the offline local provider when it is not
+ */
+export function getImageProviderName(): ImageProviderName {
+	const configured = process.env.IMAGE_PROVIDER;
+	if (configured) {
+		if (!providerNames.includes(configured as ImageProviderName)) {
+			throw new Error(
+				`Unknown IMAGE_PROVIDER "${configured}", expected one of: ${providerNames.join(", ")}`
+			);
+		}
+		return configured as ImageProviderName;
+	}
+
+	return process.env.OPENAI_API_KEY ? "openai" : "local";
+}
+
+/**
+ * Get the image provider selected by configuration
+ */
+export async function getImageProvider(
+	name: ImageProviderName = getImageProviderName()
+): Promise<ImageProvider> {
+	switch (name) {
+		case "openai":
+			return (await import("../routes/api/chatgpt")).openAIProvider;
+		case "mock":
+			return (await import("../routes/api/mockapi")).mockProvider;
+		case "local":
+			return (await import("../routes/api/localapi")).localProvider;
+	}
+}
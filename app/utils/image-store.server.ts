@@ -0,0 +1,228 @@
+/**
+ * Image store interface for server-side operations
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { publishImageUpdate } from "./image-events.server";
+
+/**
+ * Stored image with its metadata fields
+ * `data` holds the image bytes, or null when no image was stored yet
+ */
+export type StoredImage = { data: Buffer | null } & Record<string, any>;
+
+/**
+ * Query of stored images by their metadata fields
+ */
+export type ImageQuery = {
+	/** Fields the images must have, images without a field don't match */
+	where: Record<string, string | number | boolean>;
+	/**
+	 * Field the images are sorted by, descending and compared as text, so ISO
+	 * timestamps are newest first. Images without the field come last.
+	 * Defaults to `timestamp`.
+	 */
+	orderBy?: string;
+	/** Most images to return, all when not set */
+	limit?: number;
+	/** Number of matching images to skip */
+	offset?: number;
+};
+
+/** Image found by a query, with its metadata fields but without its data */
+export type ListedImage = { id: string } & Record<string, any>;
+
+export type ImageList = {
+	images: ListedImage[];
+	/** Number of matching images, including the ones outside the page */
+	total: number;
+};
+
+/**
+ * Key-value store for images and their metadata
+ *
+ * All backends share the same semantics:
+ * - storing merges the given metadata into the existing fields, fields that
+ *   are not passed (or are undefined) keep their value
+ * - storing null or an empty string as image data keeps the existing data
+ * - metadata values are JSON serialized, so they read back with their type
+ * - an image expires `expirySeconds` after it was last stored
+ */
+export interface ImageStore {
+	/**
+	 * Store an image and/or its metadata
+	 * @param imageId - Unique identifier for the image
+	 * @param imageData - Image data as base64 string or Buffer
+	 * @param metadata - Optional metadata about the image
+	 * @returns The key the image is stored under
+	 */
+	storeImage(
+		imageId: string,
+		imageData: string | Buffer | null,
+		metadata?: Record<string, any>
+	): Promise<string>;
+
+	/**
+	 * Retrieve an image with all its metadata
+	 * @returns The image, or null if not found or expired
+	 */
+	getImage(imageId: string): Promise<StoredImage | null>;
+
+	/**
+	 * Get a specific field from an image (e.g., "data", "status", "fileType")
+	 * @returns The value of the field, or null if not found
+	 */
+	getImageField(imageId: string, field: string): Promise<any>;
+
+	/**
+	 * Delete an image and its metadata
+	 * @returns The number of deleted images
+	 */
+	deleteImage(imageId: string): Promise<number>;
+
+	/**
+	 * Find images by their metadata fields
+	 * @returns A page of the matching images, in the order of the query
+	 */
+	listImages(query: ImageQuery): Promise<ImageList>;
+}
+
+export type ImageStoreOptions = {
+	/** Seconds after the last store before an image expires */
+	expirySeconds?: number;
+};
+
+export type ImageStoreName = "sqlite" | "redis" | "memory";
+
+const storeNames: ImageStoreName[] = ["sqlite", "redis", "memory"];
+
+const DEFAULT_EXPIRY_SECONDS = 60 * 60 * 24 * 7;
+
+// Shared promise, so concurrent callers get the same store
+let imageStore: Promise<ImageStore> | null = null;
+
+/**
+ * Get the configured image expiry, IMAGE_EXPIRY_SECONDS or 7 days
+ */
+export function getExpirySeconds(): number {
+	const configured = Number(process.env.IMAGE_EXPIRY_SECONDS);
+	return configured > 0 ? configured : DEFAULT_EXPIRY_SECONDS;
+}
+
+/**
+ * Convert image data to the bytes that are stored
+ * @returns The image bytes, or null when the existing data should be kept
+ */
+export function toStoredData(imageData: string | Buffer | null): Buffer | null {
+	const data = Buffer.isBuffer(imageData)
+		? imageData
+		: Buffer.from(imageData ?? "", "base64");
+	return data.length > 0 ? data : null;
+}
+
+/**
+ * Parse a stored metadata value, falling back to the raw string
+ */
+export function parseStoredValue(value: string) {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Whether the fields of an image have all values of a query
+ */
+export function matchesImageQuery(
+	fields: Record<string, any>,
+	{ where }: ImageQuery
+): boolean {
+	return Object.entries(where).every(([key, value]) => fields[key] === value);
+}
+
+/**
+ * Sort and page images for stores that filter them in memory
+ */
+export function toImageList(
+	images: ListedImage[],
+	{ orderBy = "timestamp", limit, offset = 0 }: ImageQuery
+): ImageList {
+	const getSortValue = (image: ListedImage) =>
+		image[orderBy] === undefined || image[orderBy] === null
+			? null
+			: String(image[orderBy]);
+	const sorted = images.slice().sort((first, second) => {
+		const firstValue = getSortValue(first);
+		const secondValue = getSortValue(second);
+		if (firstValue === secondValue) return 0;
+		if (firstValue === null) return 1;
+		if (secondValue === null) return -1;
+		return firstValue < secondValue ? 1 : -1;
+	});
+
+	return {
+		images: sorted.slice(
+			offset,
+			limit === undefined ? undefined : offset + limit
+		),
+		total: images.length,
+	};
+}
+
+/**
+ * Create an image store for the given backend
+ */
+export async function createImageStore(
+	name: ImageStoreName,
+	options: ImageStoreOptions = {}
+): Promise<ImageStore> {
+	const resolvedOptions = {
+		expirySeconds: options.expirySeconds ?? getExpirySeconds(),
+	};
+	switch (name) {
+		case "sqlite":
+			return (await import("./sqlite.server")).createSqliteImageStore(
+				resolvedOptions
+			);
+		case "redis":
+			return (await import("./redis.server")).createRedisImageStore(
+				resolvedOptions
+			);
+		case "memory":
+			return (await import("./memory.server")).createMemoryImageStore(
+				resolvedOptions
+			);
+	}
+}
+
+/**
+ * Get the image store selected with IMAGE_STORE (sqlite, redis or memory)
+ * Defaults to sqlite. Updates are published to subscribers of image events.
+ */
+export function getImageStore(): Promise<ImageStore> {
+	if (!imageStore) {
+		imageStore = createConfiguredImageStore();
+	}
+
+	return imageStore;
+}
+
+async function createConfiguredImageStore(): Promise<ImageStore> {
+	const name = process.env.IMAGE_STORE || "sqlite";
+	if (!storeNames.includes(name as ImageStoreName)) {
+		throw new Error(
+			`Unknown IMAGE_STORE "${name}", expected one of: ${storeNames.join(", ")}`
+		);
+	}
+
+	const store = await createImageStore(name as ImageStoreName);
+	return {
+		...store,
+		// Let open status streams know about the update
+		async storeImage(imageId, imageData, metadata) {
+			const key = await store.storeImage(imageId, imageData, metadata);
+			publishImageUpdate(imageId);
+			return key;
+		},
+	};
+}
@@ -0,0 +1,46 @@
+/**
+ * Import paint catalog files into the database
+ * Paints with a brand and code that is already in the catalog are updated.
+ * Nothing is imported when a file contains invalid paints.
+ * Run with: npm run import-paints -- catalog.csv [more.json ...]
+ */
+import { readFile } from "fs/promises";
+import * as path from "path";
+import { parsePaintFile } from "./paint-import.server";
+import { importPaints } from "./paints.server";
+import type { PaintInput } from "./paints";
+
+async function importPaintFiles(files: string[]) {
+	if (files.length === 0) {
+		console.log("Usage: npm run import-paints -- <file.csv|file.json> ...");
+		process.exitCode = 1;
+		return;
+	}
+
+	const paints: PaintInput[] = [];
+	let errorCount = 0;
+	for (const file of files) {
+		const { paints: filePaints, errors } = parsePaintFile(
+			file,
+			await readFile(file, "utf8")
+		);
+		console.log(`${path.basename(file)}: ${filePaints.length} paints`);
+		for (const error of errors) {
+			console.log(`  ❌ ${error}`);
+		}
+		errorCount += errors.length;
+		paints.push(...filePaints);
+	}
+
+	if (errorCount > 0) {
+		console.log(`${errorCount} invalid paints, nothing was imported`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const { added, updated } = await importPaints(paints);
+	console.log(`Imported ${added} new and ${updated} updated paints`);
+}
+
+// Run the import
+importPaintFiles(process.argv.slice(2));
@@ -0,0 +1,391 @@
+/**
+ * Durable render job queue for server-side operations
+ * Jobs are persisted in the SQLite database and processed by an in-process worker
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase } from "./sqlite.server";
+import { getImageStore } from "./image-store.server";
+import { providerError } from "./image-provider.server";
+import { getAsset } from "./assets.server";
+import type { RenderWallpaper } from "./renders.server";
+import {
+	runRenderStages,
+	setRenderStage,
+	storeRenderOutcome,
+	type RenderOutcome,
+	type RenderRequest,
+	type SurfaceRequest,
+} from "./render.server";
+
+export type JobStatus = "queued" | "running" | "completed" | "error";
+
+export type Job = {
+	id: string;
+	imageId: string;
+	status: JobStatus;
+	attempts: number;
+	maxAttempts: number;
+	runAfter: string;
+	lockedAt: string | null;
+	lastError: string | null;
+	createdAt: string;
+	updatedAt: string;
+};
+
+type JobRecord = Job & { payload: string | null };
+
+// Render request as stored in the payload column, referencing the uploaded assets
+export type RenderJobPayload = Omit<RenderRequest, "image" | "surfaces"> & {
+	originalAssetId: string;
+	surfaces: (Omit<SurfaceRequest, "mask" | "wallpaper"> & {
+		maskAssetId: string | null;
+		/** Wallpaper that covers the surface, null when it is painted */
+		wallpaper: RenderWallpaper | null;
+	})[];
+};
+
+const POLL_INTERVAL_MS = 1000;
+const BASE_RETRY_DELAY_MS = 5000;
+
+let workerStarted: Promise<void> | null = null;
+let isTicking = false;
+let activeJobs = 0;
+
+/**
+ * Read the job settings from the environment
+ * JOB_MAX_ATTEMPTS (3), JOB_TIMEOUT_SECONDS (600) and JOB_CONCURRENCY (2)
+ */
+function getJobConfig() {
+	return {
+		maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS) || 3,
+		timeoutSeconds: Number(process.env.JOB_TIMEOUT_SECONDS) || 600,
+		concurrency: Number(process.env.JOB_CONCURRENCY) || 2,
+	};
+}
+
+/**
+ * Exponential backoff: 5s after the first attempt, 10s after the second, ...
+ */
+export function getRetryDelayMs(attempts: number) {
+	return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+async function markImageFailed(imageId: string, errorMessage: string) {
+	const imageStore = await getImageStore();
+	await imageStore.storeImage(imageId, null, {
+		timestamp: new Date().toISOString(),
+		status: "error",
+		errorMessage,
+		errorCode: "job_failed",
+	});
+}
+
+/**
+ * Persist a render job and wake up the worker
+ * @returns The id of the job
+ */
+export async function enqueueRenderJob(
+	renderId: string,
+	payload: RenderJobPayload
+): Promise<string> {
+	const db = await getDatabase();
+	const jobId = uuidv4();
+
+	db.prepare(
+		"INSERT INTO jobs (id, imageId, payload, maxAttempts, runAfter) VALUES (?, ?, ?, ?, ?)"
+	).run(
+		jobId,
+		renderId,
+		JSON.stringify(payload),
+		getJobConfig().maxAttempts,
+		new Date().toISOString()
+	);
+
+	await startJobWorker();
+	void tick();
+
+	return jobId;
+}
+
+/**
+ * List jobs, most recently updated first
+ * @param status - Only list jobs with this status
+ */
+export async function listJobs(status?: JobStatus, limit = 50): Promise<Job[]> {
+	const db = await getDatabase();
+	const columns =
+		"id, imageId, status, attempts, maxAttempts, runAfter, lockedAt, lastError, createdAt, updatedAt";
+
+	if (status) {
+		return db
+			.prepare(
+				`SELECT ${columns} FROM jobs WHERE status = ? ORDER BY updatedAt DESC LIMIT ?`
+			)
+			.all(status, limit) as Job[];
+	}
+	return db
+		.prepare(`SELECT ${columns} FROM jobs ORDER BY updatedAt DESC LIMIT ?`)
+		.all(limit) as Job[];
+}
+
+/**
+ * Claim the next queued job that is due, recording the attempt
+ */
+export async function claimNextJob(): Promise<JobRecord | null> {
+	const db = await getDatabase();
+	const now = new Date().toISOString();
+
+	const job = db
+		.prepare(
+			`UPDATE jobs SET status = 'running', attempts = attempts + 1, lockedAt = ?, updatedAt = CURRENT_TIMESTAMP
+			WHERE id = (
+				SELECT id FROM jobs WHERE status = 'queued' AND runAfter <= ? ORDER BY runAfter LIMIT 1
+			)
+			RETURNING *`
+		)
+		.get(now, now) as JobRecord | undefined;
+
+	return job ?? null;
+}
+
+/**
+ * Move a running job to its next status
+ * Finished jobs drop their payload, since it is no longer needed
+ * @returns false when the job is no longer running, e.g. because it timed out
+ */
+export async function updateRunningJob(
+	job: JobRecord,
+	status: "queued" | "completed" | "error",
+	lastError: string | null,
+	runAfter: string | null = null
+) {
+	const db = await getDatabase();
+	const result = db
+		.prepare(
+			`UPDATE jobs SET status = ?, lastError = ?, runAfter = COALESCE(?, runAfter), lockedAt = NULL,
+			payload = CASE WHEN ? = 'queued' THEN payload ELSE NULL END, updatedAt = CURRENT_TIMESTAMP
+			WHERE id = ? AND status = 'running' AND attempts = ?`
+		)
+		.run(status, lastError, runAfter, status, job.id, job.attempts);
+
+	return result.changes > 0;
+}
+
+/**
+ * Load the uploaded assets a render job refers to
+ * @returns The render request, or null when an asset no longer exists
+ */
+async function loadRenderRequest(
+	payload: RenderJobPayload
+): Promise<RenderRequest | null> {
+	const original = await getAsset(payload.originalAssetId);
+	if (!original) {
+		return null;
+	}
+
+	const surfaceRequests: SurfaceRequest[] = [];
+	for (const { maskAssetId, wallpaper, ...surface } of payload.surfaces) {
+		const mask = maskAssetId ? await getAsset(maskAssetId) : null;
+		if (maskAssetId && !mask) {
+			return null;
+		}
+
+		let wallpaperRequest: SurfaceRequest["wallpaper"] = null;
+		if (wallpaper) {
+			const { patternAssetId, ...placement } = wallpaper;
+			const pattern = await getAsset(patternAssetId);
+			if (!pattern) {
+				return null;
+			}
+			wallpaperRequest = { ...placement, pattern: pattern.data };
+		}
+
+		surfaceRequests.push({
+			...surface,
+			mask: mask?.data ?? null,
+			wallpaper: wallpaperRequest,
+		});
+	}
+
+	return {
+		method: payload.method,
+		image: original.data,
+		surfaces: surfaceRequests,
+	};
+}
+
+async function processJob(job: JobRecord) {
+	const render = await loadRenderRequest(
+		JSON.parse(job.payload!) as RenderJobPayload
+	);
+	if (!render) {
+		const reason = "The uploaded images of this render are no longer available";
+		if (await updateRunningJob(job, "error", reason)) {
+			await markImageFailed(job.imageId, reason);
+		}
+		return;
+	}
+
+	console.log(
+		`Processing job ${job.id} for image ${job.imageId}, attempt ${job.attempts} of ${job.maxAttempts}`
+	);
+
+	let outcome: RenderOutcome;
+	try {
+		outcome = await runRenderStages(job.imageId, render);
+	} catch (error: any) {
+		console.error(`Job ${job.id} failed unexpectedly:`, error);
+		outcome = {
+			result: providerError(
+				"provider_error",
+				error.message || "An unexpected error occurred",
+				true
+			),
+			generatedMasks: {},
+			quality: null,
+		};
+	}
+
+	const { result } = outcome;
+	if (!result.ok && result.error.retryable && job.attempts < job.maxAttempts) {
+		const runAfter = new Date(
+			Date.now() + getRetryDelayMs(job.attempts)
+		).toISOString();
+		if (await updateRunningJob(job, "queued", result.error.message, runAfter)) {
+			console.log(`Job ${job.id} failed, retrying after ${runAfter}`);
+			await setRenderStage(job.imageId, "retrying");
+			return;
+		}
+	} else if (
+		await updateRunningJob(
+			job,
+			result.ok ? "completed" : "error",
+			result.ok ? null : result.error.message
+		)
+	) {
+		await storeRenderOutcome(job.imageId, outcome);
+		return;
+	}
+
+	// The job timed out while it was running, so its stages may have
+	// overwritten the error status of the image
+	console.log(`Job ${job.id} finished after it timed out, discarding the result`);
+	const { lastError } = (await getDatabase())
+		.prepare("SELECT lastError FROM jobs WHERE id = ?")
+		.get(job.id) as { lastError: string | null };
+	await markImageFailed(job.imageId, lastError || "Render timed out");
+}
+
+/**
+ * Mark jobs that have been running for longer than the timeout as failed
+ */
+export async function failStuckJobs() {
+	const db = await getDatabase();
+	const { timeoutSeconds } = getJobConfig();
+	const reason = `Render timed out after ${timeoutSeconds} seconds`;
+	const lockedBefore = new Date(Date.now() - timeoutSeconds * 1000).toISOString();
+
+	const stuckJobs = db
+		.prepare(
+			`UPDATE jobs SET status = 'error', lastError = ?, lockedAt = NULL, payload = NULL, updatedAt = CURRENT_TIMESTAMP
+			WHERE status = 'running' AND lockedAt <= ?
+			RETURNING id, imageId`
+		)
+		.all(reason, lockedBefore) as { id: string; imageId: string }[];
+
+	for (const job of stuckJobs) {
+		console.error(`Job ${job.id} for image ${job.imageId}: ${reason}`);
+		await markImageFailed(job.imageId, reason);
+	}
+}
+
+/**
+ * Requeue jobs that were running when the server stopped
+ * Jobs without attempts left are marked as failed
+ */
+export async function recoverInterruptedJobs() {
+	const db = await getDatabase();
+	const reason = "Render was interrupted by a server restart";
+
+	const failedJobs = db
+		.prepare(
+			`UPDATE jobs SET status = 'error', lastError = ?, lockedAt = NULL, payload = NULL, updatedAt = CURRENT_TIMESTAMP
+			WHERE status = 'running' AND attempts >= maxAttempts
+			RETURNING imageId`
+		)
+		.all(reason) as { imageId: string }[];
+	for (const job of failedJobs) {
+		await markImageFailed(job.imageId, reason);
+	}
+
+	const requeuedJobs = db
+		.prepare(
+			`UPDATE jobs SET status = 'queued', lastError = ?, lockedAt = NULL, runAfter = ?, updatedAt = CURRENT_TIMESTAMP
+			WHERE status = 'running'
+			RETURNING imageId`
+		)
+		.all(reason, new Date().toISOString()) as { imageId: string }[];
+	for (const job of requeuedJobs) {
+		await setRenderStage(job.imageId, "queued");
+	}
+
+	if (failedJobs.length > 0 || requeuedJobs.length > 0) {
+		console.log(
+			`Recovered interrupted jobs: ${requeuedJobs.length} requeued, ${failedJobs.length} failed`
+		);
+	}
+}
+
+/**
+ * Fail stuck jobs and start as many due jobs as the concurrency allows
+ */
+async function tick() {
+	if (isTicking) return;
+	isTicking = true;
+
+	try {
+		await failStuckJobs();
+
+		const { concurrency } = getJobConfig();
+		while (activeJobs < concurrency) {
+			const job = await claimNextJob();
+			if (!job) break;
+
+			activeJobs++;
+			processJob(job)
+				.catch((error) => console.error(`Job ${job.id} crashed:`, error))
+				.finally(() => {
+					activeJobs--;
+					void tick();
+				});
+		}
+	} catch (error) {
+		console.error("Job worker error:", error);
+	} finally {
+		isTicking = false;
+	}
+}
+
+/**
+ * Start the job worker once per process
+ * Recovers jobs that were interrupted by a restart before polling for new ones
+ */
+export function startJobWorker(): Promise<void> {
+	if (!workerStarted) {
+		const started = (async () => {
+			await recoverInterruptedJobs();
+
+			// Don't keep the process alive just for the worker
+			setInterval(() => void tick(), POLL_INTERVAL_MS).unref();
+			void tick();
+		})();
+		// A failed start, e.g. a busy database, is tried again by the next caller
+		started.catch(() => {
+			if (workerStarted === started) workerStarted = null;
+		});
+		workerStarted = started;
+	}
+
+	return workerStarted;
+}
@@ -0,0 +1,86 @@
+/**
+ * Pixel operations of the mask editor
+ * Masks are edited as coverage values from 0 (keep) to 255 (paint), one per pixel
+ */
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+/**
+ * Select the connected area around a point with colors similar to the point
+ * @param image - RGBA pixels, e.g. from CanvasRenderingContext2D.getImageData
+ * @param tolerance - Largest distance in RGB space to the color at the point
+ * @returns 1 for every selected pixel, 0 for the others
+ */
+export function selectSimilarColors(
+	image: Pixels,
+	x: number,
+	y: number,
+	tolerance: number
+): Uint8Array {
+	const { data, width, height } = image;
+	const selected = new Uint8Array(width * height);
+	const startX = Math.min(width - 1, Math.max(0, Math.round(x)));
+	const startY = Math.min(height - 1, Math.max(0, Math.round(y)));
+
+	const seed = (startY * width + startX) * 4;
+	const [r, g, b] = [data[seed], data[seed + 1], data[seed + 2]];
+	const maxDistance = tolerance * tolerance;
+	const isSimilar = (pixel: number) => {
+		const offset = pixel * 4;
+		const dr = data[offset] - r;
+		const dg = data[offset + 1] - g;
+		const db = data[offset + 2] - b;
+		return dr * dr + dg * dg + db * db <= maxDistance;
+	};
+
+	// Flood fill with an explicit stack, photos are too large for recursion
+	const stack = [startY * width + startX];
+	selected[stack[0]] = 1;
+	while (stack.length > 0) {
+		const pixel = stack.pop()!;
+		const px = pixel % width;
+		const neighbors = [
+			px > 0 ? pixel - 1 : -1,
+			px < width - 1 ? pixel + 1 : -1,
+			pixel >= width ? pixel - width : -1,
+			pixel < width * (height - 1) ? pixel + width : -1,
+		];
+		for (const neighbor of neighbors) {
+			if (neighbor < 0 || selected[neighbor] || !isSimilar(neighbor)) continue;
+			selected[neighbor] = 1;
+			stack.push(neighbor);
+		}
+	}
+
+	return selected;
+}
+
+/**
+ * Read the coverage of a black and white mask image
+ * Transparent pixels count as black
+ */
+export function readMaskCoverage(image: Pixels): Uint8ClampedArray {
+	const coverage = new Uint8ClampedArray(image.width * image.height);
+	for (let i = 0; i < coverage.length; i++) {
+		const offset = i * 4;
+		const luminance =
+			0.299 * image.data[offset] +
+			0.587 * image.data[offset + 1] +
+			0.114 * image.data[offset + 2];
+		coverage[i] = (luminance * image.data[offset + 3]) / 255;
+	}
+	return coverage;
+}
+
+/**
+ * Write coverage values as a black and white mask image, in place
+ */
+export function writeMaskImage(coverage: Uint8ClampedArray, image: Pixels) {
+	for (let i = 0; i < coverage.length; i++) {
+		const offset = i * 4;
+		image.data[offset] = coverage[i];
+		image.data[offset + 1] = coverage[i];
+		image.data[offset + 2] = coverage[i];
+		image.data[offset + 3] = 255;
+	}
+}
@@ -0,0 +1,266 @@
+/**
+ * Mask processing for server-side operations
+ * Masks are stored as black and white PNGs where white areas are painted, and
+ * converted to the alpha mask format when they are sent to a provider.
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import { normalizeMask } from "./normalize.server";
+
+export type MaskAdjustments = {
+	/** Pixels the painted area grows by, negative values shrink it */
+	grow: number;
+	/** Pixels over which the edges of the painted area fade out */
+	feather: number;
+};
+
+export type PreparedMask =
+	| {
+			ok: true;
+			/** Black and white PNG at the resolution of the photo */
+			mask: Buffer;
+			/** Share of the photo that is painted, from 0 to 1 */
+			coverage: number;
+	  }
+	| { ok: false; error: string };
+
+export type MaskAdjustmentsResult =
+	| { ok: true; adjustments: MaskAdjustments }
+	| { ok: false; error: string };
+
+export const noMaskAdjustments: MaskAdjustments = { grow: 0, feather: 0 };
+
+// Largest grow, shrink or feather distance in pixels
+const MAX_ADJUSTMENT = 50;
+
+// Masks that paint less or more than this share of the photo are mistakes
+const MIN_COVERAGE = 0.001;
+const MAX_COVERAGE = 0.999;
+
+// Transparent masks whose visible pixels are this bright mark the white areas
+const WHITE_LUMINANCE = 200;
+
+/**
+ * Parse the edge adjustments of uploaded masks from their form values
+ * Empty values leave the edges unchanged
+ */
+export function parseMaskAdjustments(values: {
+	grow: string | null;
+	feather: string | null;
+}): MaskAdjustmentsResult {
+	const grow = Number(values.grow || 0);
+	const feather = Number(values.feather || 0);
+
+	if (!Number.isInteger(grow) || Math.abs(grow) > MAX_ADJUSTMENT) {
+		return {
+			ok: false,
+			error: `Growing or shrinking the mask must be a whole number of pixels between -${MAX_ADJUSTMENT} and ${MAX_ADJUSTMENT}.`,
+		};
+	}
+	if (!Number.isInteger(feather) || feather < 0 || feather > MAX_ADJUSTMENT) {
+		return {
+			ok: false,
+			error: `Feathering the mask must be a whole number of pixels between 0 and ${MAX_ADJUSTMENT}.`,
+		};
+	}
+
+	return { ok: true, adjustments: { grow, feather } };
+}
+
+/**
+ * Set every pixel of a line within the radius of a white pixel to white
+ * The distance to the closest white pixel is tracked in both directions
+ */
+function dilateLine(
+	source: Uint8Array,
+	target: Uint8Array,
+	start: number,
+	step: number,
+	length: number,
+	radius: number
+) {
+	let distance = Infinity;
+	for (let i = 0; i < length; i++) {
+		const index = start + i * step;
+		distance = source[index] ? 0 : distance + 1;
+		target[index] = distance <= radius ? 255 : 0;
+	}
+	distance = Infinity;
+	for (let i = length - 1; i >= 0; i--) {
+		const index = start + i * step;
+		distance = source[index] ? 0 : distance + 1;
+		if (distance <= radius) target[index] = 255;
+	}
+}
+
+/**
+ * Grow the white areas of a binary mask by a square of the given radius
+ */
+function dilate(
+	mask: Uint8Array,
+	width: number,
+	height: number,
+	radius: number
+): Uint8Array {
+	const rows = new Uint8Array(mask.length);
+	for (let y = 0; y < height; y++) {
+		dilateLine(mask, rows, y * width, 1, width, radius);
+	}
+	const result = new Uint8Array(mask.length);
+	for (let x = 0; x < width; x++) {
+		dilateLine(rows, result, x, width, height, radius);
+	}
+	return result;
+}
+
+const invert = (mask: Uint8Array) => mask.map((value) => 255 - value);
+
+/**
+ * Read the painted areas of an uploaded mask
+ * Opaque masks paint their white areas. Masks with transparency are either
+ * white shapes on a transparent background, or alpha masks like the OpenAI
+ * edit endpoint expects, where the transparent areas are painted.
+ * @returns The coverage of every pixel, from 0 to 255
+ */
+function readCoverage(pixels: Buffer, pixelCount: number): Uint8Array {
+	const coverage = new Uint8Array(pixelCount);
+	let visibleLuminance = 0;
+	let visiblePixels = 0;
+	let hasTransparency = false;
+	for (let i = 0; i < pixelCount; i++) {
+		const offset = i * 4;
+		const luminance =
+			0.299 * pixels[offset] +
+			0.587 * pixels[offset + 1] +
+			0.114 * pixels[offset + 2];
+		const alpha = pixels[offset + 3];
+		coverage[i] = Math.round((luminance * alpha) / 255);
+
+		if (alpha < 255) hasTransparency = true;
+		if (alpha >= 128) {
+			visibleLuminance += luminance;
+			visiblePixels++;
+		}
+	}
+
+	const isWhiteOnTransparent =
+		visiblePixels > 0 && visibleLuminance / visiblePixels >= WHITE_LUMINANCE;
+	if (hasTransparency && !isWhiteOnTransparent) {
+		for (let i = 0; i < pixelCount; i++) {
+			coverage[i] = 255 - pixels[i * 4 + 3];
+		}
+	}
+	return coverage;
+}
+
+/**
+ * Prepare an uploaded mask for rendering
+ * The mask is sized to its photo, converted to black and white and its edges
+ * are adjusted. Masks that paint nothing or the whole photo are rejected.
+ * @param width - Width of the normalized photo
+ * @param height - Height of the normalized photo
+ */
+export async function prepareMask(
+	data: Buffer,
+	width: number,
+	height: number,
+	{ grow, feather }: MaskAdjustments = noMaskAdjustments
+): Promise<PreparedMask> {
+	const normalized = await normalizeMask(data, width, height);
+	if (!normalized.ok) return normalized;
+
+	const pixels = await sharp(normalized.image).ensureAlpha().raw().toBuffer();
+	let coverage = readCoverage(pixels, width * height);
+
+	// Edges are moved on the hard outline of the mask
+	if (grow !== 0) {
+		const binary = coverage.map((value) => (value >= 128 ? 255 : 0));
+		coverage =
+			grow > 0
+				? dilate(binary, width, height, grow)
+				: invert(dilate(invert(binary), width, height, -grow));
+	}
+
+	let mask = sharp(coverage, { raw: { width, height, channels: 1 } });
+	if (feather > 0) {
+		mask = mask.blur(Math.max(0.3, feather / 2));
+	}
+	// Blurring turns the single channel into sRGB
+	const result = await mask.toColourspace("b-w").raw().toBuffer();
+
+	let total = 0;
+	for (let i = 0; i < result.length; i++) {
+		total += result[i];
+	}
+	const share = total / 255 / result.length;
+	if (share < MIN_COVERAGE) {
+		return {
+			ok: false,
+			error: "The mask is empty. Mark the areas to paint in white.",
+		};
+	}
+	if (share > MAX_COVERAGE) {
+		return {
+			ok: false,
+			error:
+				"The mask covers the whole photo. Only the areas to paint should be white.",
+		};
+	}
+
+	return {
+		ok: true,
+		mask: await sharp(result, { raw: { width, height, channels: 1 } })
+			.png()
+			.toBuffer(),
+		coverage: share,
+	};
+}
+
+/**
+ * Convert a black and white mask into the alpha mask format of the image edit API
+ * White (wall) areas become fully transparent, which marks them for editing,
+ * black areas become opaque.
+ * @param mask - Black and white mask where white areas are edited
+ * @param width - Width of the image the mask belongs to
+ * @param height - Height of the image the mask belongs to
+ * @returns PNG encoded RGBA mask
+ */
+export async function toAlphaMask(
+	mask: Buffer,
+	width: number,
+	height: number
+): Promise<Buffer> {
+	const alpha = await sharp(mask)
+		.resize(width, height, { fit: "fill" })
+		.flatten({ background: "#000000" })
+		.greyscale()
+		.negate()
+		.raw()
+		.toBuffer();
+
+	return sharp({
+		create: { width, height, channels: 3, background: "#000000" },
+	})
+		.joinChannel(alpha, { raw: { width, height, channels: 1 } })
+		.png()
+		.toBuffer();
+}
+
+/**
+ * Normalize a generated segmentation image into a black and white PNG mask
+ * @param image - Image produced by the mask generation stage
+ * @param width - Width of the image the mask belongs to
+ * @param height - Height of the image the mask belongs to
+ */
+export async function toLuminanceMask(
+	image: Buffer,
+	width: number,
+	height: number
+): Promise<Buffer> {
+	return sharp(image)
+		.resize(width, height, { fit: "fill" })
+		.flatten({ background: "#000000" })
+		.greyscale()
+		.png()
+		.toBuffer();
+}
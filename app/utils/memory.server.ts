@@ -0,0 +1,105 @@
+/**
+ * In-memory image store, used for tests and local development
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import {
+	matchesImageQuery,
+	parseStoredValue,
+	toImageList,
+	toStoredData,
+	type ImageStore,
+	type ListedImage,
+	type StoredImage,
+} from "./image-store.server";
+
+type MemoryEntry = {
+	data: Buffer | null;
+	fields: Map<string, string>;
+	expiresAt: number;
+};
+
+/**
+ * Create an image store that keeps images in a Map
+ * Metadata is JSON serialized like the other backends, so values read back as copies
+ */
+export function createMemoryImageStore({
+	expirySeconds,
+}: {
+	expirySeconds: number;
+}): ImageStore {
+	const entries = new Map<string, MemoryEntry>();
+
+	const getEntry = (imageId: string) => {
+		const entry = entries.get(imageId);
+		if (!entry) return null;
+
+		if (entry.expiresAt <= Date.now()) {
+			entries.delete(imageId);
+			return null;
+		}
+		return entry;
+	};
+
+	return {
+		async storeImage(imageId, imageData, metadata = {}) {
+			const entry = getEntry(imageId) ?? {
+				data: null,
+				fields: new Map<string, string>(),
+				expiresAt: 0,
+			};
+
+			// Copy the data, so later changes to the caller's buffer don't leak in
+			const data = toStoredData(imageData);
+			entry.data = data ? Buffer.from(data) : entry.data;
+			for (const [key, value] of Object.entries(metadata)) {
+				if (value === undefined) continue;
+				entry.fields.set(key, JSON.stringify(value));
+			}
+			entry.expiresAt = Date.now() + expirySeconds * 1000;
+			entries.set(imageId, entry);
+
+			return `image:${imageId}`;
+		},
+
+		async getImage(imageId) {
+			const entry = getEntry(imageId);
+			if (!entry) return null;
+
+			const result: StoredImage = { data: entry.data };
+			for (const [key, value] of entry.fields) {
+				result[key] = parseStoredValue(value);
+			}
+			return result;
+		},
+
+		async getImageField(imageId, field) {
+			const entry = getEntry(imageId);
+			if (!entry) return null;
+
+			if (field === "data") return entry.data;
+			const value = entry.fields.get(field);
+			return value === undefined ? null : parseStoredValue(value);
+		},
+
+		async deleteImage(imageId) {
+			const existed = getEntry(imageId) !== null;
+			entries.delete(imageId);
+			return existed ? 1 : 0;
+		},
+
+		async listImages(query) {
+			const images: ListedImage[] = [];
+			for (const imageId of entries.keys()) {
+				const entry = getEntry(imageId);
+				if (!entry) continue;
+
+				const image: ListedImage = { id: imageId };
+				for (const [key, value] of entry.fields) {
+					image[key] = parseStoredValue(value);
+				}
+				if (matchesImageQuery(image, query)) images.push(image);
+			}
+			return toImageList(images, query);
+		},
+	};
+}
@@ -0,0 +1,467 @@
+/**
+ * Versioned schema migrations for the SQLite database
+ * Every migration runs once, in its own transaction, and is recorded in the
+ * schema_migrations table. Never change a migration that was released, add a
+ * new one with the next version instead.
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import type { Database } from "better-sqlite3";
+
+export type Migration = {
+	version: number;
+	name: string;
+	up: (db: Database) => void;
+};
+
+/**
+ * Store the default prompt templates that changed as new versions
+ * A new default is only activated while the active version is a default too,
+ * so prompts customized by an admin stay in use
+ */
+function addDefaultPromptTemplates(
+	db: Database,
+	templates: { name: string; body: string }[],
+	note: string
+) {
+	const getLatest = db.prepare(
+		"SELECT version, body FROM prompt_templates WHERE name = ? ORDER BY version DESC LIMIT 1"
+	);
+	const getActive = db.prepare(
+		"SELECT isDefault FROM prompt_templates WHERE name = ? AND isActive = 1"
+	);
+	const deactivate = db.prepare(
+		"UPDATE prompt_templates SET isActive = 0 WHERE name = ?"
+	);
+	const insertTemplate = db.prepare(
+		"INSERT INTO prompt_templates (name, version, body, isActive, isDefault, note) VALUES (?, ?, ?, ?, 1, ?)"
+	);
+
+	for (const { name, body } of templates) {
+		const latest = getLatest.get(name) as
+			| { version: number; body: string }
+			| undefined;
+		if (latest?.body === body) continue;
+
+		const active = getActive.get(name) as { isDefault: number } | undefined;
+		const isActive = !active || active.isDefault === 1;
+		if (isActive) deactivate.run(name);
+
+		insertTemplate.run(
+			name,
+			(latest?.version ?? 0) + 1,
+			body,
+			isActive ? 1 : 0,
+			note
+		);
+	}
+}
+
+// The default templates as they were released with each migration. Later
+// defaults are added as new versions by a new migration, so these lists must
+// not change.
+const initialPromptTemplates: { name: string; body: string }[] = [
+	{
+		name: "mask.walls",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible interior walls. Wall areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including furniture, people, pets, floors, ceilings, windows, curtains, doors, moldings, artwork, mirrors, lights, and any non-wall surfaces — should be completely black (0). This mask will be used to replace wall paint or wallpaper, so precise and accurate delineation of wall surfaces is essential.",
+	},
+	{
+		name: "paint.walls",
+		body: "Edit the provided image by replacing the color of the walls with this specific color: {{hex}}. Keep the rest of the image completely unchanged. The walls should be smooth and realistic. The walls should have the texture of a wallpaint. The walls should be in the same shape as the original image. Only change the color of the walls. Keep the lighting and other elements of the image unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the walls.",
+	},
+	{
+		name: "mask.ceiling",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible ceiling. Ceiling areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including walls, floors, lights, ceiling fans, beams, moldings, windows, doors, furniture and people — should be completely black (0). This mask will be used to repaint the ceiling, so precise and accurate delineation of the ceiling is essential.",
+	},
+	{
+		name: "paint.ceiling",
+		body: "Edit the provided image by replacing the color of the ceiling with this specific color: {{hex}}. Keep the rest of the image completely unchanged. The ceiling should be smooth and realistic, with the texture of a flat ceiling paint. Keep its shape, the lights and fixtures on it and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the ceiling.",
+	},
+	{
+		name: "mask.accent_wall",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the single most prominent wall facing the camera. That wall should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the other walls, floors, ceilings, windows, curtains, doors, moldings, artwork, furniture and people — should be completely black (0). This mask will be used to paint an accent wall, so precise and accurate delineation of that one wall is essential.",
+	},
+	{
+		name: "paint.accent_wall",
+		body: "Edit the provided image by replacing the color of the masked wall with this specific color: {{hex}}. Keep the rest of the image, including the other walls, completely unchanged. The wall should be smooth and realistic, with the texture of a wallpaint. Keep its shape and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the accent wall.",
+	},
+	{
+		name: "mask.trim",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible trim: skirting boards, baseboards, crown moldings, chair rails and window and door casings. Trim areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including walls, floors, ceilings, doors, windows, furniture and people — should be completely black (0). This mask will be used to repaint the trim, so precise and accurate delineation of the trim is essential.",
+	},
+	{
+		name: "paint.trim",
+		body: "Edit the provided image by replacing the color of the trim — skirting boards, moldings and casings — with this specific color: {{hex}}. Keep the rest of the image completely unchanged. The trim should look freshly painted with a smooth, realistic finish. Keep its profile and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the trim.",
+	},
+	{
+		name: "mask.doors",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible door leaves. Door areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including door handles, hinges, glass panes, casings, walls, floors, ceilings, windows, furniture and people — should be completely black (0). This mask will be used to repaint the doors, so precise and accurate delineation of the doors is essential.",
+	},
+	{
+		name: "paint.doors",
+		body: "Edit the provided image by replacing the color of the doors with this specific color: {{hex}}. Keep the rest of the image, including handles, hinges and glass, completely unchanged. The doors should look freshly painted with a smooth, realistic finish. Keep their panels, shape and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+	},
+];
+
+// Paint templates that describe the finish, released with migration 5
+const finishPromptTemplates: { name: string; body: string }[] = [
+	{
+		name: "paint.walls",
+		body: "Edit the provided image by replacing the color of the walls with this specific color: {{hex}}. Keep the rest of the image completely unchanged. The walls should be smooth and realistic. The walls should have the texture and sheen of wall paint in {{finish}}. The walls should be in the same shape as the original image. Only change the color of the walls. Keep the lighting and other elements of the image unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the walls.",
+	},
+	{
+		name: "paint.ceiling",
+		body: "Edit the provided image by replacing the color of the ceiling with this specific color: {{hex}}. Keep the rest of the image completely unchanged. The ceiling should be smooth and realistic, with the texture and sheen of ceiling paint in {{finish}}. Keep its shape, the lights and fixtures on it and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the ceiling.",
+	},
+	{
+		name: "paint.accent_wall",
+		body: "Edit the provided image by replacing the color of the masked wall with this specific color: {{hex}}. Keep the rest of the image, including the other walls, completely unchanged. The wall should be smooth and realistic, with the texture and sheen of wall paint in {{finish}}. Keep its shape and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the accent wall.",
+	},
+	{
+		name: "paint.trim",
+		body: "Edit the provided image by replacing the color of the trim — skirting boards, moldings and casings — with this specific color: {{hex}}. Keep the rest of the image completely unchanged. The trim should look freshly painted, with the sheen of {{finish}}. Keep its profile and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the trim.",
+	},
+	{
+		name: "paint.doors",
+		body: "Edit the provided image by replacing the color of the doors with this specific color: {{hex}}. Keep the rest of the image, including handles, hinges and glass, completely unchanged. The doors should look freshly painted, with the sheen of {{finish}}. Keep their panels, shape and the lighting of the room unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+	},
+];
+
+// Mask and paint templates of the exterior surfaces, released with migration 6
+const exteriorPromptTemplates: { name: string; body: string }[] = [
+	{
+		name: "mask.facade",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible exterior walls of the building — brick, stone, render, stucco, concrete or wood cladding. Facade areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the roof, fascia, soffits, gutters, downpipes, windows, window frames, doors, garage doors, balcony railings, plants, trees, sky, ground, vehicles and people — should be completely black (0). This mask will be used to repaint the facade, so precise and accurate delineation of the exterior walls is essential.",
+	},
+	{
+		name: "paint.facade",
+		body: "Edit the provided image by repainting the exterior walls of the building with this specific color: {{hex}}. Keep the rest of the image, including the roof, windows, doors, plants, sky and ground, completely unchanged. The paint should have {{finish}}. Keep the texture of the wall material visible through the paint: on brick or stone, keep the shape of every brick or stone and the mortar joints; on render or stucco, keep its grain and any cracks or weathering; on wood cladding, keep the boards, their shadow lines and the wood grain. Keep the shape of the building, the daylight, shadows and weather of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the facade.",
+	},
+	{
+		name: "mask.roof",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible roof surfaces — tiles, slates, shingles or metal roofing. Roof areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including chimneys, skylights, solar panels, gutters, fascia, walls, windows, trees, sky and people — should be completely black (0). This mask will be used to recolor the roof, so precise and accurate delineation of the roof is essential.",
+	},
+	{
+		name: "paint.roof",
+		body: "Edit the provided image by recoloring the roof with this specific color: {{hex}}. Keep the rest of the image, including chimneys, skylights, solar panels, walls, sky and trees, completely unchanged. The roof should look like freshly coated roofing with {{finish}}. Keep the shape, rows and overlaps of every tile, slate or shingle, or the seams of metal roofing, and keep the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the roof.",
+	},
+	{
+		name: "mask.fascia",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible fascia boards, bargeboards and soffits along the edges of the roof. These areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the roof covering, gutters, downpipes, walls, windows, doors, trees, sky and people — should be completely black (0). This mask will be used to repaint the fascia, so precise and accurate delineation of the boards is essential.",
+	},
+	{
+		name: "paint.fascia",
+		body: "Edit the provided image by repainting the fascia boards, bargeboards and soffits with this specific color: {{hex}}. Keep the rest of the image, including the roof, gutters and walls, completely unchanged. The boards should look freshly painted, with {{finish}}, and keep their wood grain or the surface of their material. Keep their shape and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the fascia.",
+	},
+	{
+		name: "mask.gutters",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible gutters and downpipes. These areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including fascia boards, the roof, walls, windows, doors, trees, sky and people — should be completely black (0). This mask will be used to repaint the gutters, so precise and accurate delineation of the gutters and downpipes is essential.",
+	},
+	{
+		name: "paint.gutters",
+		body: "Edit the provided image by repainting the gutters and downpipes with this specific color: {{hex}}. Keep the rest of the image, including the fascia, roof and walls, completely unchanged. The gutters should look freshly painted, with {{finish}}. Keep their shape, brackets and joints and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the gutters.",
+	},
+	{
+		name: "mask.window_frames",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible window frames, sashes, mullions and shutters on the outside of the building. These areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the glass, reflections in it, curtains behind it, window sills, walls, doors, the roof, plants, sky and people — should be completely black (0). This mask will be used to repaint the window frames, so precise and accurate delineation of the frames is essential.",
+	},
+	{
+		name: "paint.window_frames",
+		body: "Edit the provided image by repainting the window frames, sashes and shutters with this specific color: {{hex}}. Keep the rest of the image, including the glass, reflections in it and the walls, completely unchanged. The frames should look freshly painted, with {{finish}}; wooden frames keep their wood grain. Keep their profiles and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the window frames.",
+	},
+	{
+		name: "mask.exterior_doors",
+		body: "Using the provided image, generate a black and white segmentation mask that defines only the visible front doors, back doors and garage doors of the building. Door areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including door handles, letterboxes, house numbers, glass panes, door frames, walls, windows, steps, plants, vehicles and people — should be completely black (0). This mask will be used to repaint the doors, so precise and accurate delineation of the doors is essential.",
+	},
+	{
+		name: "paint.exterior_doors",
+		body: "Edit the provided image by repainting the front and garage doors with this specific color: {{hex}}. Keep the rest of the image, including handles, letterboxes, house numbers, glass and door frames, completely unchanged. The doors should look freshly painted, with {{finish}}; wooden doors keep their wood grain. Keep their panels, shape and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+	},
+];
+
+// Paint templates that name the paint and the room, released with migration 7
+const roomAndColorPromptTemplates: { name: string; body: string }[] = [
+	{
+		name: "paint.walls",
+		body: "Edit the provided image by replacing the color of the walls with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image completely unchanged. The walls should be smooth and realistic. The walls should have the texture and sheen of wall paint in {{finish}}. The walls should be in the same shape as the original image. Only change the color of the walls. Keep the lighting of the {{roomType}} and the other elements of the image unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the walls.",
+	},
+	{
+		name: "paint.ceiling",
+		body: "Edit the provided image by replacing the color of the ceiling with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image completely unchanged. The ceiling should be smooth and realistic, with the texture and sheen of ceiling paint in {{finish}}. Keep its shape, the lights and fixtures on it and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the ceiling.",
+	},
+	{
+		name: "paint.accent_wall",
+		body: "Edit the provided image by replacing the color of the masked wall with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the other walls, completely unchanged. The wall should be smooth and realistic, with the texture and sheen of wall paint in {{finish}}. Keep its shape and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the accent wall.",
+	},
+	{
+		name: "paint.trim",
+		body: "Edit the provided image by replacing the color of the trim — skirting boards, moldings and casings — with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image completely unchanged. The trim should look freshly painted, with the sheen of {{finish}}. Keep its profile and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the trim.",
+	},
+	{
+		name: "paint.doors",
+		body: "Edit the provided image by replacing the color of the doors with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including handles, hinges and glass, completely unchanged. The doors should look freshly painted, with the sheen of {{finish}}. Keep their panels, shape and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+	},
+	{
+		name: "paint.facade",
+		body: "Edit the provided image by repainting the exterior walls of the building with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the roof, windows, doors, plants, sky and ground, completely unchanged. The paint should have {{finish}}. Keep the texture of the wall material visible through the paint: on brick or stone, keep the shape of every brick or stone and the mortar joints; on render or stucco, keep its grain and any cracks or weathering; on wood cladding, keep the boards, their shadow lines and the wood grain. Keep the shape of the building, the daylight, shadows and weather of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the facade.",
+	},
+	{
+		name: "paint.roof",
+		body: "Edit the provided image by recoloring the roof with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including chimneys, skylights, solar panels, walls, sky and trees, completely unchanged. The roof should look like freshly coated roofing with {{finish}}. Keep the shape, rows and overlaps of every tile, slate or shingle, or the seams of metal roofing, and keep the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the roof.",
+	},
+	{
+		name: "paint.fascia",
+		body: "Edit the provided image by repainting the fascia boards, bargeboards and soffits with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the roof, gutters and walls, completely unchanged. The boards should look freshly painted, with {{finish}}, and keep their wood grain or the surface of their material. Keep their shape and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the fascia.",
+	},
+	{
+		name: "paint.gutters",
+		body: "Edit the provided image by repainting the gutters and downpipes with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the fascia, roof and walls, completely unchanged. The gutters should look freshly painted, with {{finish}}. Keep their shape, brackets and joints and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the gutters.",
+	},
+	{
+		name: "paint.window_frames",
+		body: "Edit the provided image by repainting the window frames, sashes and shutters with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the glass, reflections in it and the walls, completely unchanged. The frames should look freshly painted, with {{finish}}; wooden frames keep their wood grain. Keep their profiles and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the window frames.",
+	},
+	{
+		name: "paint.exterior_doors",
+		body: "Edit the provided image by repainting the front and garage doors with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including handles, letterboxes, house numbers, glass and door frames, completely unchanged. The doors should look freshly painted, with {{finish}}; wooden doors keep their wood grain. Keep their panels, shape and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+	},
+];
+
+export const migrations: Migration[] = [
+	{
+		version: 1,
+		name: "initial_schema",
+		// Matches the tables created before migrations existed, so existing
+		// databases are adopted as they are
+		up(db) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS images (
+					id TEXT PRIMARY KEY,
+					data TEXT,
+					status TEXT,
+					fileName TEXT,
+					timestamp TEXT,
+					createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+					updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+				);
+
+				CREATE TABLE IF NOT EXISTS metadata (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					imageId TEXT NOT NULL,
+					key TEXT NOT NULL,
+					value TEXT NOT NULL,
+					FOREIGN KEY (imageId) REFERENCES images(id) ON DELETE CASCADE
+				);
+
+				CREATE UNIQUE INDEX IF NOT EXISTS idx_metadata_image_key ON metadata(imageId, key);
+
+				CREATE TABLE IF NOT EXISTS jobs (
+					id TEXT PRIMARY KEY,
+					imageId TEXT NOT NULL,
+					payload TEXT,
+					status TEXT NOT NULL DEFAULT 'queued',
+					attempts INTEGER NOT NULL DEFAULT 0,
+					maxAttempts INTEGER NOT NULL,
+					runAfter TEXT NOT NULL,
+					lockedAt TEXT,
+					lastError TEXT,
+					createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+					updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+				);
+
+				CREATE INDEX IF NOT EXISTS idx_jobs_status_run_after ON jobs(status, runAfter);
+			`);
+		},
+	},
+	{
+		version: 2,
+		name: "image_data_blobs",
+		up(db) {
+			db.function("base64_to_blob", { deterministic: true }, (value) =>
+				typeof value === "string" ? Buffer.from(value, "base64") : value
+			);
+
+			db.exec(`
+				ALTER TABLE images ADD COLUMN blobData BLOB;
+				UPDATE images SET blobData = base64_to_blob(data) WHERE data IS NOT NULL AND data != '';
+				ALTER TABLE images DROP COLUMN data;
+				ALTER TABLE images RENAME COLUMN blobData TO data;
+			`);
+		},
+	},
+	{
+		version: 3,
+		name: "paint_catalog",
+		up(db) {
+			db.exec(`
+				CREATE TABLE paints (
+					id TEXT PRIMARY KEY,
+					brand TEXT NOT NULL,
+					collection TEXT,
+					code TEXT NOT NULL,
+					name TEXT NOT NULL,
+					hex TEXT NOT NULL,
+					lrv REAL,
+					finishes TEXT NOT NULL DEFAULT '[]',
+					createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+					updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+				);
+
+				CREATE UNIQUE INDEX idx_paints_brand_code ON paints(brand, code);
+				CREATE INDEX idx_paints_name ON paints(name);
+			`);
+
+			// The generic colors the picker offered before the catalog existed
+			const insertPaint = db.prepare(
+				`INSERT INTO paints (id, brand, collection, code, name, hex, lrv, finishes)
+				VALUES (?, 'Generic', 'Basics', ?, ?, ?, ?, '["matte","eggshell","satin"]')`
+			);
+			const genericPaints: [string, string, string, number][] = [
+				["GEN-001", "Arctic White", "#F8F8F8", 93.9],
+				["GEN-002", "Mint Green", "#98FB98", 77.9],
+				["GEN-003", "Sage", "#BCB88A", 46.8],
+				["GEN-004", "Blush Pink", "#FFE4E1", 82.2],
+				["GEN-005", "Lavender", "#E6E6FA", 80.3],
+				["GEN-006", "Pale Yellow", "#FFFFE0", 98.2],
+				["GEN-007", "Forest Green", "#228B22", 18.9],
+				["GEN-008", "Burgundy", "#800020", 4.7],
+				["GEN-009", "Charcoal", "#36454F", 5.6],
+			];
+			for (const [code, name, hex, lrv] of genericPaints) {
+				insertPaint.run(`generic-${code.toLowerCase()}`, code, name, hex, lrv);
+			}
+		},
+	},
+	{
+		version: 4,
+		name: "prompt_templates",
+		up(db) {
+			db.exec(`
+				CREATE TABLE prompt_templates (
+					name TEXT NOT NULL,
+					version INTEGER NOT NULL,
+					body TEXT NOT NULL,
+					isActive INTEGER NOT NULL DEFAULT 0,
+					note TEXT,
+					createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+					PRIMARY KEY (name, version)
+				);
+
+				CREATE UNIQUE INDEX idx_prompt_templates_active ON prompt_templates(name) WHERE isActive = 1;
+			`);
+
+			const insertTemplate = db.prepare(
+				`INSERT INTO prompt_templates (name, version, body, isActive, note)
+				VALUES (?, 1, ?, 1, 'Default template')`
+			);
+			for (const { name, body } of initialPromptTemplates) {
+				insertTemplate.run(name, body);
+			}
+		},
+	},
+	{
+		version: 5,
+		name: "finish_prompt_templates",
+		up(db) {
+			// Every version so far was inserted by migration 4
+			db.exec(`
+				ALTER TABLE prompt_templates ADD COLUMN isDefault INTEGER NOT NULL DEFAULT 0;
+				UPDATE prompt_templates SET isDefault = 1 WHERE version = 1;
+			`);
+
+			addDefaultPromptTemplates(
+				db,
+				finishPromptTemplates,
+				"Default template with finishes"
+			);
+		},
+	},
+	{
+		version: 6,
+		name: "exterior_prompt_templates",
+		up(db) {
+			addDefaultPromptTemplates(
+				db,
+				exteriorPromptTemplates,
+				"Default template for exterior surfaces"
+			);
+		},
+	},
+	{
+		version: 7,
+		name: "room_and_color_prompt_templates",
+		up(db) {
+			addDefaultPromptTemplates(
+				db,
+				roomAndColorPromptTemplates,
+				"Default template with room and color name"
+			);
+		},
+	},
+];
+
+/**
+ * Get the version of the newest migration
+ */
+export function getLatestVersion() {
+	let latest = 0;
+	for (const migration of migrations) {
+		latest = Math.max(latest, migration.version);
+	}
+	return latest;
+}
+
+/**
+ * Get the schema version of a database, 0 when no migration was applied yet
+ */
+export function getSchemaVersion(db: Database): number {
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			appliedAt TEXT DEFAULT CURRENT_TIMESTAMP
+		)
+	`);
+
+	const { version } = db
+		.prepare("SELECT MAX(version) AS version FROM schema_migrations")
+		.get() as { version: number | null };
+	return version ?? 0;
+}
+
+/**
+ * Apply all pending migrations in order
+ * Throws when the database was migrated by a newer version of the application
+ * @returns The names of the applied migrations
+ */
+export function runMigrations(db: Database): string[] {
+	const currentVersion = getSchemaVersion(db);
+	const latestVersion = getLatestVersion();
+
+	if (currentVersion > latestVersion) {
+		throw new Error(
+			`Database schema version ${currentVersion} is newer than the latest known migration ${latestVersion}, update the application before using this database`
+		);
+	}
+
+	const pending = migrations
+		.filter((migration) => migration.version > currentVersion)
+		.sort((a, b) => a.version - b.version);
+
+	const recordMigration = db.prepare(
+		"INSERT INTO schema_migrations (version, name) VALUES (?, ?)"
+	);
+	const applied: string[] = [];
+	for (const migration of pending) {
+		db.transaction(() => {
+			migration.up(db);
+			recordMigration.run(migration.version, migration.name);
+		})();
+
+		console.log(
+			`Applied database migration ${migration.version}: ${migration.name}`
+		);
+		applied.push(migration.name);
+	}
+
+	return applied;
+}
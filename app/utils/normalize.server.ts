@@ -0,0 +1,160 @@
+/**
+ * Normalization of uploaded photos and masks for server-side operations
+ * Uploads are identified by their content rather than their declared type,
+ * oriented upright, stripped of metadata and converted to PNG.
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+
+export type UploadFormat = "png" | "jpeg" | "webp" | "heic" | "avif";
+
+export type NormalizedImage = {
+	/** PNG encoded image without metadata */
+	image: Buffer;
+	width: number;
+	height: number;
+	/** Format the upload was sent in */
+	format: UploadFormat;
+};
+
+export type NormalizeResult =
+	| ({ ok: true } & NormalizedImage)
+	| { ok: false; error: string };
+
+// Longest side of stored uploads, larger photos are scaled down
+const MAX_IMAGE_DIMENSION = 4096;
+
+// Masks may differ this much in aspect ratio from the photo, e.g. after rounding
+const MASK_ASPECT_TOLERANCE = 0.02;
+
+const pngSignature = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const heifBrands: Record<string, UploadFormat> = {
+	heic: "heic",
+	heix: "heic",
+	hevc: "heic",
+	hevx: "heic",
+	heim: "heic",
+	heis: "heic",
+	mif1: "heic",
+	msf1: "heic",
+	avif: "avif",
+	avis: "avif",
+};
+
+const formatNames: Record<UploadFormat, string> = {
+	png: "PNG",
+	jpeg: "JPEG",
+	webp: "WebP",
+	heic: "HEIC",
+	avif: "AVIF",
+};
+
+/**
+ * Detect the format of an image from its magic bytes
+ * @returns The format, or null when it is not a supported image
+ */
+export function sniffImageFormat(data: Buffer): UploadFormat | null {
+	if (data.subarray(0, 8).equals(pngSignature)) {
+		return "png";
+	}
+	if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+		return "jpeg";
+	}
+	if (
+		data.length >= 12 &&
+		data.toString("ascii", 0, 4) === "RIFF" &&
+		data.toString("ascii", 8, 12) === "WEBP"
+	) {
+		return "webp";
+	}
+	// HEIF based formats start with an ftyp box that lists the brand
+	if (data.length >= 12 && data.toString("ascii", 4, 8) === "ftyp") {
+		return heifBrands[data.toString("ascii", 8, 12)] ?? null;
+	}
+	return null;
+}
+
+/**
+ * Decode an upload, apply its EXIF orientation and re-encode it as PNG
+ * Metadata is dropped, since sharp only keeps it when asked to
+ */
+async function decodeUpload(
+	data: Buffer,
+	resize: (image: sharp.Sharp) => sharp.Sharp
+): Promise<NormalizeResult> {
+	const format = sniffImageFormat(data);
+	if (!format) {
+		return {
+			ok: false,
+			error:
+				"Unsupported image format. Please upload a PNG, JPEG, WebP or HEIC image.",
+		};
+	}
+
+	try {
+		const { data: image, info } = await resize(sharp(data).rotate())
+			.png()
+			.toBuffer({ resolveWithObject: true });
+
+		return { ok: true, image, width: info.width, height: info.height, format };
+	} catch (error: any) {
+		console.error(`Failed to decode ${format} upload:`, error);
+		return {
+			ok: false,
+			error:
+				format === "heic"
+					? "This server can't decode HEIC photos. Please export the photo as JPEG and try again."
+					: `The ${formatNames[format]} image could not be read, it may be damaged.`,
+		};
+	}
+}
+
+/**
+ * Normalize an uploaded photo into an upright PNG without metadata
+ * Photos larger than MAX_IMAGE_DIMENSION are scaled down
+ */
+export async function normalizeImage(data: Buffer): Promise<NormalizeResult> {
+	return decodeUpload(data, (image) =>
+		image.resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, {
+			fit: "inside",
+			withoutEnlargement: true,
+		})
+	);
+}
+
+/**
+ * Normalize an uploaded mask into a PNG at the resolution of its photo
+ * The transparency of the mask is kept, only its format and size change
+ * @param width - Width of the normalized photo
+ * @param height - Height of the normalized photo
+ */
+export async function normalizeMask(
+	data: Buffer,
+	width: number,
+	height: number
+): Promise<NormalizeResult> {
+	const result = await decodeUpload(data, (image) => image);
+	if (!result.ok) return result;
+
+	const maskRatio = result.width / result.height;
+	const imageRatio = width / height;
+	if (Math.abs(maskRatio / imageRatio - 1) > MASK_ASPECT_TOLERANCE) {
+		return {
+			ok: false,
+			error: `The mask is ${result.width}x${result.height}, which doesn't match the shape of the ${width}x${height} photo.`,
+		};
+	}
+
+	if (result.width === width && result.height === height) {
+		return result;
+	}
+
+	const { data: mask, info } = await sharp(result.image)
+		.resize(width, height, { fit: "fill" })
+		.png()
+		.toBuffer({ resolveWithObject: true });
+	return { ...result, image: mask, width: info.width, height: info.height };
+}
@@ -0,0 +1,201 @@
+/**
+ * Parsing and validation of paint catalog files (CSV or JSON)
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { hexToRgb, rgbToHex } from "./color";
+import { paintFinishes, type PaintFinish, type PaintInput } from "./paints";
+
+export type PaintFileResult = {
+	paints: PaintInput[];
+	/** One message per rejected record, with its line or index */
+	errors: string[];
+};
+
+/**
+ * Split CSV text into rows of fields
+ * Supports quoted fields with commas, newlines and doubled quotes
+ */
+function parseCsvRows(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows;
+}
+
+/**
+ * Validate a paint record from a catalog file
+ * Hex colors are normalized to #RRGGBB and finishes to lowercase
+ * @returns The paint, or an error message
+ */
+export function toPaintInput(
+	record: Record<string, unknown>
+): PaintInput | string {
+	const text = (value: unknown) =>
+		value === undefined || value === null ? "" : String(value).trim();
+
+	const brand = text(record.brand);
+	const code = text(record.code);
+	const name = text(record.name);
+	if (!brand || !code || !name) {
+		return "brand, code and name are required";
+	}
+
+	const rgb = hexToRgb(text(record.hex));
+	if (!rgb) {
+		return `invalid hex color "${text(record.hex)}"`;
+	}
+
+	let lrv: number | null = null;
+	if (text(record.lrv) !== "") {
+		lrv = Number(text(record.lrv));
+		if (!Number.isFinite(lrv) || lrv < 0 || lrv > 100) {
+			return `invalid LRV "${text(record.lrv)}", expected 0 to 100`;
+		}
+	}
+
+	// Finishes are an array in JSON and separated by ; or | in CSV
+	const finishValues = Array.isArray(record.finishes)
+		? record.finishes.map(text)
+		: text(record.finishes).split(/[;|]/);
+	const finishes: PaintFinish[] = [];
+	for (const value of finishValues) {
+		const finish = value.trim().toLowerCase().replace(/\s+/g, "-");
+		if (!finish) continue;
+		if (!paintFinishes.includes(finish as PaintFinish)) {
+			return `unknown finish "${value}", expected one of: ${paintFinishes.join(
+				", "
+			)}`;
+		}
+		if (!finishes.includes(finish as PaintFinish)) {
+			finishes.push(finish as PaintFinish);
+		}
+	}
+
+	return {
+		brand,
+		collection: text(record.collection) || null,
+		code,
+		name,
+		hex: rgbToHex(rgb),
+		lrv,
+		finishes,
+	};
+}
+
+/**
+ * Parse a CSV catalog with a header row
+ * Columns: brand, collection, code, name, hex, lrv, finishes
+ */
+export function parsePaintCsv(text: string): PaintFileResult {
+	const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+	const header = (rows[0] ?? []).map((column) => column.trim().toLowerCase());
+	const result: PaintFileResult = { paints: [], errors: [] };
+
+	for (const column of ["brand", "code", "name", "hex"]) {
+		if (!header.includes(column)) {
+			result.errors.push(`missing column "${column}" in the header row`);
+		}
+	}
+	if (result.errors.length > 0) return result;
+
+	for (let i = 1; i < rows.length; i++) {
+		const row = rows[i];
+		if (row.every((field) => field.trim() === "")) continue;
+
+		const record: Record<string, string> = {};
+		for (let column = 0; column < header.length; column++) {
+			record[header[column]] = row[column] ?? "";
+		}
+
+		const paint = toPaintInput(record);
+		if (typeof paint === "string") {
+			result.errors.push(`row ${i + 1}: ${paint}`);
+		} else {
+			result.paints.push(paint);
+		}
+	}
+	return result;
+}
+
+/**
+ * Parse a JSON catalog, an array of paints or an object with a paints array
+ */
+export function parsePaintJson(text: string): PaintFileResult {
+	const result: PaintFileResult = { paints: [], errors: [] };
+
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (error: any) {
+		result.errors.push(`invalid JSON: ${error.message}`);
+		return result;
+	}
+
+	const records = Array.isArray(data)
+		? data
+		: typeof data === "object" && data !== null && "paints" in data
+		? data.paints
+		: null;
+	if (!Array.isArray(records)) {
+		result.errors.push(
+			"expected an array of paints or an object with a paints array"
+		);
+		return result;
+	}
+
+	for (let i = 0; i < records.length; i++) {
+		const paint =
+			records[i] && typeof records[i] === "object"
+				? toPaintInput(records[i])
+				: "expected an object";
+		if (typeof paint === "string") {
+			result.errors.push(`paint ${i}: ${paint}`);
+		} else {
+			result.paints.push(paint);
+		}
+	}
+	return result;
+}
+
+/**
+ * Parse a catalog file, choosing the format by its extension
+ */
+export function parsePaintFile(fileName: string, text: string): PaintFileResult {
+	return fileName.toLowerCase().endsWith(".json")
+		? parsePaintJson(text)
+		: parsePaintCsv(text);
+}
@@ -0,0 +1,306 @@
+/**
+ * Paint catalog for server-side operations
+ * Paints are identified by their brand and code and stored in the SQLite database
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase } from "./sqlite.server";
+import { deltaE2000, hexToLab, parseColor, rgbToHex, type LAB } from "./color";
+import { parseChoiceValue } from "./color-choices";
+import type { Paint, PaintFinish, PaintInput, RenderPaint } from "./paints";
+
+export type PaintSearch = {
+	/** Matched against the name, code, brand and collection */
+	query?: string;
+	brand?: string;
+	collection?: string;
+	finish?: PaintFinish;
+	/** 1-based page number */
+	page?: number;
+	pageSize?: number;
+};
+
+export type PaintMatch = {
+	paint: Paint;
+	/** CIEDE2000 difference to the requested color */
+	deltaE: number;
+};
+
+export type ResolvedColor =
+	| {
+			ok: true;
+			colorHex: string;
+			paint: RenderPaint | null;
+			/** Finishes the paint is available in, empty when unknown */
+			finishes: PaintFinish[];
+	  }
+	| { ok: false; error: string };
+
+export type PaintSearchResult = {
+	paints: Paint[];
+	total: number;
+	page: number;
+	pageSize: number;
+};
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_CLOSEST_PAINTS = 50;
+const MAX_PAGE_SIZE = 100;
+
+type PaintRow = Omit<Paint, "finishes"> & { finishes: string };
+
+const paintColumns = "id, brand, collection, code, name, hex, lrv, finishes";
+
+function toPaint(row: PaintRow): Paint {
+	return { ...row, finishes: JSON.parse(row.finishes) };
+}
+
+/**
+ * Escape the LIKE wildcards in a search term
+ */
+function toLikePattern(term: string) {
+	return `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/**
+ * Search the catalog, ordered by brand and name
+ */
+export async function searchPaints(
+	search: PaintSearch = {}
+): Promise<PaintSearchResult> {
+	const db = await getDatabase();
+	const pageSize = Math.min(
+		MAX_PAGE_SIZE,
+		Math.max(1, Math.floor(search.pageSize || DEFAULT_PAGE_SIZE))
+	);
+	const page = Math.max(1, Math.floor(search.page || 1));
+
+	const conditions: string[] = [];
+	const params: (string | number)[] = [];
+
+	const query = search.query?.trim();
+	if (query) {
+		conditions.push(
+			"(name LIKE ? ESCAPE '\\' OR code LIKE ? ESCAPE '\\' OR brand LIKE ? ESCAPE '\\' OR collection LIKE ? ESCAPE '\\')"
+		);
+		const pattern = toLikePattern(query);
+		params.push(pattern, pattern, pattern, pattern);
+	}
+	if (search.brand) {
+		conditions.push("brand = ?");
+		params.push(search.brand);
+	}
+	if (search.collection) {
+		conditions.push("collection = ?");
+		params.push(search.collection);
+	}
+	if (search.finish) {
+		conditions.push(
+			"EXISTS (SELECT 1 FROM json_each(paints.finishes) WHERE json_each.value = ?)"
+		);
+		params.push(search.finish);
+	}
+
+	const where =
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+	const { total } = db
+		.prepare(`SELECT COUNT(*) AS total FROM paints ${where}`)
+		.get(...params) as { total: number };
+	const rows = db
+		.prepare(
+			`SELECT ${paintColumns} FROM paints ${where}
+			ORDER BY brand COLLATE NOCASE, name COLLATE NOCASE, code
+			LIMIT ? OFFSET ?`
+		)
+		.all(...params, pageSize, (page - 1) * pageSize) as PaintRow[];
+
+	return { paints: rows.map(toPaint), total, page, pageSize };
+}
+
+/**
+ * Retrieve a paint from the catalog
+ * @returns The paint, or null if not found
+ */
+export async function getPaint(paintId: string): Promise<Paint | null> {
+	const db = await getDatabase();
+	const row = db
+		.prepare(`SELECT ${paintColumns} FROM paints WHERE id = ?`)
+		.get(paintId) as PaintRow | undefined;
+
+	return row ? toPaint(row) : null;
+}
+
+/**
+ * Find the catalog paints that are perceptually closest to a color
+ * Compares every paint with CIEDE2000, the catalog is small enough to scan
+ * @param color - #RRGGBB hex or CIELAB color
+ * @returns The closest paints, closest first
+ */
+export async function findClosestPaints(
+	color: string | LAB,
+	{ limit = 5, brand }: { limit?: number; brand?: string } = {}
+): Promise<PaintMatch[]> {
+	const target = typeof color === "string" ? hexToLab(color) : color;
+	if (!target) {
+		throw new Error(`Invalid color: ${color}`);
+	}
+
+	const db = await getDatabase();
+	const statement = brand
+		? db.prepare(`SELECT ${paintColumns} FROM paints WHERE brand = ?`)
+		: db.prepare(`SELECT ${paintColumns} FROM paints`);
+	const count = Math.min(MAX_CLOSEST_PAINTS, Math.max(1, Math.floor(limit)));
+
+	// Keep the closest paints sorted while scanning
+	const rows = (
+		brand ? statement.iterate(brand) : statement.iterate()
+	) as IterableIterator<PaintRow>;
+	const matches: { row: PaintRow; deltaE: number }[] = [];
+	for (const row of rows) {
+		const lab = hexToLab(row.hex);
+		if (!lab) continue;
+
+		const deltaE = deltaE2000(target, lab);
+		if (matches.length === count && deltaE >= matches[count - 1].deltaE) {
+			continue;
+		}
+
+		let index = matches.length;
+		while (index > 0 && matches[index - 1].deltaE > deltaE) index--;
+		matches.splice(index, 0, { row, deltaE });
+		if (matches.length > count) matches.pop();
+	}
+
+	return matches.map(({ row, deltaE }) => ({ paint: toPaint(row), deltaE }));
+}
+
+/**
+ * List the brands in the catalog with their collections
+ */
+export async function listPaintBrands(): Promise<
+	{ brand: string; collections: string[] }[]
+> {
+	const db = await getDatabase();
+	const rows = db
+		.prepare(
+			`SELECT DISTINCT brand, collection FROM paints
+			ORDER BY brand COLLATE NOCASE, collection COLLATE NOCASE`
+		)
+		.all() as { brand: string; collection: string | null }[];
+
+	const brands: { brand: string; collections: string[] }[] = [];
+	for (const row of rows) {
+		let entry = brands[brands.length - 1];
+		if (!entry || entry.brand !== row.brand) {
+			entry = { brand: row.brand, collections: [] };
+			brands.push(entry);
+		}
+		if (row.collection) entry.collections.push(row.collection);
+	}
+	return brands;
+}
+
+/**
+ * Add paints to the catalog in one transaction
+ * Paints that already exist with the same brand and code are updated
+ * @returns The number of added and updated paints
+ */
+export async function importPaints(
+	paints: PaintInput[]
+): Promise<{ added: number; updated: number }> {
+	const db = await getDatabase();
+	const findPaint = db.prepare(
+		"SELECT id FROM paints WHERE brand = ? AND code = ?"
+	);
+	const insertPaint = db.prepare(
+		`INSERT INTO paints (id, brand, collection, code, name, hex, lrv, finishes)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+	);
+	const updatePaint = db.prepare(
+		`UPDATE paints SET collection = ?, name = ?, hex = ?, lrv = ?, finishes = ?,
+		updatedAt = CURRENT_TIMESTAMP WHERE id = ?`
+	);
+
+	let added = 0;
+	let updated = 0;
+	db.transaction(() => {
+		for (const paint of paints) {
+			const finishes = JSON.stringify(paint.finishes);
+			const existing = findPaint.get(paint.brand, paint.code) as
+				| { id: string }
+				| undefined;
+
+			if (existing) {
+				updatePaint.run(
+					paint.collection,
+					paint.name,
+					paint.hex,
+					paint.lrv,
+					finishes,
+					existing.id
+				);
+				updated++;
+			} else {
+				insertPaint.run(
+					uuidv4(),
+					paint.brand,
+					paint.collection,
+					paint.code,
+					paint.name,
+					paint.hex,
+					paint.lrv,
+					finishes
+				);
+				added++;
+			}
+		}
+	})();
+
+	return { added, updated };
+}
+
+/**
+ * Get the identity of a paint to record on a render
+ */
+export function toRenderPaint({
+	id,
+	brand,
+	code,
+	name,
+	hex,
+}: Paint): RenderPaint {
+	return { id, brand, code, name, hex };
+}
+
+/**
+ * Resolve the form value of a color choice to a validated color
+ * Only colors resolved here should end up in a prompt
+ */
+export async function resolveColorChoice(
+	value: string
+): Promise<ResolvedColor> {
+	const choice = parseChoiceValue(value);
+
+	if (choice?.kind === "paint") {
+		const paint = await getPaint(choice.paintId);
+		if (!paint) {
+			return { ok: false, error: "Please select a paint from the catalog." };
+		}
+		return {
+			ok: true,
+			colorHex: paint.hex,
+			paint: toRenderPaint(paint),
+			finishes: paint.finishes,
+		};
+	}
+
+	const rgb = choice && parseColor(choice.color);
+	if (!rgb) {
+		return {
+			ok: false,
+			error: "Please enter a valid hex, rgb() or hsl() color.",
+		};
+	}
+	return { ok: true, colorHex: rgbToHex(rgb), paint: null, finishes: [] };
+}
@@ -0,0 +1,68 @@
+/**
+ * Paint catalog types shared by the server and the paint picker
+ */
+
+export type PaintFinish =
+	| "flat"
+	| "matte"
+	| "eggshell"
+	| "satin"
+	| "semi-gloss"
+	| "gloss"
+	| "limewash"
+	| "masonry"
+	| "stain";
+
+export const paintFinishes: PaintFinish[] = [
+	"flat",
+	"matte",
+	"eggshell",
+	"satin",
+	"semi-gloss",
+	"gloss",
+	"limewash",
+	"masonry",
+	"stain",
+];
+
+/** How a finish looks, as it is described in prompts */
+export const finishDescriptions: Record<PaintFinish, string> = {
+	flat: "a completely flat finish without any sheen",
+	matte: "a matte finish with almost no sheen",
+	eggshell: "an eggshell finish with a very soft, low sheen",
+	satin: "a satin finish with a soft, velvety sheen",
+	"semi-gloss": "a semi-gloss finish with a noticeable shine",
+	gloss: "a gloss finish with a high, reflective shine",
+	limewash:
+		"a limewash finish with a soft, cloudy, mottled texture and visible brush movement",
+	masonry:
+		"a flat, breathable masonry paint finish that follows the texture of the brick, stone or render underneath",
+	stain:
+		"a semi-transparent wood stain finish that lets the grain of the wood show through",
+};
+
+/**
+ * Whether a value is a known finish
+ */
+export function isPaintFinish(value: string): value is PaintFinish {
+	return (paintFinishes as string[]).includes(value);
+}
+
+export type Paint = {
+	id: string;
+	brand: string;
+	collection: string | null;
+	code: string;
+	name: string;
+	/** Uppercase #RRGGBB color */
+	hex: string;
+	/** Light reflectance value, 0 (black) to 100 (white) */
+	lrv: number | null;
+	/** Finishes the paint is available in */
+	finishes: PaintFinish[];
+};
+
+export type PaintInput = Omit<Paint, "id">;
+
+/** Identity of the paint a render was made with */
+export type RenderPaint = Pick<Paint, "id" | "brand" | "code" | "name" | "hex">;
@@ -0,0 +1,208 @@
+/**
+ * Versioned prompt templates for server-side operations
+ * Every template name has numbered versions in the prompt_templates table,
+ * renders use the active version. New versions are validated before they
+ * are stored, so the active version can always be rendered.
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { getDatabase } from "./sqlite.server";
+import { defaultPromptTemplates } from "./prompts";
+import {
+	renderTemplate,
+	validateTemplate,
+	type TemplateVariables,
+} from "./prompt-templates";
+
+export type PromptTemplate = {
+	name: string;
+	version: number;
+	body: string;
+	isActive: boolean;
+	/** Shipped with the application rather than added by an admin */
+	isDefault: boolean;
+	note: string | null;
+	createdAt: string;
+};
+
+/** Template version a prompt was rendered from */
+export type PromptTemplateRef = {
+	name: string;
+	version: number;
+};
+
+export type RenderedPrompt =
+	| { ok: true; prompt: string; template: PromptTemplateRef }
+	| { ok: false; error: string };
+
+export type TemplateChangeResult =
+	| { ok: true; template: PromptTemplate }
+	| { ok: false; error: string; code: "not_found" | "invalid_template" };
+
+type PromptTemplateRow = Omit<PromptTemplate, "isActive" | "isDefault"> & {
+	isActive: number;
+	isDefault: number;
+};
+
+const templateNames = defaultPromptTemplates.map(({ name }) => name);
+
+function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+	return {
+		...row,
+		isActive: row.isActive === 1,
+		isDefault: row.isDefault === 1,
+	};
+}
+
+/**
+ * List the versions of all templates, or of one template, newest first
+ */
+export async function listPromptTemplates(
+	name?: string
+): Promise<PromptTemplate[]> {
+	const db = await getDatabase();
+	const rows = (
+		name
+			? db
+					.prepare(
+						"SELECT * FROM prompt_templates WHERE name = ? ORDER BY version DESC"
+					)
+					.all(name)
+			: db
+					.prepare("SELECT * FROM prompt_templates ORDER BY name, version DESC")
+					.all()
+	) as PromptTemplateRow[];
+
+	return rows.map(toPromptTemplate);
+}
+
+/**
+ * Get the active version of a template
+ * @returns The template, or null if the template has no active version
+ */
+export async function getActiveTemplate(
+	name: string
+): Promise<PromptTemplate | null> {
+	const db = await getDatabase();
+	const row = db
+		.prepare("SELECT * FROM prompt_templates WHERE name = ? AND isActive = 1")
+		.get(name) as PromptTemplateRow | undefined;
+
+	return row ? toPromptTemplate(row) : null;
+}
+
+/**
+ * Render the active version of a template with the given variables
+ */
+export async function renderPrompt(
+	name: string,
+	variables: TemplateVariables
+): Promise<RenderedPrompt> {
+	const template = await getActiveTemplate(name);
+	if (!template) {
+		return {
+			ok: false,
+			error: `Prompt template ${name} has no active version`,
+		};
+	}
+
+	const rendered = renderTemplate(template.body, variables);
+	if (!rendered.ok) {
+		return {
+			ok: false,
+			error: `Prompt template ${name} v${template.version}: ${rendered.error}`,
+		};
+	}
+
+	return {
+		ok: true,
+		prompt: rendered.prompt,
+		template: { name, version: template.version },
+	};
+}
+
+async function setActiveVersion(name: string, version: number) {
+	const db = await getDatabase();
+	db.transaction(() => {
+		db.prepare(
+			"UPDATE prompt_templates SET isActive = 0 WHERE name = ? AND isActive = 1"
+		).run(name);
+		db.prepare(
+			"UPDATE prompt_templates SET isActive = 1 WHERE name = ? AND version = ?"
+		).run(name, version);
+	})();
+}
+
+/**
+ * Store a new version of a template
+ * @param activate - Use the new version for renders from now on
+ */
+export async function addTemplateVersion(
+	name: string,
+	body: string,
+	{
+		note = null,
+		activate = false,
+	}: { note?: string | null; activate?: boolean } = {}
+): Promise<TemplateChangeResult> {
+	if (!templateNames.includes(name)) {
+		return {
+			ok: false,
+			error: `Unknown prompt template ${name}, expected one of: ${templateNames.join(
+				", "
+			)}`,
+			code: "not_found",
+		};
+	}
+
+	const errors = validateTemplate(body);
+	if (errors.length > 0) {
+		return { ok: false, error: errors.join("; "), code: "invalid_template" };
+	}
+
+	const db = await getDatabase();
+	const row = db
+		.prepare(
+			`INSERT INTO prompt_templates (name, version, body, note)
+			VALUES (?, (SELECT COALESCE(MAX(version), 0) + 1 FROM prompt_templates WHERE name = ?), ?, ?)
+			RETURNING *`
+		)
+		.get(name, name, body, note) as PromptTemplateRow;
+
+	if (activate) {
+		await setActiveVersion(name, row.version);
+		row.isActive = 1;
+	}
+	console.log(
+		`Added prompt template ${name} v${row.version}${
+			activate ? " (active)" : ""
+		}`
+	);
+
+	return { ok: true, template: toPromptTemplate(row) };
+}
+
+/**
+ * Make a version of a template the one renders use
+ */
+export async function activateTemplateVersion(
+	name: string,
+	version: number
+): Promise<TemplateChangeResult> {
+	const db = await getDatabase();
+	const row = db
+		.prepare("SELECT * FROM prompt_templates WHERE name = ? AND version = ?")
+		.get(name, version) as PromptTemplateRow | undefined;
+
+	if (!row) {
+		return {
+			ok: false,
+			error: `Prompt template ${name} has no version ${version}`,
+			code: "not_found",
+		};
+	}
+
+	await setActiveVersion(name, version);
+	console.log(`Activated prompt template ${name} v${version}`);
+
+	return { ok: true, template: { ...toPromptTemplate(row), isActive: true } };
+}
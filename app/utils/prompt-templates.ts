@@ -0,0 +1,148 @@
+/**
+ * Prompt templates with typed variables
+ * Templates reference variables as {{name}}, only the variables defined in
+ * templateVariables can be used
+ */
+import {
+	finishDescriptions,
+	isPaintFinish,
+	paintFinishes,
+	type PaintFinish,
+} from "./paints";
+import { isSurfaceType, surfaceLabels, type SurfaceType } from "./surfaces";
+
+export type TemplateVariables = {
+	/** Name of the paint, or of the color for custom colors */
+	colorName?: string;
+	/** Color as #RRGGBB */
+	hex?: string;
+	/** Described as it looks, e.g. "a matte finish with almost no sheen" */
+	finish?: PaintFinish;
+	surface?: SurfaceType;
+	/** Kind of room in the photo, e.g. "kitchen" */
+	roomType?: string;
+};
+
+export type TemplateVariable = keyof TemplateVariables;
+
+export type RenderedTemplate =
+	| { ok: true; prompt: string }
+	| { ok: false; error: string };
+
+type VariableDefinition = {
+	description: string;
+	/** Whether a value is valid for the variable */
+	isValid: (value: string) => boolean;
+	/** Text that replaces the variable in a prompt */
+	format?: (value: string) => string;
+};
+
+const MAX_TEXT_LENGTH = 100;
+
+// Free text is kept short and can't contain template syntax
+const isText = (value: string) =>
+	value.trim().length > 0 &&
+	value.length <= MAX_TEXT_LENGTH &&
+	!/[{}]/.test(value);
+
+export const templateVariables: Record<TemplateVariable, VariableDefinition> = {
+	colorName: {
+		description: "Name of the paint or color",
+		isValid: isText,
+	},
+	hex: {
+		description: "Color as #RRGGBB",
+		isValid: (value) => /^#[0-9A-F]{6}$/i.test(value),
+		format: (value) => value.toUpperCase(),
+	},
+	finish: {
+		description: `Paint finish: ${paintFinishes.join(", ")}`,
+		isValid: isPaintFinish,
+		format: (value) => finishDescriptions[value as PaintFinish],
+	},
+	surface: {
+		description: "Surface that is painted",
+		isValid: isSurfaceType,
+		format: (value) => surfaceLabels[value as SurfaceType].toLowerCase(),
+	},
+	roomType: {
+		description: "Kind of room in the photo",
+		isValid: isText,
+	},
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Get the names of the variables a template references, in order of first use
+ */
+export function getTemplateVariables(body: string): string[] {
+	const names: string[] = [];
+	for (const match of body.matchAll(VARIABLE_PATTERN)) {
+		if (!names.includes(match[1])) names.push(match[1]);
+	}
+	return names;
+}
+
+/**
+ * Check a template for syntax errors and unknown variables
+ * @returns The problems found, empty when the template is valid
+ */
+export function validateTemplate(body: string): string[] {
+	const errors: string[] = [];
+
+	if (!body.trim()) {
+		errors.push("The template is empty");
+	}
+	// Braces left after removing the variables are not closed or opened correctly
+	if (/[{}]/.test(body.replace(VARIABLE_PATTERN, ""))) {
+		errors.push("The template contains unbalanced braces");
+	}
+
+	for (const name of getTemplateVariables(body)) {
+		if (!(name in templateVariables)) {
+			errors.push(
+				`Unknown variable {{${name}}}, expected one of: ${Object.keys(
+					templateVariables
+				).join(", ")}`
+			);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Substitute the variables of a template
+ * Fails when the template is invalid, or a variable it uses is missing or has
+ * an invalid value
+ */
+export function renderTemplate(
+	body: string,
+	variables: TemplateVariables
+): RenderedTemplate {
+	const errors = validateTemplate(body);
+	if (errors.length > 0) {
+		return { ok: false, error: errors.join("; ") };
+	}
+
+	for (const name of getTemplateVariables(body)) {
+		const value = variables[name as TemplateVariable];
+		const definition = templateVariables[name as TemplateVariable];
+		if (value === undefined) {
+			errors.push(`Missing variable {{${name}}}`);
+		} else if (!definition.isValid(value)) {
+			errors.push(`Invalid value for {{${name}}}: ${definition.description}`);
+		}
+	}
+	if (errors.length > 0) {
+		return { ok: false, error: errors.join("; ") };
+	}
+
+	const prompt = body.replace(VARIABLE_PATTERN, (_, name: string) => {
+		const value = variables[name as TemplateVariable]!;
+		const { format } = templateVariables[name as TemplateVariable];
+		return format ? format(value) : value;
+	});
+	return { ok: true, prompt };
+}
@@ -1,18 +1,75 @@
-export const wallMaskPrompt =
+/**
+ * Default prompt templates, stored in the database by its migrations
+ * The prompts that are used can be changed in the prompt_templates table
+ */
+import { surfaceTypes, type SurfaceType } from "./surfaces";
+
+const wallMaskPrompt =
 	"Using the provided image, generate a black and white segmentation mask that defines only the visible interior walls. Wall areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including furniture, people, pets, floors, ceilings, windows, curtains, doors, moldings, artwork, mirrors, lights, and any non-wall surfaces — should be completely black (0). This mask will be used to replace wall paint or wallpaper, so precise and accurate delineation of wall surfaces is essential.";
 
-export const wallPrompt =
-	"Edit the provided image by replacing the color of the walls with this specific color: {{color}}. Keep the rest of the image completely unchanged. The walls should be smooth and realistic. The walls should have the texture of a wallpaint. The walls should be in the same shape as the original image. Only change the color of the walls. Keep the lighting and other elements of the image unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the walls.";
+const wallPrompt =
+	"Edit the provided image by replacing the color of the walls with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image completely unchanged. The walls should be smooth and realistic. The walls should have the texture and sheen of wall paint in {{finish}}. The walls should be in the same shape as the original image. Only change the color of the walls. Keep the lighting of the {{roomType}} and the other elements of the image unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the walls.";
+
+const surfaceMaskPrompts: Record<SurfaceType, string> = {
+	walls: wallMaskPrompt,
+	ceiling:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible ceiling. Ceiling areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including walls, floors, lights, ceiling fans, beams, moldings, windows, doors, furniture and people — should be completely black (0). This mask will be used to repaint the ceiling, so precise and accurate delineation of the ceiling is essential.",
+	accent_wall:
+		"Using the provided image, generate a black and white segmentation mask that defines only the single most prominent wall facing the camera. That wall should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the other walls, floors, ceilings, windows, curtains, doors, moldings, artwork, furniture and people — should be completely black (0). This mask will be used to paint an accent wall, so precise and accurate delineation of that one wall is essential.",
+	trim: "Using the provided image, generate a black and white segmentation mask that defines only the visible trim: skirting boards, baseboards, crown moldings, chair rails and window and door casings. Trim areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including walls, floors, ceilings, doors, windows, furniture and people — should be completely black (0). This mask will be used to repaint the trim, so precise and accurate delineation of the trim is essential.",
+	doors:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible door leaves. Door areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including door handles, hinges, glass panes, casings, walls, floors, ceilings, windows, furniture and people — should be completely black (0). This mask will be used to repaint the doors, so precise and accurate delineation of the doors is essential.",
+	facade:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible exterior walls of the building — brick, stone, render, stucco, concrete or wood cladding. Facade areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the roof, fascia, soffits, gutters, downpipes, windows, window frames, doors, garage doors, balcony railings, plants, trees, sky, ground, vehicles and people — should be completely black (0). This mask will be used to repaint the facade, so precise and accurate delineation of the exterior walls is essential.",
+	roof: "Using the provided image, generate a black and white segmentation mask that defines only the visible roof surfaces — tiles, slates, shingles or metal roofing. Roof areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including chimneys, skylights, solar panels, gutters, fascia, walls, windows, trees, sky and people — should be completely black (0). This mask will be used to recolor the roof, so precise and accurate delineation of the roof is essential.",
+	fascia:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible fascia boards, bargeboards and soffits along the edges of the roof. These areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the roof covering, gutters, downpipes, walls, windows, doors, trees, sky and people — should be completely black (0). This mask will be used to repaint the fascia, so precise and accurate delineation of the boards is essential.",
+	gutters:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible gutters and downpipes. These areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including fascia boards, the roof, walls, windows, doors, trees, sky and people — should be completely black (0). This mask will be used to repaint the gutters, so precise and accurate delineation of the gutters and downpipes is essential.",
+	window_frames:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible window frames, sashes, mullions and shutters on the outside of the building. These areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including the glass, reflections in it, curtains behind it, window sills, walls, doors, the roof, plants, sky and people — should be completely black (0). This mask will be used to repaint the window frames, so precise and accurate delineation of the frames is essential.",
+	exterior_doors:
+		"Using the provided image, generate a black and white segmentation mask that defines only the visible front doors, back doors and garage doors of the building. Door areas should be in white (255), with anti-aliasing at edges for realistic blending. All other elements — including door handles, letterboxes, house numbers, glass panes, door frames, walls, windows, steps, plants, vehicles and people — should be completely black (0). This mask will be used to repaint the doors, so precise and accurate delineation of the doors is essential.",
+};
+
+const surfacePrompts: Record<SurfaceType, string> = {
+	walls: wallPrompt,
+	ceiling:
+		"Edit the provided image by replacing the color of the ceiling with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image completely unchanged. The ceiling should be smooth and realistic, with the texture and sheen of ceiling paint in {{finish}}. Keep its shape, the lights and fixtures on it and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the ceiling.",
+	accent_wall:
+		"Edit the provided image by replacing the color of the masked wall with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the other walls, completely unchanged. The wall should be smooth and realistic, with the texture and sheen of wall paint in {{finish}}. Keep its shape and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the accent wall.",
+	trim: "Edit the provided image by replacing the color of the trim — skirting boards, moldings and casings — with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image completely unchanged. The trim should look freshly painted, with the sheen of {{finish}}. Keep its profile and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the trim.",
+	doors:
+		"Edit the provided image by replacing the color of the doors with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including handles, hinges and glass, completely unchanged. The doors should look freshly painted, with the sheen of {{finish}}. Keep their panels, shape and the lighting of the {{roomType}} unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+	facade:
+		"Edit the provided image by repainting the exterior walls of the building with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the roof, windows, doors, plants, sky and ground, completely unchanged. The paint should have {{finish}}. Keep the texture of the wall material visible through the paint: on brick or stone, keep the shape of every brick or stone and the mortar joints; on render or stucco, keep its grain and any cracks or weathering; on wood cladding, keep the boards, their shadow lines and the wood grain. Keep the shape of the building, the daylight, shadows and weather of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the facade.",
+	roof: "Edit the provided image by recoloring the roof with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including chimneys, skylights, solar panels, walls, sky and trees, completely unchanged. The roof should look like freshly coated roofing with {{finish}}. Keep the shape, rows and overlaps of every tile, slate or shingle, or the seams of metal roofing, and keep the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the roof.",
+	fascia:
+		"Edit the provided image by repainting the fascia boards, bargeboards and soffits with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the roof, gutters and walls, completely unchanged. The boards should look freshly painted, with {{finish}}, and keep their wood grain or the surface of their material. Keep their shape and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the fascia.",
+	gutters:
+		"Edit the provided image by repainting the gutters and downpipes with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the fascia, roof and walls, completely unchanged. The gutters should look freshly painted, with {{finish}}. Keep their shape, brackets and joints and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the gutters.",
+	window_frames:
+		"Edit the provided image by repainting the window frames, sashes and shutters with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including the glass, reflections in it and the walls, completely unchanged. The frames should look freshly painted, with {{finish}}; wooden frames keep their wood grain. Keep their profiles and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the window frames.",
+	exterior_doors:
+		"Edit the provided image by repainting the front and garage doors with the paint color {{colorName}}, exactly {{hex}}. Keep the rest of the image, including handles, letterboxes, house numbers, glass and door frames, completely unchanged. The doors should look freshly painted, with {{finish}}; wooden doors keep their wood grain. Keep their panels, shape and the daylight and shadows of the photo unchanged. The image should be ultrarealistic photograph, matching the style of the provided image. Use the mask to replace the color of the doors.",
+};
+
+/**
+ * Get the name of the template that generates the mask of a surface
+ */
+export function getMaskTemplateName(surface: SurfaceType) {
+	return `mask.${surface}`;
+}
+
+/**
+ * Get the name of the template that paints a surface
+ */
+export function getPaintTemplateName(surface: SurfaceType) {
+	return `paint.${surface}`;
+}
 
-// Paint colors for the color picker
-export const paintColors = [
-	{ name: "Arctic White", hex: "#F8F8F8" },
-	{ name: "Mint Green", hex: "#98FB98" },
-	{ name: "Sage", hex: "#BCB88A" },
-	{ name: "Blush Pink", hex: "#FFE4E1" },
-	{ name: "Lavender", hex: "#E6E6FA" },
-	{ name: "Pale Yellow", hex: "#FFFFE0" },
-	{ name: "Forest Green", hex: "#228B22" },
-	{ name: "Burgundy", hex: "#800020" },
-	{ name: "Charcoal", hex: "#36454F" },
-];
+export const defaultPromptTemplates: { name: string; body: string }[] =
+	surfaceTypes.flatMap((surface) => [
+		{ name: getMaskTemplateName(surface), body: surfaceMaskPrompts[surface] },
+		{ name: getPaintTemplateName(surface), body: surfacePrompts[surface] },
+	]);
@@ -0,0 +1,162 @@
+/**
+ * Automatic quality checks of finished renders
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import { deltaE2000, hexToLab, rgbToLab } from "./color";
+import type { SurfaceType } from "./surfaces";
+
+export type SurfaceQuality = {
+	surface: SurfaceType;
+	/** CIEDE2000 difference of the painted color to the requested color */
+	colorDeltaE: number;
+};
+
+export type RenderQuality = {
+	/** Painted surfaces, wallpapers have no single color to check */
+	surfaces: SurfaceQuality[];
+	/** Mean change of the color channels outside the masks, from 0 to 255 */
+	outsideDrift: number;
+	/** Whether every score is within its threshold */
+	passed: boolean;
+	/** Whether the surfaces were painted again because a check failed */
+	retried: boolean;
+};
+
+/** Surface as it was painted, with the mask it was painted in */
+export type MeasuredSurface = {
+	surface: SurfaceType;
+	/** Requested color, null for wallpapers */
+	colorHex: string | null;
+	mask: Buffer;
+};
+
+// Renders are measured at most this large, which keeps the checks fast
+const MAX_MEASURE_SIZE = 1024;
+
+/**
+ * Read the quality settings from the environment
+ * QUALITY_MAX_DELTA_E (10), QUALITY_MAX_DRIFT (4) and QUALITY_RETRY, which
+ * paints a render again once when a check fails if it is "true"
+ */
+export function getQualityConfig() {
+	return {
+		maxDeltaE: Number(process.env.QUALITY_MAX_DELTA_E) || 10,
+		maxDrift: Number(process.env.QUALITY_MAX_DRIFT) || 4,
+		retry: process.env.QUALITY_RETRY === "true",
+	};
+}
+
+/**
+ * Whether a render is better than another by its quality checks
+ * Renders that fail are compared by the score that is furthest above its
+ * threshold
+ */
+export function isBetterQuality(
+	candidate: Omit<RenderQuality, "retried">,
+	current: Omit<RenderQuality, "retried">
+): boolean {
+	if (candidate.passed !== current.passed) return candidate.passed;
+
+	const { maxDeltaE, maxDrift } = getQualityConfig();
+	const getWorstScore = (quality: Omit<RenderQuality, "retried">) =>
+		Math.max(
+			quality.outsideDrift / maxDrift,
+			...quality.surfaces.map(({ colorDeltaE }) => colorDeltaE / maxDeltaE)
+		);
+	return getWorstScore(candidate) < getWorstScore(current);
+}
+
+function median(values: number[]): number {
+	const sorted = values.slice().sort((first, second) => first - second);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2
+		? sorted[middle]
+		: (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Measure how well a render shows the requested colors and how much it
+ * changed outside the masks
+ * The median color of every painted surface is compared at the lightness of
+ * the requested color, so shadows and lighting in the photo don't count as
+ * color errors.
+ * @param original - Image the surfaces were painted on
+ * @param result - Finished render
+ * @param surfaces - Painted surfaces with their masks
+ */
+export async function measureQuality(
+	original: Buffer,
+	result: Buffer,
+	surfaces: MeasuredSurface[]
+): Promise<Omit<RenderQuality, "retried">> {
+	const metadata = await sharp(original).metadata();
+	const scale = Math.min(
+		1,
+		MAX_MEASURE_SIZE / Math.max(metadata.width!, metadata.height!)
+	);
+	const width = Math.max(1, Math.round(metadata.width! * scale));
+	const height = Math.max(1, Math.round(metadata.height! * scale));
+
+	const readPixels = (image: Buffer) =>
+		sharp(image)
+			.resize(width, height, { fit: "fill" })
+			.flatten({ background: "#000000" })
+			.raw()
+			.toBuffer();
+	const readMask = (mask: Buffer) =>
+		sharp(mask)
+			.resize(width, height, { fit: "fill" })
+			.flatten({ background: "#000000" })
+			.greyscale()
+			.raw()
+			.toBuffer();
+
+	const before = await readPixels(original);
+	const after = await readPixels(result);
+	const { maxDeltaE, maxDrift } = getQualityConfig();
+
+	// Pixels any mask touches, edges included, are not checked for drift
+	const masked = new Uint8Array(width * height);
+	const surfaceScores: SurfaceQuality[] = [];
+	for (const { surface, colorHex, mask } of surfaces) {
+		const weights = await readMask(mask);
+		const target = colorHex ? hexToLab(colorHex) : null;
+		const aValues: number[] = [];
+		const bValues: number[] = [];
+		for (let i = 0; i < weights.length; i++) {
+			if (weights[i] > 0) masked[i] = 1;
+			if (!target || weights[i] < 128) continue;
+			const color = rgbToLab({
+				r: after[i * 3],
+				g: after[i * 3 + 1],
+				b: after[i * 3 + 2],
+			});
+			aValues.push(color.a);
+			bValues.push(color.b);
+		}
+
+		if (!target || aValues.length === 0) continue;
+		const measured = { l: target.l, a: median(aValues), b: median(bValues) };
+		surfaceScores.push({ surface, colorDeltaE: deltaE2000(measured, target) });
+	}
+
+	let drift = 0;
+	let outside = 0;
+	for (let i = 0; i < masked.length; i++) {
+		if (masked[i]) continue;
+		for (let c = i * 3; c < i * 3 + 3; c++) {
+			drift += Math.abs(before[c] - after[c]);
+		}
+		outside++;
+	}
+	const outsideDrift = outside > 0 ? drift / (outside * 3) : 0;
+
+	return {
+		surfaces: surfaceScores,
+		outsideDrift,
+		passed:
+			outsideDrift <= maxDrift &&
+			surfaceScores.every(({ colorDeltaE }) => colorDeltaE <= maxDeltaE),
+	};
+}
@@ -0,0 +1,161 @@
+/**
+ * Local, non-AI wall recoloring for server-side operations
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import { hexToRgb, labToRgb, rgbToLab } from "./color";
+import type { PaintFinish } from "./paints";
+
+type FinishShading = {
+	/** Scales how far highlights rise above the average lightness */
+	highlights: number;
+	/** Strength of the cloudy texture, in lightness units */
+	mottling: number;
+};
+
+// Sheen makes highlights brighter, flat paint diffuses them
+const finishShading: Record<PaintFinish, FinishShading> = {
+	flat: { highlights: 0.5, mottling: 0 },
+	matte: { highlights: 0.7, mottling: 0 },
+	eggshell: { highlights: 0.85, mottling: 0 },
+	satin: { highlights: 1, mottling: 0 },
+	"semi-gloss": { highlights: 1.25, mottling: 0 },
+	gloss: { highlights: 1.5, mottling: 0 },
+	limewash: { highlights: 0.6, mottling: 6 },
+	masonry: { highlights: 0.5, mottling: 2 },
+	stain: { highlights: 0.9, mottling: 0 },
+};
+
+// Keeps the shading of the photo as it is
+const neutralShading: FinishShading = { highlights: 1, mottling: 0 };
+
+// Cells of the mottling texture per image side
+const MOTTLING_CELLS = 12;
+
+/**
+ * Create a smooth, deterministic noise function with values from -1 to 1
+ * Random values on a grid are interpolated, so the texture is cloudy
+ */
+function createMottling(width: number, height: number) {
+	const cellSize = Math.max(width, height) / MOTTLING_CELLS;
+	const columns = Math.ceil(width / cellSize) + 1;
+	const rows = Math.ceil(height / cellSize) + 1;
+
+	// Fixed seed, so the same photo always gets the same texture
+	let seed = 0x9e3779b9;
+	const grid = new Float32Array(columns * rows);
+	for (let i = 0; i < grid.length; i++) {
+		seed = (Math.imul(seed ^ (seed >>> 15), 0x2c1b3c6d) + 0x6d2b79f5) >>> 0;
+		grid[i] = (seed / 0xffffffff) * 2 - 1;
+	}
+
+	const smooth = (t: number) => t * t * (3 - 2 * t);
+	return (x: number, y: number) => {
+		const gx = x / cellSize;
+		const gy = y / cellSize;
+		const column = Math.floor(gx);
+		const row = Math.floor(gy);
+		const tx = smooth(gx - column);
+		const ty = smooth(gy - row);
+		const at = (c: number, r: number) => grid[r * columns + c];
+
+		const top = at(column, row) * (1 - tx) + at(column + 1, row) * tx;
+		const bottom =
+			at(column, row + 1) * (1 - tx) + at(column + 1, row + 1) * tx;
+		return top * (1 - ty) + bottom * ty;
+	};
+}
+
+/**
+ * Repaint the white area of a mask with the target color
+ * The target's chroma replaces the original, while the original lightness is
+ * shifted so the wall's average lightness matches the target. This keeps the
+ * shading and texture of the photo intact. The finish scales the highlights
+ * by its sheen, limewash and masonry paint also add a cloudy texture.
+ * @param image - Original image (any format sharp can read)
+ * @param mask - Black and white mask where white areas are repainted
+ * @param colorHex - Target color as #RRGGBB
+ * @param finish - Finish of the paint, null keeps the shading of the photo
+ * @returns PNG encoded result at the original image size
+ */
+export async function recolorWalls(
+	image: Buffer,
+	mask: Buffer,
+	colorHex: string,
+	finish: PaintFinish | null = null
+): Promise<Buffer> {
+	const target = hexToRgb(colorHex);
+	if (!target) {
+		throw new Error(`Invalid color: ${colorHex}`);
+	}
+	const targetLab = rgbToLab(target);
+
+	const { data: pixels, info } = await sharp(image)
+		.removeAlpha()
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+	const { width, height } = info;
+
+	const weights = await sharp(mask)
+		.resize(width, height, { fit: "fill" })
+		.flatten({ background: "#000000" })
+		.greyscale()
+		.raw()
+		.toBuffer();
+
+	const lightness = new Float32Array(width * height);
+	let weightedLightness = 0;
+	let totalWeight = 0;
+	for (let i = 0; i < lightness.length; i++) {
+		const offset = i * 3;
+		lightness[i] = rgbToLab({
+			r: pixels[offset],
+			g: pixels[offset + 1],
+			b: pixels[offset + 2],
+		}).l;
+		weightedLightness += lightness[i] * weights[i];
+		totalWeight += weights[i];
+	}
+
+	if (totalWeight === 0) {
+		throw new Error("The mask does not cover any part of the image");
+	}
+
+	const averageLightness = weightedLightness / totalWeight;
+	const shading = finish ? finishShading[finish] : neutralShading;
+	const mottling = shading.mottling > 0 ? createMottling(width, height) : null;
+
+	const output = Buffer.from(pixels);
+	for (let i = 0; i < lightness.length; i++) {
+		const weight = weights[i] / 255;
+		if (weight === 0) continue;
+
+		let deviation = lightness[i] - averageLightness;
+		if (deviation > 0) deviation *= shading.highlights;
+		if (mottling) {
+			deviation +=
+				shading.mottling * mottling(i % width, Math.floor(i / width));
+		}
+
+		const painted = labToRgb({
+			l: Math.min(100, Math.max(0, targetLab.l + deviation)),
+			a: targetLab.a,
+			b: targetLab.b,
+		});
+
+		const offset = i * 3;
+		output[offset] = Math.round(
+			pixels[offset] * (1 - weight) + painted.r * weight
+		);
+		output[offset + 1] = Math.round(
+			pixels[offset + 1] * (1 - weight) + painted.g * weight
+		);
+		output[offset + 2] = Math.round(
+			pixels[offset + 2] * (1 - weight) + painted.b * weight
+		);
+	}
+
+	return sharp(output, { raw: { width, height, channels: 3 } })
+		.png()
+		.toBuffer();
+}
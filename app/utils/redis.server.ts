@@ -2,9 +2,16 @@
  * Redis client utility for server-side operations
  * This file should only be imported in server-side code (actions, loaders)
  */
-import { createClient } from "redis";
-
-const EXPIRY_SECONDS = 60 * 60 * 24 * 7;
+import { createClient, RESP_TYPES } from "redis";
+import {
+	matchesImageQuery,
+	parseStoredValue,
+	toImageList,
+	toStoredData,
+	type ImageStore,
+	type ListedImage,
+	type StoredImage,
+} from "./image-store.server";
 
 // Create Redis client singleton
 let redisClient: ReturnType<typeof createClient> | null = null;
@@ -32,119 +39,152 @@ async function getRedisClient() {
 }
 
 /**
- * Store an image in Redis
- * @param imageId - Unique identifier for the image
- * @param imageData - Image data as base64 string or Buffer
- * @param metadata - Optional metadata about the image
- * @param expirySeconds - Optional TTL in seconds (0 = no expiry)
+ * Get the Redis client with replies as Buffers, so image data is read as bytes
  */
-export async function storeImage(
-	imageId: string,
-	imageData: string | Buffer | null,
-	metadata: Record<string, any> = {}
-) {
+async function getBufferClient() {
 	const client = await getRedisClient();
+	return client.withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer });
+}
 
-	// Convert Buffer to base64 string if needed
-	const imageStr = Buffer.isBuffer(imageData)
-		? imageData.toString("base64")
-		: imageData;
-
-	// Store image in a hash with metadata
-	const imageKey = `image:${imageId}`;
-
-	// Use multi to perform operations atomically
-	const multi = client.multi();
-
-	console.log(
-		"storing image in Redis with key:",
-		imageKey,
-		", ",
-		imageStr?.substring(0, 100) || "[empty]"
-	);
-	if (imageStr) multi.hSet(imageKey, "data", imageStr);
-
-	// Store metadata fields
-	for (const [key, value] of Object.entries(metadata)) {
-		multi.hSet(imageKey, key, JSON.stringify(value));
+/**
+ * Close the Redis connection, if one was opened
+ */
+export async function closeRedisClient() {
+	if (redisClient) {
+		await redisClient.quit();
+		redisClient = null;
 	}
-
-	multi.expire(imageKey, EXPIRY_SECONDS);
-
-	await multi.exec();
-
-	return imageKey;
 }
 
 /**
- * Retrieve an image from Redis
- * @param imageId - Unique identifier for the image
- * @returns Object containing image data and metadata, or null if not found
+ * Create an image store that keeps every image in a Redis hash
  */
-export async function getImage(imageId: string) {
-	const client = await getRedisClient();
-	const imageKey = `image:${imageId}`;
+export function createRedisImageStore({
+	expirySeconds,
+}: {
+	expirySeconds: number;
+}): ImageStore {
+	return {
+		async storeImage(imageId, imageData, metadata = {}) {
+			const client = await getRedisClient();
+			const data = toStoredData(imageData);
+
+			// Store image in a hash with metadata
+			const imageKey = `image:${imageId}`;
+
+			// Use multi to perform operations atomically
+			const multi = client.multi();
+
+			console.log(
+				"storing image in Redis with key:",
+				imageKey,
+				", ",
+				data ? `${data.length} bytes` : "[empty]"
+			);
+			if (data) multi.hSet(imageKey, "data", data);
+
+			// Store metadata fields
+			for (const [key, value] of Object.entries(metadata)) {
+				if (value === undefined) continue;
+				multi.hSet(imageKey, key, JSON.stringify(value));
+			}
 
-	// Get all fields from the hash
-	const imageData = await client.hGetAll(imageKey);
+			multi.expire(imageKey, expirySeconds);
 
-	// If no data found, return null
-	if (!imageData || Object.keys(imageData).length === 0) {
-		return null;
-	}
+			await multi.exec();
+
+			return imageKey;
+		},
+
+		async getImage(imageId) {
+			const client = await getBufferClient();
+			const imageKey = `image:${imageId}`;
+
+			// Get all fields from the hash
+			const imageData = await client.hGetAll(imageKey);
 
-	// Parse JSON fields
-	const parsedData: Record<string, any> = {};
-	for (const [key, value] of Object.entries(imageData)) {
-		if (key !== "data") {
-			try {
-				parsedData[key] = JSON.parse(value);
-			} catch {
-				parsedData[key] = value;
+			// If no data found, return null
+			if (!imageData || Object.keys(imageData).length === 0) {
+				return null;
 			}
-		} else {
-			parsedData[key] = value;
-		}
-	}
 
-	return parsedData;
-}
+			// Parse JSON fields
+			const parsedData: StoredImage = { data: imageData.data ?? null };
+			for (const [key, value] of Object.entries(imageData)) {
+				if (key !== "data") {
+					parsedData[key] = parseStoredValue(value.toString());
+				}
+			}
 
-/**
- * Get a specific field from an image in Redis
- * @param imageId - Unique identifier for the image
- * @param field - The specific field to retrieve (e.g., "status", "fileType")
- * @returns The value of the field, or null if not found
- */
-export async function getImageField(imageId: string, field: string) {
-	const client = await getRedisClient();
-	const imageKey = `image:${imageId}`;
+			return parsedData;
+		},
 
-	// Get just the specified field
-	const value = await client.hGet(imageKey, field);
+		async getImageField(imageId, field) {
+			const client = await getBufferClient();
+			const imageKey = `image:${imageId}`;
 
-	if (!value) {
-		return null;
-	}
+			// Get just the specified field
+			const value = await client.hGet(imageKey, field);
 
-	// Try to parse JSON if it looks like JSON
-	try {
-		return JSON.parse(value);
-	} catch {
-		// If it's not valid JSON, return the raw value
-		return value;
-	}
-}
+			if (value === null || value === undefined) {
+				return null;
+			}
 
-/**
- * Delete an image from Redis
- * @param imageId - Unique identifier for the image
- */
-export async function deleteImage(imageId: string) {
-	const client = await getRedisClient();
-	const imageKey = `image:${imageId}`;
+			return field === "data" ? value : parseStoredValue(value.toString());
+		},
+
+		async deleteImage(imageId) {
+			const client = await getRedisClient();
+			const imageKey = `image:${imageId}`;
+
+			return client.del(imageKey);
+		},
+
+		async listImages(query) {
+			const client = await getRedisClient();
+			const { orderBy = "timestamp" } = query;
+			const fields = [...Object.keys(query.where), orderBy];
+
+			// There is no index of the fields, so every image is checked, reading
+			// only the fields of the query until the page is known
+			const candidates: ListedImage[] = [];
+			for await (const keys of client.scanIterator({
+				MATCH: "image:*",
+				COUNT: 100,
+			})) {
+				for (const key of keys) {
+					const values = await client.hmGet(key, fields);
+					const image: ListedImage = { id: key.slice("image:".length) };
+					fields.forEach((field, i) => {
+						const value = values[i];
+						if (value !== null && value !== undefined) {
+							image[field] = parseStoredValue(value);
+						}
+					});
+					if (matchesImageQuery(image, query)) candidates.push(image);
+				}
+			}
 
-	return client.del(imageKey);
+			const { images, total } = toImageList(candidates, query);
+			const listed: ListedImage[] = [];
+			for (const { id } of images) {
+				// The image data is left out, it can be large
+				const imageKey = `image:${id}`;
+				const keys = (await client.hKeys(imageKey)).filter(
+					(key) => key !== "data"
+				);
+				const values =
+					keys.length > 0 ? await client.hmGet(imageKey, keys) : [];
+				const image: ListedImage = { id };
+				keys.forEach((key, i) => {
+					const value = values[i];
+					if (value !== null && value !== undefined) {
+						image[key] = parseStoredValue(value);
+					}
+				});
+				listed.push(image);
+			}
+			return { images: listed, total };
+		},
+	};
 }
-
-getRedisClient();
@@ -0,0 +1,396 @@
+/**
+ * Render pipeline for server-side operations
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import { getImageStore } from "./image-store.server";
+import {
+	getImageProvider,
+	providerError,
+	type ImageEditResult,
+} from "./image-provider.server";
+import { storeAsset, type AssetInfo } from "./assets.server";
+import { toAssetFields, toGeneratedMaskFields } from "./renders.server";
+import { toAlphaMask, toLuminanceMask } from "./mask.server";
+import {
+	fitToFrame,
+	getCanvasSize,
+	getFrame,
+	restoreFraming,
+} from "./framing.server";
+import { recolorWalls } from "./recolor.server";
+import { applyWallpaper } from "./wallpaper.server";
+import { compositeMasked, getCompositeFeather } from "./composite.server";
+import {
+	getQualityConfig,
+	isBetterQuality,
+	measureQuality,
+	type MeasuredSurface,
+	type RenderQuality,
+} from "./quality.server";
+import type { SurfaceType } from "./surfaces";
+import type { PaintFinish } from "./paints";
+import type { WallpaperPlacement } from "./wallpaper";
+
+export type RenderMethod = "ai" | "local";
+
+/** Pipeline stage reported by the status endpoint while a render is pending */
+export type RenderStage =
+	| "queued"
+	| "retrying"
+	| "generating_mask"
+	| "painting"
+	| "recoloring"
+	| "wallpapering";
+
+export type GeneratedMasks = Partial<Record<SurfaceType, AssetInfo>>;
+
+export type RenderOutcome = {
+	result: ImageEditResult;
+	generatedMasks: GeneratedMasks;
+	/** Null when the render failed */
+	quality: RenderQuality | null;
+};
+
+type PaintOutcome = Omit<RenderOutcome, "quality"> & {
+	/** Surfaces painted so far, with the masks they were painted in */
+	painted: MeasuredSurface[];
+};
+
+export type SurfaceRequest = {
+	surface: SurfaceType;
+	prompt: string;
+	/** Prompt that generates the mask when there is none */
+	maskPrompt: string;
+	colorHex: string;
+	/** Finish of the local recolor, null for the default look */
+	finish: PaintFinish | null;
+	/** Black and white mask where white areas are painted */
+	mask: Buffer | null;
+	/** Wallpaper that covers the surface instead of paint */
+	wallpaper: (WallpaperPlacement & { pattern: Buffer }) | null;
+};
+
+export type RenderRequest = {
+	method: RenderMethod;
+	image: Buffer;
+	/** Surfaces in the order they are painted */
+	surfaces: SurfaceRequest[];
+};
+
+/**
+ * Mark a render as pending in the given stage
+ */
+export async function setRenderStage(
+	renderId: string,
+	stage: RenderStage,
+	extra: Record<string, any> = {}
+) {
+	const imageStore = await getImageStore();
+	await imageStore.storeImage(renderId, null, {
+		status: "pending",
+		stage,
+		...extra,
+	});
+}
+
+async function recolorLocally(
+	image: Buffer,
+	mask: Buffer,
+	colorHex: string,
+	finish: PaintFinish | null
+): Promise<ImageEditResult> {
+	console.log(
+		`Recoloring image locally with color ${colorHex} in ${finish ?? "default"} finish`
+	);
+	try {
+		const result = await recolorWalls(image, mask, colorHex, finish);
+		return { ok: true, image: result, contentType: "image/png" };
+	} catch (error: any) {
+		console.error("Local recolor error:", error);
+		return providerError(
+			"invalid_request",
+			error.message || "Failed to recolor the image"
+		);
+	}
+}
+
+async function wallpaperLocally(
+	image: Buffer,
+	mask: Buffer,
+	{ pattern, ...placement }: WallpaperPlacement & { pattern: Buffer }
+): Promise<ImageEditResult> {
+	console.log("Applying wallpaper locally");
+	try {
+		const result = await applyWallpaper(image, mask, pattern, placement);
+		return { ok: true, image: result, contentType: "image/png" };
+	} catch (error: any) {
+		console.error("Wallpaper error:", error);
+		return providerError(
+			"invalid_request",
+			error.message || "Failed to apply the wallpaper"
+		);
+	}
+}
+
+/**
+ * Generate a segmentation mask of a surface with the configured provider and store it
+ * @returns The black and white mask and its asset
+ */
+async function generateSurfaceMask(
+	renderId: string,
+	image: Buffer,
+	surface: SurfaceType,
+	prompt: string
+): Promise<
+	| { ok: true; mask: Buffer; asset: AssetInfo }
+	| Extract<ImageEditResult, { ok: false }>
+> {
+	const provider = await getImageProvider();
+	console.log(`Generating ${surface} mask with ${provider.name} provider`);
+
+	const { width, height } = await sharp(image).metadata();
+	const frame = getFrame(width!, height!);
+	const result = await provider.editImage({
+		image: await fitToFrame(image, frame, "mirror"),
+		prompt,
+		size: frame.size,
+	});
+	if (!result.ok) return result;
+
+	const mask = await toLuminanceMask(
+		await restoreFraming(result.image, frame),
+		width!,
+		height!
+	);
+	const asset = await storeAsset(renderId, "generated_mask", mask);
+
+	return { ok: true, mask, asset };
+}
+
+/**
+ * Paint the masked surface with the configured provider
+ * The provider paints a padded copy at a supported size, the result is
+ * mapped back to the framing and resolution of the original image. Unless
+ * compositing is turned off, only the masked areas of the result are kept,
+ * because providers also redraw areas outside the mask.
+ */
+async function paintWithProvider(
+	image: Buffer,
+	mask: Buffer,
+	prompt: string
+): Promise<ImageEditResult> {
+	const provider = await getImageProvider();
+	console.log(`Painting surface with ${provider.name} provider`);
+
+	const { width, height } = await sharp(image).metadata();
+	const frame = getFrame(width!, height!);
+	const luminanceMask = await toLuminanceMask(mask, width!, height!);
+	const framedMask = await fitToFrame(luminanceMask, frame, "black");
+	const canvas = getCanvasSize(frame.size);
+
+	const result = await provider.editImage({
+		image: await fitToFrame(image, frame, "mirror"),
+		mask: await toAlphaMask(framedMask, canvas.width, canvas.height),
+		prompt,
+		size: frame.size,
+	});
+	if (!result.ok) return result;
+
+	const painted = await restoreFraming(result.image, frame);
+	const feather = getCompositeFeather();
+	if (feather === null) return { ...result, image: painted };
+
+	return {
+		...result,
+		image: await compositeMasked(image, painted, luminanceMask, feather),
+	};
+}
+
+/**
+ * Paint every surface on top of the result of the previous one
+ * @param generatedMasks - Masks generated by an earlier attempt
+ */
+async function paintSurfaces(
+	renderId: string,
+	render: RenderRequest,
+	generatedMasks: GeneratedMasks = {}
+): Promise<PaintOutcome> {
+	const painted: MeasuredSurface[] = [];
+	let result: ImageEditResult = {
+		ok: true,
+		image: render.image,
+		contentType: "image/png",
+	};
+
+	for (const surface of render.surfaces) {
+		if (render.method === "local" && surface.mask && !surface.wallpaper) {
+			await setRenderStage(renderId, "recoloring", {
+				stageSurface: surface.surface,
+			});
+			result = await recolorLocally(
+				result.image,
+				surface.mask,
+				surface.colorHex,
+				surface.finish
+			);
+			if (!result.ok) return { result, generatedMasks, painted };
+			painted.push({
+				surface: surface.surface,
+				colorHex: surface.colorHex,
+				mask: surface.mask,
+			});
+			continue;
+		}
+
+		let mask = surface.mask;
+		if (!mask) {
+			await setRenderStage(renderId, "generating_mask", {
+				stageSurface: surface.surface,
+			});
+			const generated = await generateSurfaceMask(
+				renderId,
+				render.image,
+				surface.surface,
+				surface.maskPrompt
+			);
+			if (!generated.ok) {
+				return { result: generated, generatedMasks, painted };
+			}
+
+			mask = generated.mask;
+			generatedMasks[surface.surface] = generated.asset;
+		}
+
+		await setRenderStage(
+			renderId,
+			surface.wallpaper ? "wallpapering" : "painting",
+			{
+				stageSurface: surface.surface,
+				...toGeneratedMaskFields(generatedMasks),
+			}
+		);
+		result = surface.wallpaper
+			? await wallpaperLocally(result.image, mask, surface.wallpaper)
+			: await paintWithProvider(result.image, mask, surface.prompt);
+		if (!result.ok) return { result, generatedMasks, painted };
+		painted.push({
+			surface: surface.surface,
+			colorHex: surface.wallpaper ? null : surface.colorHex,
+			mask,
+		});
+	}
+
+	return { result, generatedMasks, painted };
+}
+
+/**
+ * Run the stages of a render, updating the stored stage as they start
+ * Every surface is painted on top of the result of the previous one. AI
+ * renders without an uploaded mask first generate one from the original
+ * image with the mask prompt of the surface. Wallpapers are always applied
+ * locally, within the uploaded or generated mask.
+ * The finished render is checked for color accuracy and changes outside the
+ * masks. When retries are enabled, an AI render that fails a check is painted
+ * once more with the same masks and the better attempt is kept.
+ */
+export async function runRenderStages(
+	renderId: string,
+	render: RenderRequest
+): Promise<RenderOutcome> {
+	const first = await paintSurfaces(renderId, render);
+	if (!first.result.ok) {
+		return {
+			result: first.result,
+			generatedMasks: first.generatedMasks,
+			quality: null,
+		};
+	}
+
+	const quality = await measureQuality(
+		render.image,
+		first.result.image,
+		first.painted
+	);
+	const canRetry =
+		getQualityConfig().retry &&
+		render.method === "ai" &&
+		render.surfaces.some((surface) => !surface.wallpaper);
+	if (quality.passed || !canRetry) {
+		return {
+			result: first.result,
+			generatedMasks: first.generatedMasks,
+			quality: { ...quality, retried: false },
+		};
+	}
+
+	console.log(
+		`Render ${renderId} failed its quality checks, painting it again`
+	);
+	const masks = new Map(
+		first.painted.map(({ surface, mask }) => [surface, mask])
+	);
+	const second = await paintSurfaces(
+		renderId,
+		{
+			...render,
+			surfaces: render.surfaces.map((surface) => ({
+				...surface,
+				mask: masks.get(surface.surface) ?? surface.mask,
+			})),
+		},
+		{ ...first.generatedMasks }
+	);
+	if (second.result.ok) {
+		const retryQuality = await measureQuality(
+			render.image,
+			second.result.image,
+			second.painted
+		);
+		if (isBetterQuality(retryQuality, quality)) {
+			return {
+				result: second.result,
+				generatedMasks: first.generatedMasks,
+				quality: { ...retryQuality, retried: true },
+			};
+		}
+	}
+
+	return {
+		result: first.result,
+		generatedMasks: first.generatedMasks,
+		quality: { ...quality, retried: true },
+	};
+}
+
+/**
+ * Store the outcome of a render as its result asset or error
+ */
+export async function storeRenderOutcome(
+	renderId: string,
+	{ result, generatedMasks, quality }: RenderOutcome
+) {
+	const imageStore = await getImageStore();
+
+	// Check if there was an error in one of the stages
+	if (!result.ok) {
+		// Update the status to error with the error message
+		await imageStore.storeImage(renderId, null, {
+			timestamp: new Date().toISOString(),
+			status: "error",
+			errorMessage: result.error.message,
+			errorCode: result.error.code,
+			...toGeneratedMaskFields(generatedMasks),
+		});
+		return;
+	}
+
+	const resultAsset = await storeAsset(renderId, "result", result.image);
+	await imageStore.storeImage(renderId, null, {
+		timestamp: new Date().toISOString(),
+		status: "completed",
+		quality,
+		...toGeneratedMaskFields(generatedMasks),
+		...toAssetFields([resultAsset]),
+	});
+}
@@ -0,0 +1,494 @@
+/**
+ * Render records for server-side operations
+ * A render references its assets (original, mask, generated mask, wallpaper
+ * pattern and result) by id and tracks the status of the job that produces
+ * the result
+ * The asset fields of masks and patterns belong to the main surface, the
+ * walls or the facade, every painted surface also lists its own color and
+ * masks
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { getImageStore, type StoredImage } from "./image-store.server";
+import { getAssetUrl, type AssetInfo, type AssetType } from "./assets.server";
+import type {
+	GeneratedMasks,
+	RenderMethod,
+	RenderStage,
+} from "./render.server";
+import type { RenderJobPayload } from "./jobs.server";
+import type { PaintFinish, RenderPaint } from "./paints";
+import { getMaskTemplateName, getPaintTemplateName } from "./prompts";
+import {
+	renderPrompt,
+	type PromptTemplateRef,
+} from "./prompt-templates.server";
+import {
+	defaultSurfaceFinishes,
+	mainSurfaces,
+	sortBySurface,
+	type SceneMode,
+	type SurfaceType,
+} from "./surfaces";
+import type { WallpaperPlacement } from "./wallpaper";
+import type { RenderQuality } from "./quality.server";
+
+export type RenderAssetIds = Partial<Record<AssetType, string>>;
+
+/** Surface of a render to paint, as it is created */
+export type SurfaceInput = {
+	surface: SurfaceType;
+	colorHex: string;
+	paint: RenderPaint | null;
+	/** The default finish of the surface is used when there is none */
+	finish: PaintFinish | null;
+	/** Uploaded mask, the mask is generated when there is none */
+	mask: AssetInfo | null;
+	/** Wallpaper that covers the surface instead of paint */
+	wallpaper: (WallpaperPlacement & { pattern: AssetInfo }) | null;
+};
+
+export type RenderWallpaper = WallpaperPlacement & { patternAssetId: string };
+
+export type RenderSurface = {
+	surface: SurfaceType;
+	colorHex: string;
+	paint: RenderPaint | null;
+	/** Null for renders from before finishes could be chosen */
+	finish: PaintFinish | null;
+	maskAssetId: string | null;
+	generatedMaskAssetId: string | null;
+	/** Exact prompts the surface is painted with, null for older renders */
+	prompt: string | null;
+	promptTemplate: PromptTemplateRef | null;
+	maskPrompt: string | null;
+	maskPromptTemplate: PromptTemplateRef | null;
+	wallpaper: RenderWallpaper | null;
+};
+
+/** Surface of a stored render with the prompts it is painted with */
+type PromptedSurface = Pick<
+	RenderSurface,
+	"surface" | "colorHex" | "finish" | "maskAssetId" | "wallpaper"
+> & {
+	prompt: string;
+	maskPrompt: string;
+};
+
+export type RenderRecord = {
+	id: string;
+	status: "pending" | "completed" | "error";
+	stage: RenderStage | null;
+	/** Surface the pending stage works on */
+	stageSurface: SurfaceType | null;
+	method: RenderMethod;
+	/** Interior for renders from before exteriors could be painted */
+	mode: SceneMode;
+	/** Color of the first surface, usually the main surface */
+	colorHex: string;
+	/** Catalog paint the render was made with */
+	paint: RenderPaint | null;
+	fileName: string;
+	/** Batch the render is a variant of */
+	batchId: string | null;
+	/** Session the render was made in, null for renders from before sessions */
+	sessionId: string | null;
+	/** Surfaces in the order they are painted */
+	surfaces: RenderSurface[];
+	assetIds: RenderAssetIds;
+	/** Scores of the quality checks, null until completed and for older renders */
+	quality: RenderQuality | null;
+	errorMessage: string | null;
+	/** When the render was created, null for renders from before sessions */
+	createdAt: string | null;
+	/** When the render was last updated */
+	timestamp: string | null;
+};
+
+/** Renders of a history to find, every field must match */
+export type RenderFilter = {
+	status?: RenderRecord["status"];
+	/** Color of the first surface */
+	colorHex?: string;
+};
+
+export type SurfaceStatus = {
+	surface: SurfaceType;
+	colorHex: string;
+	paint: RenderPaint | null;
+	finish: PaintFinish | null;
+	maskUrl: string | null;
+	generatedMaskUrl: string | null;
+	/** Tile of the wallpaper that covers the surface */
+	patternUrl: string | null;
+};
+
+export type RenderStatus = (
+	| {
+			status: "pending";
+			stage: RenderStage | null;
+			surface: SurfaceType | null;
+	  }
+	| {
+			status: "completed";
+			resultUrl: string;
+			quality: RenderQuality | null;
+	  }
+	| { status: "error"; errorMessage: string }
+) & {
+	/** URLs of the assets that exist so far */
+	assets: Partial<Record<AssetType, string>>;
+	surfaces: SurfaceStatus[];
+};
+
+// Fields of the stored render that hold the asset ids
+const assetIdFields: Record<AssetType, string> = {
+	original: "originalAssetId",
+	mask: "maskAssetId",
+	generated_mask: "generatedMaskAssetId",
+	pattern: "patternAssetId",
+	result: "resultAssetId",
+};
+
+/**
+ * Get the metadata fields that link assets to a render
+ */
+export function toAssetFields(assets: AssetInfo[]) {
+	const fields: Record<string, string> = {};
+	for (const asset of assets) {
+		fields[assetIdFields[asset.type]] = asset.id;
+	}
+	return fields;
+}
+
+/**
+ * Get the metadata fields that link generated masks to a render
+ */
+export function toGeneratedMaskFields(generatedMasks: GeneratedMasks) {
+	const generatedMaskAssetIds: Partial<Record<SurfaceType, string>> = {};
+	for (const [surface, asset] of Object.entries(generatedMasks)) {
+		generatedMaskAssetIds[surface as SurfaceType] = asset.id;
+	}
+
+	// A render paints the main surface of one mode
+	const mainMask = Object.values(mainSurfaces)
+		.map((surface) => generatedMasks[surface])
+		.find((asset) => asset !== undefined);
+
+	return {
+		generatedMaskAssetIds,
+		...toAssetFields(mainMask ? [mainMask] : []),
+	};
+}
+
+/**
+ * Get the job payload that paints the surfaces of a render
+ * Stored renders can be run again with the payload of their surfaces
+ */
+export function toRenderJobPayload(
+	method: RenderMethod,
+	originalAssetId: string,
+	surfaces: PromptedSurface[]
+): RenderJobPayload {
+	return {
+		method,
+		originalAssetId,
+		surfaces: sortBySurface(surfaces).map((surface) => ({
+			surface: surface.surface,
+			colorHex: surface.colorHex,
+			finish: surface.finish,
+			prompt: surface.prompt,
+			maskPrompt: surface.maskPrompt,
+			maskAssetId: surface.maskAssetId,
+			wallpaper: surface.wallpaper,
+		})),
+	};
+}
+
+/**
+ * Render the active prompt templates of a surface
+ * Throws when a template can't be rendered, since that is a configuration error
+ */
+async function renderSurfacePrompts(
+	{ surface, colorHex, paint }: SurfaceInput,
+	finish: PaintFinish,
+	roomType: string
+) {
+	const variables = {
+		colorName: paint?.name ?? colorHex,
+		hex: colorHex,
+		finish,
+		surface,
+		roomType,
+	};
+
+	const paintPrompt = await renderPrompt(
+		getPaintTemplateName(surface),
+		variables
+	);
+	if (!paintPrompt.ok) throw new Error(paintPrompt.error);
+	const maskPrompt = await renderPrompt(
+		getMaskTemplateName(surface),
+		variables
+	);
+	if (!maskPrompt.ok) throw new Error(maskPrompt.error);
+
+	return {
+		prompt: paintPrompt.prompt,
+		promptTemplate: paintPrompt.template,
+		maskPrompt: maskPrompt.prompt,
+		maskPromptTemplate: maskPrompt.template,
+	};
+}
+
+/**
+ * Store a new pending render of the given surfaces
+ * The prompts of the surfaces are rendered from the active templates and
+ * recorded with the template versions
+ * @returns The surfaces as they are stored, in the order they are painted
+ */
+export async function createRender(
+	renderId: string,
+	render: {
+		method: RenderMethod;
+		mode: SceneMode;
+		/** Kind of room or building in the photo */
+		roomType: string;
+		fileName: string;
+		batchId?: string;
+		sessionId: string | null;
+		original: AssetInfo;
+		surfaces: SurfaceInput[];
+	}
+): Promise<PromptedSurface[]> {
+	const surfaces = sortBySurface(render.surfaces);
+	const main = surfaces.find(
+		({ surface }) => surface === mainSurfaces[render.mode]
+	);
+	const assets = [render.original];
+	if (main?.mask) assets.push(main.mask);
+	if (main?.wallpaper) assets.push(main.wallpaper.pattern);
+
+	const storedSurfaces: (RenderSurface & PromptedSurface)[] = [];
+	for (const surface of surfaces) {
+		const finish = surface.finish ?? defaultSurfaceFinishes[surface.surface];
+		let wallpaper: RenderWallpaper | null = null;
+		if (surface.wallpaper) {
+			const { pattern, ...placement } = surface.wallpaper;
+			wallpaper = { ...placement, patternAssetId: pattern.id };
+		}
+		storedSurfaces.push({
+			surface: surface.surface,
+			colorHex: surface.colorHex,
+			paint: surface.paint,
+			finish,
+			maskAssetId: surface.mask?.id ?? null,
+			generatedMaskAssetId: null,
+			wallpaper,
+			...(await renderSurfacePrompts(surface, finish, render.roomType)),
+		});
+	}
+
+	const imageStore = await getImageStore();
+	const createdAt = new Date().toISOString();
+	await imageStore.storeImage(renderId, null, {
+		kind: "render",
+		status: "pending",
+		stage: "queued",
+		method: render.method,
+		mode: render.mode,
+		colorHex: surfaces[0].colorHex,
+		paint: surfaces[0].paint,
+		fileName: render.fileName,
+		batchId: render.batchId,
+		sessionId: render.sessionId ?? undefined,
+		surfaces: storedSurfaces,
+		createdAt,
+		timestamp: createdAt,
+		...toAssetFields(assets),
+	});
+
+	return storedSurfaces;
+}
+
+/**
+ * Retrieve a render record
+ * @returns The render, or null if not found
+ */
+export async function getRender(renderId: string): Promise<RenderRecord | null> {
+	const imageStore = await getImageStore();
+	const stored = await imageStore.getImage(renderId);
+
+	if (!stored || stored.kind !== "render") {
+		return null;
+	}
+
+	return toRenderRecord(renderId, stored);
+}
+
+/**
+ * Find the renders of a session, newest first
+ * @param sessionId - Session the renders were made in
+ * @param filter - Status and color the renders must have
+ * @param page - Number of renders to return and to skip
+ * @returns A page of the renders and the number of all matching renders
+ */
+export async function listRenders(
+	sessionId: string,
+	filter: RenderFilter,
+	{ limit, offset }: { limit: number; offset: number }
+): Promise<{ renders: RenderRecord[]; total: number }> {
+	const imageStore = await getImageStore();
+	const { images, total } = await imageStore.listImages({
+		where: { kind: "render", sessionId, ...filter },
+		orderBy: "createdAt",
+		limit,
+		offset,
+	});
+
+	return {
+		renders: images.map(({ id, ...stored }) =>
+			toRenderRecord(id, { data: null, ...stored })
+		),
+		total,
+	};
+}
+
+/**
+ * Get the colors the renders of a session were made with, newest first
+ * @returns Every color once, with the catalog paint it was chosen as
+ */
+export async function listRenderColors(
+	sessionId: string
+): Promise<{ colorHex: string; paint: RenderPaint | null }[]> {
+	const imageStore = await getImageStore();
+	const { images } = await imageStore.listImages({
+		where: { kind: "render", sessionId },
+		orderBy: "createdAt",
+	});
+
+	const colors = new Map<string, RenderPaint | null>();
+	for (const { colorHex, paint } of images) {
+		if (!colors.has(colorHex)) colors.set(colorHex, paint ?? null);
+	}
+	return Array.from(colors, ([colorHex, paint]) => ({ colorHex, paint }));
+}
+
+/**
+ * Read a render record from its stored fields
+ */
+function toRenderRecord(renderId: string, stored: StoredImage): RenderRecord {
+	const assetIds: RenderAssetIds = {};
+	for (const [type, field] of Object.entries(assetIdFields)) {
+		if (stored[field]) assetIds[type as AssetType] = stored[field];
+	}
+
+	// Masks are only generated once their surface is painted
+	const generatedMaskAssetIds = stored.generatedMaskAssetIds ?? {};
+	const storedSurfaces: (Partial<RenderSurface> &
+		Pick<RenderSurface, "surface" | "colorHex">)[] = stored.surfaces;
+	const surfaces: RenderSurface[] = [];
+	for (const surface of storedSurfaces) {
+		surfaces.push({
+			surface: surface.surface,
+			colorHex: surface.colorHex,
+			paint: surface.paint ?? null,
+			finish: surface.finish ?? null,
+			maskAssetId: surface.maskAssetId ?? null,
+			prompt: surface.prompt ?? null,
+			promptTemplate: surface.promptTemplate ?? null,
+			maskPrompt: surface.maskPrompt ?? null,
+			maskPromptTemplate: surface.maskPromptTemplate ?? null,
+			wallpaper: surface.wallpaper ?? null,
+			generatedMaskAssetId: generatedMaskAssetIds[surface.surface] ?? null,
+		});
+	}
+
+	return {
+		id: renderId,
+		status: stored.status,
+		stage: stored.stage ?? null,
+		stageSurface: stored.stageSurface ?? null,
+		method: stored.method,
+		mode: stored.mode ?? "interior",
+		colorHex: stored.colorHex,
+		paint: stored.paint ?? null,
+		fileName: stored.fileName,
+		batchId: stored.batchId ?? null,
+		sessionId: stored.sessionId ?? null,
+		surfaces,
+		assetIds,
+		quality: stored.quality ?? null,
+		errorMessage: stored.errorMessage ?? null,
+		createdAt: stored.createdAt ?? null,
+		timestamp: stored.timestamp ?? null,
+	};
+}
+
+/**
+ * Get the status of a render from the image store
+ * @returns The status, or null if the render was not found
+ */
+export async function getRenderStatus(
+	renderId: string
+): Promise<RenderStatus | null> {
+	const render = await getRender(renderId);
+	if (!render) {
+		return null;
+	}
+
+	const assets: RenderStatus["assets"] = {};
+	for (const [type, assetId] of Object.entries(render.assetIds)) {
+		assets[type as AssetType] = getAssetUrl(assetId);
+	}
+
+	const surfaces: SurfaceStatus[] = [];
+	for (const surface of render.surfaces) {
+		surfaces.push({
+			surface: surface.surface,
+			colorHex: surface.colorHex,
+			paint: surface.paint,
+			finish: surface.finish,
+			maskUrl: surface.maskAssetId && getAssetUrl(surface.maskAssetId),
+			generatedMaskUrl:
+				surface.generatedMaskAssetId &&
+				getAssetUrl(surface.generatedMaskAssetId),
+			patternUrl:
+				surface.wallpaper && getAssetUrl(surface.wallpaper.patternAssetId),
+		});
+	}
+
+	if (render.status === "error") {
+		return {
+			status: "error",
+			errorMessage: render.errorMessage || "Unknown error occurred",
+			assets,
+			surfaces,
+		};
+	}
+
+	if (render.status === "completed" && assets.result) {
+		return {
+			status: "completed",
+			resultUrl: assets.result,
+			quality: render.quality,
+			assets,
+			surfaces,
+		};
+	}
+
+	// Report the running pipeline stage while the render is pending
+	return {
+		status: "pending",
+		stage: render.stage,
+		surface: render.stageSurface,
+		assets,
+		surfaces,
+	};
+}
+
+/**
+ * Whether a render has stopped changing
+ */
+export function isFinalStatus(status: RenderStatus) {
+	return status.status === "completed" || status.status === "error";
+}
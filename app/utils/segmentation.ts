@@ -0,0 +1,244 @@
+/**
+ * Wall segmentation by region growing, without an AI provider
+ * Regions grow from clicked points over pixels of similar color and stop at
+ * strong edges like door frames and furniture outlines
+ */
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+type Point = { x: number; y: number };
+
+export type SegmentationOptions = {
+	/**
+	 * Largest distance in RGB space to the average color of a region
+	 * A pixel closer than an eighth of it to its neighbor in the region always
+	 * joins, so lighting gradients across a wall stay in one region
+	 */
+	tolerance: number;
+	/** Smallest luminance contrast across a pixel that stops the growth */
+	edgeThreshold: number;
+};
+
+export const defaultSegmentationOptions: SegmentationOptions = {
+	tolerance: 40,
+	edgeThreshold: 24,
+};
+
+// Enclosed unselected areas up to this share of the photo are selected too,
+// e.g. light switches and sockets
+const MAX_HOLE_SHARE = 0.001;
+
+/**
+ * Average the colors over a 3x3 window, so wall texture and sensor noise
+ * don't stop a region
+ * @returns RGB values per pixel
+ */
+function smoothColors({ data, width, height }: Pixels): Float32Array {
+	const colors = new Float32Array(width * height * 3);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let count = 0;
+			for (let dy = -1; dy <= 1; dy++) {
+				const ny = y + dy;
+				if (ny < 0 || ny >= height) continue;
+				for (let dx = -1; dx <= 1; dx++) {
+					const nx = x + dx;
+					if (nx < 0 || nx >= width) continue;
+					const offset = (ny * width + nx) * 4;
+					r += data[offset];
+					g += data[offset + 1];
+					b += data[offset + 2];
+					count++;
+				}
+			}
+			const pixel = (y * width + x) * 3;
+			colors[pixel] = r / count;
+			colors[pixel + 1] = g / count;
+			colors[pixel + 2] = b / count;
+		}
+	}
+	return colors;
+}
+
+/**
+ * Luminance contrast across every pixel, from a Sobel filter
+ * A step between two luminances reports their difference
+ */
+function detectEdges(
+	colors: Float32Array,
+	width: number,
+	height: number
+): Float32Array {
+	const luminance = new Float32Array(width * height);
+	for (let i = 0; i < luminance.length; i++) {
+		luminance[i] =
+			0.299 * colors[i * 3] +
+			0.587 * colors[i * 3 + 1] +
+			0.114 * colors[i * 3 + 2];
+	}
+
+	const at = (x: number, y: number) =>
+		luminance[
+			Math.min(height - 1, Math.max(0, y)) * width +
+				Math.min(width - 1, Math.max(0, x))
+		];
+
+	const edges = new Float32Array(width * height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const gx =
+				at(x + 1, y - 1) +
+				2 * at(x + 1, y) +
+				at(x + 1, y + 1) -
+				at(x - 1, y - 1) -
+				2 * at(x - 1, y) -
+				at(x - 1, y + 1);
+			const gy =
+				at(x - 1, y + 1) +
+				2 * at(x, y + 1) +
+				at(x + 1, y + 1) -
+				at(x - 1, y - 1) -
+				2 * at(x, y - 1) -
+				at(x + 1, y - 1);
+			// The Sobel kernels weigh a step four times
+			edges[y * width + x] = Math.hypot(gx, gy) / 4;
+		}
+	}
+	return edges;
+}
+
+/**
+ * Select small areas that are enclosed by the selection
+ */
+function fillSmallHoles(
+	selected: Uint8Array,
+	width: number,
+	height: number,
+	maxHoleSize: number
+) {
+	const visited = new Uint8Array(selected.length);
+	for (let start = 0; start < selected.length; start++) {
+		if (selected[start] || visited[start]) continue;
+
+		// Collect the connected unselected area around the pixel
+		const area = [start];
+		let touchesBorder = false;
+		visited[start] = 1;
+		for (let i = 0; i < area.length; i++) {
+			const pixel = area[i];
+			const x = pixel % width;
+			if (x === 0 || x === width - 1 || pixel < width) touchesBorder = true;
+			if (pixel >= width * (height - 1)) touchesBorder = true;
+
+			const neighbors = [
+				x > 0 ? pixel - 1 : -1,
+				x < width - 1 ? pixel + 1 : -1,
+				pixel >= width ? pixel - width : -1,
+				pixel < width * (height - 1) ? pixel + width : -1,
+			];
+			for (const neighbor of neighbors) {
+				if (neighbor < 0 || selected[neighbor] || visited[neighbor]) continue;
+				visited[neighbor] = 1;
+				area.push(neighbor);
+			}
+		}
+
+		if (!touchesBorder && area.length <= maxHoleSize) {
+			for (const pixel of area) selected[pixel] = 1;
+		}
+	}
+}
+
+/**
+ * Grow wall regions from points on the walls
+ * Every point grows its own region, so walls in different light can be
+ * selected together. A region takes in neighboring pixels close to its
+ * average color or to the pixel they neighbor, and doesn't grow past strong
+ * edges.
+ * @param image - RGBA pixels, e.g. from CanvasRenderingContext2D.getImageData
+ * @param seeds - Points on the walls, in pixels
+ * @returns 1 for every selected pixel, 0 for the others
+ */
+export function growWallRegions(
+	image: Pixels,
+	seeds: Point[],
+	{ tolerance, edgeThreshold }: SegmentationOptions = defaultSegmentationOptions
+): Uint8Array {
+	const { width, height } = image;
+	const colors = smoothColors(image);
+	const edges = detectEdges(colors, width, height);
+	const selected = new Uint8Array(width * height);
+	const maxDistance = tolerance * tolerance;
+	const maxStep = (tolerance / 8) ** 2;
+	const distance = (pixel: number, r: number, g: number, b: number) =>
+		(colors[pixel * 3] - r) ** 2 +
+		(colors[pixel * 3 + 1] - g) ** 2 +
+		(colors[pixel * 3 + 2] - b) ** 2;
+
+	for (const seed of seeds) {
+		const x = Math.min(width - 1, Math.max(0, Math.round(seed.x)));
+		const y = Math.min(height - 1, Math.max(0, Math.round(seed.y)));
+		const start = y * width + x;
+		if (selected[start]) continue;
+
+		const sum = [
+			colors[start * 3],
+			colors[start * 3 + 1],
+			colors[start * 3 + 2],
+		];
+		let count = 1;
+		const queue = [start];
+		const inRegion = new Uint8Array(width * height);
+		inRegion[start] = 1;
+		selected[start] = 1;
+
+		// Breadth first, so the average follows the region outwards
+		for (let i = 0; i < queue.length; i++) {
+			const pixel = queue[i];
+			// Edge pixels join the region but don't let it grow further
+			if (edges[pixel] >= edgeThreshold && pixel !== start) continue;
+
+			const px = pixel % width;
+			const neighbors = [
+				px > 0 ? pixel - 1 : -1,
+				px < width - 1 ? pixel + 1 : -1,
+				pixel >= width ? pixel - width : -1,
+				pixel < width * (height - 1) ? pixel + width : -1,
+			];
+			for (const neighbor of neighbors) {
+				if (neighbor < 0 || inRegion[neighbor]) continue;
+				const isSimilar =
+					distance(neighbor, sum[0] / count, sum[1] / count, sum[2] / count) <=
+						maxDistance ||
+					distance(
+						neighbor,
+						colors[pixel * 3],
+						colors[pixel * 3 + 1],
+						colors[pixel * 3 + 2]
+					) <= maxStep;
+				if (!isSimilar) continue;
+
+				inRegion[neighbor] = 1;
+				selected[neighbor] = 1;
+				sum[0] += colors[neighbor * 3];
+				sum[1] += colors[neighbor * 3 + 1];
+				sum[2] += colors[neighbor * 3 + 2];
+				count++;
+				queue.push(neighbor);
+			}
+		}
+	}
+
+	if (seeds.length > 0) {
+		fillSmallHoles(
+			selected,
+			width,
+			height,
+			Math.round(width * height * MAX_HOLE_SHARE)
+		);
+	}
+	return selected;
+}
@@ -0,0 +1,40 @@
+/**
+ * Anonymous sessions for server-side operations
+ * A browser keeps the id of its session in a cookie, and renders record the
+ * session they were made in, so the history of a browser survives reloads
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { createCookie } from "react-router";
+import { v4 as uuidv4 } from "uuid";
+import { getExpirySeconds } from "./image-store.server";
+
+const sessionCookie = createCookie("session", {
+	httpOnly: true,
+	sameSite: "lax",
+	path: "/",
+	secure: process.env.NODE_ENV === "production",
+});
+
+/**
+ * Get the session of a request
+ * @returns The session id, or null when the browser has no session yet
+ */
+export async function getSessionId(request: Request): Promise<string | null> {
+	const sessionId = await sessionCookie.parse(request.headers.get("Cookie"));
+	return typeof sessionId === "string" && sessionId ? sessionId : null;
+}
+
+/**
+ * Get the session of a request, starting a new one when it has none
+ * The cookie lives as long as the images, so it is renewed with every render
+ * @returns The session id and the Set-Cookie header to send with the response
+ */
+export async function startSession(request: Request) {
+	const sessionId = (await getSessionId(request)) ?? uuidv4();
+	return {
+		sessionId,
+		setCookie: await sessionCookie.serialize(sessionId, {
+			maxAge: getExpirySeconds(),
+		}),
+	};
+}
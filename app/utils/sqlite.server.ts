@@ -6,9 +6,18 @@
 import type { Database } from "better-sqlite3";
 import * as fs from "fs";
 import * as path from "path";
+import { runMigrations } from "./migrations.server";
+import {
+	parseStoredValue,
+	toStoredData,
+	type ImageStore,
+	type ListedImage,
+	type StoredImage,
+} from "./image-store.server";
 
 // Set up the database file path
-const DB_PATH = path.join(process.cwd(), "data.db");
+const DB_PATH =
+	process.env.DATABASE_PATH || path.join(process.cwd(), "data.db");
 
 // Create a singleton for the database connection
 let db: Database | null = null;
@@ -17,7 +26,7 @@ let db: Database | null = null;
  * Get or create SQLite database connection
  * @returns A Promise that resolves to a Database instance
  */
-async function getDatabase(): Promise<Database> {
+export async function getDatabase(): Promise<Database> {
 	if (!db) {
 		// Ensure the directory exists
 		const dbDir = path.dirname(DB_PATH);
@@ -29,262 +38,280 @@ async function getDatabase(): Promise<Database> {
 		// Use dynamic import instead of require
 		const sqlite3Module = await import("better-sqlite3");
 		const sqlite3 = sqlite3Module.default;
-		db = new sqlite3(DB_PATH);
-
-		// Create tables if they don't exist
-		db.exec(`
-			CREATE TABLE IF NOT EXISTS images (
-				id TEXT PRIMARY KEY,
-				data TEXT,
-				status TEXT,
-				fileName TEXT,
-				timestamp TEXT,
-				createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
-				updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
-			);
-
-			CREATE TABLE IF NOT EXISTS metadata (
-				id INTEGER PRIMARY KEY AUTOINCREMENT,
-				imageId TEXT NOT NULL,
-				key TEXT NOT NULL,
-				value TEXT NOT NULL,
-				FOREIGN KEY (imageId) REFERENCES images(id) ON DELETE CASCADE
-			);
+		const database = new sqlite3(DB_PATH);
 
-			CREATE UNIQUE INDEX IF NOT EXISTS idx_metadata_image_key ON metadata(imageId, key);
-		`);
+		// Bring the schema up to date before the connection is used
+		try {
+			runMigrations(database);
+		} catch (error) {
+			database.close();
+			throw error;
+		}
+		db = database;
 	}
 
 	return db;
 }
 
 /**
- * Clean up old images and metadata from SQLite
- * Removes entries older than 30 minutes
- * @returns Object containing the number of deleted entries and their ages
+ * Clean up expired images and metadata from SQLite
+ * Removes entries that were not stored for longer than the expiry
+ * @returns The number of deleted images
  */
-export async function cleanupOldImages(db: Database) {
+export async function cleanupOldImages(db: Database, expirySeconds: number) {
 	// Delete old images - metadata will be automatically deleted due to foreign key constraints
 	const imagesDeleted = db
-		.prepare(
-			"DELETE FROM images WHERE createdAt < datetime('now', '-30 minutes')"
-		)
-		.run().changes;
+		.prepare("DELETE FROM images WHERE updatedAt <= datetime('now', ?)")
+		.run(`-${expirySeconds} seconds`).changes;
 
-	// Log the deleted entries and their ages
+	// Log the deleted entries
 	if (imagesDeleted > 0) {
 		console.log(
-			`Cleaned up ${imagesDeleted} images (and associated metadata) older than 30 minutes`
+			`Cleaned up ${imagesDeleted} images (and associated metadata) older than ${expirySeconds} seconds`
 		);
 	}
 
 	return imagesDeleted;
 }
 
+// Fields that are stored directly on the images table
+const imageColumns = ["data", "status", "fileName", "timestamp"];
+
 /**
- * Store an image in SQLite
- * @param imageId - Unique identifier for the image
- * @param imageData - Image data as base64 string or Buffer
- * @param metadata - Optional metadata about the image
+ * Create an image store backed by the SQLite database
  */
-export async function storeImage(
-	imageId: string,
-	imageData: string | Buffer | null,
-	metadata: Record<string, any> = {}
-) {
-	const db = await getDatabase();
-
-	// Clean up old images before storing a new one
-	await cleanupOldImages(db);
-
-	// Convert Buffer to base64 string if needed
-	const imageStr = Buffer.isBuffer(imageData)
-		? imageData.toString("base64")
-		: imageData;
-
-	console.log(
-		`storing image in SQLite with id: ${imageId}, ${
-			imageStr?.substring(0, 100) || "[empty]"
-		}`
-	);
-
-	// Extract specific fields that are stored directly on the Image table
-	const { status, fileName, timestamp, ...otherMetadata } = metadata;
-
-	// Begin transaction
-	db.exec("BEGIN TRANSACTION");
-
-	try {
-		// Check if image exists
-		const existingImage = db
-			.prepare("SELECT id FROM images WHERE id = ?")
-			.get(imageId);
-
-		if (existingImage) {
-			// Update existing image
-			db.prepare(
-				`UPDATE images SET 
-				data = COALESCE(?, data), 
-				status = COALESCE(?, status), 
-				fileName = COALESCE(?, fileName), 
-				timestamp = COALESCE(?, timestamp),
-				updatedAt = CURRENT_TIMESTAMP 
-				WHERE id = ?`
-			).run(imageStr, status, fileName, timestamp, imageId);
-
-			// Delete existing metadata
-			db.prepare("DELETE FROM metadata WHERE imageId = ?").run(imageId);
-		} else {
-			// Insert new image
-			db.prepare(
-				"INSERT INTO images (id, data, status, fileName, timestamp) VALUES (?, ?, ?, ?, ?)"
-			).run(imageId, imageStr, status, fileName, timestamp);
-		}
-
-		// Store additional metadata fields
-		if (Object.keys(otherMetadata).length > 0) {
-			const insertMetadata = db.prepare(
-				"INSERT INTO metadata (imageId, key, value) VALUES (?, ?, ?)"
+export function createSqliteImageStore({
+	expirySeconds,
+}: {
+	expirySeconds: number;
+}): ImageStore {
+	// Only rows stored within the expiry are visible
+	const notExpired = "updatedAt > datetime('now', ?)";
+	const expiryModifier = `-${expirySeconds} seconds`;
+
+	return {
+		async storeImage(imageId, imageData, metadata = {}) {
+			const db = await getDatabase();
+
+			// Clean up old images before storing a new one
+			await cleanupOldImages(db, expirySeconds);
+
+			const data = toStoredData(imageData);
+
+			console.log(
+				`storing image in SQLite with id: ${imageId}, ${
+					data ? `${data.length} bytes` : "[empty]"
+				}`
 			);
 
-			for (const [key, value] of Object.entries(otherMetadata)) {
-				insertMetadata.run(imageId, key, JSON.stringify(value));
+			// Extract specific fields that are stored directly on the Image table
+			const { status, fileName, timestamp, ...otherMetadata } = metadata;
+
+			// Begin transaction
+			db.exec("BEGIN TRANSACTION");
+
+			try {
+				db.prepare(
+					`INSERT INTO images (id, data, status, fileName, timestamp) VALUES (?, ?, ?, ?, ?)
+					ON CONFLICT(id) DO UPDATE SET
+					data = COALESCE(excluded.data, data),
+					status = COALESCE(excluded.status, status),
+					fileName = COALESCE(excluded.fileName, fileName),
+					timestamp = COALESCE(excluded.timestamp, timestamp),
+					updatedAt = CURRENT_TIMESTAMP`
+				).run(
+					imageId,
+					data,
+					status ?? null,
+					fileName ?? null,
+					timestamp ?? null
+				);
+
+				// Merge additional metadata fields into the existing ones
+				const upsertMetadata = db.prepare(
+					`INSERT INTO metadata (imageId, key, value) VALUES (?, ?, ?)
+					ON CONFLICT(imageId, key) DO UPDATE SET value = excluded.value`
+				);
+				for (const [key, value] of Object.entries(otherMetadata)) {
+					if (value === undefined) continue;
+					upsertMetadata.run(imageId, key, JSON.stringify(value));
+				}
+
+				// Commit transaction
+				db.exec("COMMIT");
+			} catch (error) {
+				// Rollback on error
+				db.exec("ROLLBACK");
+				throw error;
 			}
-		}
-
-		// Commit transaction
-		db.exec("COMMIT");
-	} catch (error) {
-		// Rollback on error
-		db.exec("ROLLBACK");
-		throw error;
-	}
 
-	return `image:${imageId}`;
-}
-
-/**
- * Retrieve an image from SQLite
- * @param imageId - Unique identifier for the image
- * @returns Object containing image data and metadata, or null if not found
- */
-export async function getImage(imageId: string) {
-	const db = await getDatabase();
-
-	// Define types for database results
-	type ImageRecord = {
-		id: string;
-		data: string | null;
-		status: string | null;
-		fileName: string | null;
-		timestamp: string | null;
-		createdAt: string;
-		updatedAt: string;
-	};
-
-	type MetadataRecord = {
-		key: string;
-		value: string;
-	};
-
-	// Get the image record
-	const image = db.prepare("SELECT * FROM images WHERE id = ?").get(imageId) as
-		| ImageRecord
-		| undefined;
-
-	// If no data found, return null
-	if (!image) {
-		return null;
-	}
+			return `image:${imageId}`;
+		},
+
+		async getImage(imageId) {
+			const db = await getDatabase();
+
+			// Define types for database results
+			type ImageRecord = {
+				data: Buffer | null;
+				status: string | null;
+				fileName: string | null;
+				timestamp: string | null;
+			};
+
+			type MetadataRecord = {
+				key: string;
+				value: string;
+			};
+
+			// Get the image record
+			const image = db
+				.prepare(
+					`SELECT data, status, fileName, timestamp FROM images WHERE id = ? AND ${notExpired}`
+				)
+				.get(imageId, expiryModifier) as ImageRecord | undefined;
+
+			// If no data found, return null
+			if (!image) {
+				return null;
+			}
 
-	// Get all metadata for this image
-	const metadata = db
-		.prepare("SELECT key, value FROM metadata WHERE imageId = ?")
-		.all(imageId) as MetadataRecord[];
-
-	// Format the result to match Redis implementation
-	const result: Record<string, any> = {
-		data: image.data,
-		status: image.status,
-		fileName: image.fileName,
-		timestamp: image.timestamp,
-	};
+			// Get all metadata for this image
+			const metadata = db
+				.prepare("SELECT key, value FROM metadata WHERE imageId = ?")
+				.all(imageId) as MetadataRecord[];
 
-	// Add metadata fields
-	for (const meta of metadata) {
-		try {
-			result[meta.key] = JSON.parse(meta.value);
-		} catch {
-			result[meta.key] = meta.value;
-		}
-	}
+			// Only include the direct fields that were set, like the other stores
+			const result: StoredImage = { data: image.data };
+			if (image.status !== null) result.status = image.status;
+			if (image.fileName !== null) result.fileName = image.fileName;
+			if (image.timestamp !== null) result.timestamp = image.timestamp;
 
-	return result;
-}
+			// Add metadata fields
+			for (const meta of metadata) {
+				result[meta.key] = parseStoredValue(meta.value);
+			}
 
-/**
- * Get a specific field from an image in SQLite
- * @param imageId - Unique identifier for the image
- * @param field - The specific field to retrieve (e.g., "status", "fileType")
- * @returns The value of the field, or null if not found
- */
-export async function getImageField(imageId: string, field: string) {
-	const db = await getDatabase();
+			return result;
+		},
+
+		async listImages({ where, orderBy = "timestamp", limit, offset = 0 }) {
+			const db = await getDatabase();
+
+			// Direct fields are compared as they are, metadata as JSON
+			const conditions = [notExpired];
+			const params: unknown[] = [expiryModifier];
+			for (const [key, value] of Object.entries(where)) {
+				if (imageColumns.includes(key)) {
+					conditions.push(`${key} = ?`);
+					params.push(value);
+				} else {
+					conditions.push(
+						"EXISTS (SELECT 1 FROM metadata WHERE imageId = images.id AND key = ? AND value = ?)"
+					);
+					params.push(key, JSON.stringify(value));
+				}
+			}
+			const filter = conditions.join(" AND ");
+
+			const { total } = db
+				.prepare(`SELECT COUNT(*) AS total FROM images WHERE ${filter}`)
+				.get(...params) as { total: number };
+
+			// NULL sorts first in SQLite, so missing values come last when descending
+			const sortValue = imageColumns.includes(orderBy)
+				? orderBy
+				: "(SELECT value FROM metadata WHERE imageId = images.id AND key = ?)";
+			const sortParams = imageColumns.includes(orderBy) ? [] : [orderBy];
+			const rows = db
+				.prepare(
+					`SELECT id, status, fileName, timestamp FROM images WHERE ${filter}
+					ORDER BY ${sortValue} DESC, createdAt DESC LIMIT ? OFFSET ?`
+				)
+				.all(...params, ...sortParams, limit ?? -1, offset) as {
+				id: string;
+				status: string | null;
+				fileName: string | null;
+				timestamp: string | null;
+			}[];
+
+			const getMetadata = db.prepare(
+				"SELECT key, value FROM metadata WHERE imageId = ?"
+			);
+			const images: ListedImage[] = [];
+			for (const row of rows) {
+				const image: ListedImage = { id: row.id };
+				if (row.status !== null) image.status = row.status;
+				if (row.fileName !== null) image.fileName = row.fileName;
+				if (row.timestamp !== null) image.timestamp = row.timestamp;
+
+				const metadata = getMetadata.all(row.id) as {
+					key: string;
+					value: string;
+				}[];
+				for (const meta of metadata) {
+					image[meta.key] = parseStoredValue(meta.value);
+				}
+				images.push(image);
+			}
 
-	// Define type for query result
-	type QueryResult = Record<string, any>;
+			return { images, total };
+		},
 
-	// Check if the field is a direct property of the Image table
-	if (["data", "status", "fileName", "timestamp"].includes(field)) {
-		const query = `SELECT ${field} FROM images WHERE id = ?`;
-		const result = db.prepare(query).get(imageId) as QueryResult | undefined;
-		return result ? result[field] : null;
-	}
+		async getImageField(imageId, field) {
+			const db = await getDatabase();
 
-	// Otherwise, look in the metadata table
-	const metadata = db
-		.prepare("SELECT value FROM metadata WHERE imageId = ? AND key = ?")
-		.get(imageId, field) as { value: string } | undefined;
+			// Check if the field is a direct property of the Image table
+			if (imageColumns.includes(field)) {
+				const query = `SELECT ${field} FROM images WHERE id = ? AND ${notExpired}`;
+				const result = db.prepare(query).get(imageId, expiryModifier) as
+					| Record<string, any>
+					| undefined;
+				return result?.[field] ?? null;
+			}
 
-	if (!metadata) {
-		return null;
-	}
+			// Otherwise, look in the metadata table
+			const metadata = db
+				.prepare(
+					`SELECT metadata.value FROM metadata
+					JOIN images ON images.id = metadata.imageId
+					WHERE metadata.imageId = ? AND metadata.key = ? AND images.${notExpired}`
+				)
+				.get(imageId, field, expiryModifier) as { value: string } | undefined;
+
+			if (!metadata) {
+				return null;
+			}
 
-	// Try to parse JSON if it looks like JSON
-	try {
-		return JSON.parse(metadata.value);
-	} catch {
-		// If it's not valid JSON, return the raw value
-		return metadata.value;
-	}
-}
+			return parseStoredValue(metadata.value);
+		},
 
-/**
- * Delete an image from SQLite
- * @param imageId - Unique identifier for the image
- */
-export async function deleteImage(imageId: string) {
-	const db = await getDatabase();
+		async deleteImage(imageId) {
+			const db = await getDatabase();
 
-	// Begin transaction
-	db.exec("BEGIN TRANSACTION");
+			// Begin transaction
+			db.exec("BEGIN TRANSACTION");
 
-	try {
-		// Delete metadata first (though the foreign key constraint should handle this)
-		db.prepare("DELETE FROM metadata WHERE imageId = ?").run(imageId);
+			try {
+				// Delete metadata first (though the foreign key constraint should handle this)
+				db.prepare("DELETE FROM metadata WHERE imageId = ?").run(imageId);
 
-		// Delete the image
-		const result = db.prepare("DELETE FROM images WHERE id = ?").run(imageId);
+				// Delete the image
+				const result = db
+					.prepare(`DELETE FROM images WHERE id = ? AND ${notExpired}`)
+					.run(imageId, expiryModifier);
 
-		// Commit transaction
-		db.exec("COMMIT");
+				// Commit transaction
+				db.exec("COMMIT");
 
-		return result.changes; // Return number of rows affected, similar to Redis del command
-	} catch (error) {
-		// Rollback on error
-		db.exec("ROLLBACK");
-		throw error;
-	}
+				return result.changes; // Return number of rows affected, similar to Redis del command
+			} catch (error) {
+				// Rollback on error
+				db.exec("ROLLBACK");
+				throw error;
+			}
+		},
+	};
 }
 
 // Initialize the database
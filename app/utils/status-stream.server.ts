@@ -0,0 +1,106 @@
+/**
+ * Server-Sent Events streams of render and batch statuses
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import { subscribeToImage } from "./image-events.server";
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Picks up updates made by other processes, which are not published in-process
+const RECHECK_INTERVAL_MS = 5_000;
+const MAX_STREAM_DURATION_MS = 15 * 60 * 1000;
+
+/**
+ * Stream a status as `status` events, sending it again whenever it changes
+ * The stream closes once the status is final, the client disconnects or
+ * after MAX_STREAM_DURATION_MS
+ * @param imageIds - Images whose updates can change the status
+ */
+export function createStatusStream<T>(
+	request: Request,
+	{
+		initialStatus,
+		imageIds,
+		getStatus,
+		isFinal,
+	}: {
+		initialStatus: T;
+		imageIds: string[];
+		getStatus: () => Promise<T | null>;
+		isFinal: (status: T) => boolean;
+	}
+): Response {
+	const encoder = new TextEncoder();
+	let isClosed = false;
+	let cleanup = () => {};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			let lastSent = "";
+
+			const close = () => {
+				if (isClosed) return;
+				isClosed = true;
+				cleanup();
+				try {
+					controller.close();
+				} catch {
+					// The client already disconnected
+				}
+			};
+
+			const send = (status: T) => {
+				const data = JSON.stringify(status);
+				if (isClosed || data === lastSent) return;
+
+				lastSent = data;
+				controller.enqueue(encoder.encode(`event: status\ndata: ${data}\n\n`));
+				if (isFinal(status)) close();
+			};
+
+			const refresh = async () => {
+				try {
+					const status = await getStatus();
+					if (status) send(status);
+				} catch (error) {
+					console.error("Error fetching status:", error);
+				}
+			};
+
+			const unsubscribers: (() => void)[] = [];
+			for (const imageId of imageIds) {
+				unsubscribers.push(subscribeToImage(imageId, refresh));
+			}
+			const recheckId = setInterval(refresh, RECHECK_INTERVAL_MS);
+			const heartbeatId = setInterval(() => {
+				if (!isClosed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+			}, HEARTBEAT_INTERVAL_MS);
+			const timeoutId = setTimeout(close, MAX_STREAM_DURATION_MS);
+
+			cleanup = () => {
+				for (const unsubscribe of unsubscribers) {
+					unsubscribe();
+				}
+				clearInterval(recheckId);
+				clearInterval(heartbeatId);
+				clearTimeout(timeoutId);
+				request.signal.removeEventListener("abort", close);
+			};
+			request.signal.addEventListener("abort", close);
+
+			send(initialStatus);
+		},
+		cancel() {
+			isClosed = true;
+			cleanup();
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+		},
+	});
+}
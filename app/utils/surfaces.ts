@@ -0,0 +1,150 @@
+/**
+ * Surfaces of a room or building that can be painted in their own color
+ */
+import type { PaintFinish } from "./paints";
+
+/** Whether a photo shows a room or the outside of a building */
+export type SceneMode = "interior" | "exterior";
+
+export const sceneModes: SceneMode[] = ["interior", "exterior"];
+
+export const sceneModeLabels: Record<SceneMode, string> = {
+	interior: "Interior",
+	exterior: "Exterior",
+};
+
+/** Kinds of rooms an interior photo can be described as */
+export const roomTypes = [
+	"living room",
+	"bedroom",
+	"kitchen",
+	"bathroom",
+	"dining room",
+	"home office",
+	"hallway",
+	"children's room",
+];
+
+/** Room type of photos without a chosen one, so prompts can always use it */
+export const defaultRoomTypes: Record<SceneMode, string> = {
+	interior: "room",
+	exterior: "building",
+};
+
+export type SurfaceType =
+	| "walls"
+	| "ceiling"
+	| "accent_wall"
+	| "trim"
+	| "doors"
+	| "facade"
+	| "roof"
+	| "fascia"
+	| "gutters"
+	| "window_frames"
+	| "exterior_doors";
+
+/** Surfaces of each mode in the order they are painted, later ones cover earlier ones */
+export const sceneSurfaces: Record<SceneMode, SurfaceType[]> = {
+	interior: ["walls", "ceiling", "accent_wall", "trim", "doors"],
+	exterior: [
+		"facade",
+		"roof",
+		"fascia",
+		"gutters",
+		"window_frames",
+		"exterior_doors",
+	],
+};
+
+/**
+ * Surface of each mode that the colors are chosen, compared and masked for
+ * The other surfaces are painted the same in every compared color
+ */
+export const mainSurfaces: Record<SceneMode, SurfaceType> = {
+	interior: "walls",
+	exterior: "facade",
+};
+
+/** Surfaces in the order they are painted */
+export const surfaceTypes: SurfaceType[] = [
+	...sceneSurfaces.interior,
+	...sceneSurfaces.exterior,
+];
+
+export const surfaceLabels: Record<SurfaceType, string> = {
+	walls: "Main walls",
+	ceiling: "Ceiling",
+	accent_wall: "Accent wall",
+	trim: "Trim and skirting",
+	doors: "Doors",
+	facade: "Facade",
+	roof: "Roof",
+	fascia: "Fascia and soffits",
+	gutters: "Gutters and downpipes",
+	window_frames: "Window frames",
+	exterior_doors: "Front and garage doors",
+};
+
+/** Finish a surface is painted in when none was chosen */
+export const defaultSurfaceFinishes: Record<SurfaceType, PaintFinish> = {
+	walls: "matte",
+	ceiling: "flat",
+	accent_wall: "matte",
+	trim: "semi-gloss",
+	doors: "satin",
+	facade: "masonry",
+	roof: "matte",
+	fascia: "satin",
+	gutters: "semi-gloss",
+	window_frames: "semi-gloss",
+	exterior_doors: "gloss",
+};
+
+/** Finishes that can be chosen for the main surface of each mode */
+export const sceneFinishes: Record<SceneMode, PaintFinish[]> = {
+	interior: [
+		"flat",
+		"matte",
+		"eggshell",
+		"satin",
+		"semi-gloss",
+		"gloss",
+		"limewash",
+	],
+	exterior: [
+		"masonry",
+		"flat",
+		"matte",
+		"satin",
+		"semi-gloss",
+		"gloss",
+		"limewash",
+		"stain",
+	],
+};
+
+/**
+ * Whether a value is a known surface type
+ */
+export function isSurfaceType(value: string): value is SurfaceType {
+	return (surfaceTypes as string[]).includes(value);
+}
+
+/**
+ * Whether a value is a known scene mode
+ */
+export function isSceneMode(value: string): value is SceneMode {
+	return (sceneModes as string[]).includes(value);
+}
+
+/**
+ * Sort surfaces into the order they are painted in
+ */
+export function sortBySurface<T extends { surface: SurfaceType }>(
+	surfaces: T[]
+): T[] {
+	return [...surfaces].sort(
+		(a, b) => surfaceTypes.indexOf(a.surface) - surfaceTypes.indexOf(b.surface)
+	);
+}
@@ -0,0 +1,37 @@
+/**
+ * Checks shared by the test scripts in this directory
+ * Every check logs its outcome, and the script exits with an error code when
+ * one of them failed
+ */
+import { isDeepStrictEqual } from "util";
+
+let failures = 0;
+
+export function check(description: string, actual: unknown, expected: unknown) {
+	if (isDeepStrictEqual(actual, expected)) {
+		console.log(`  ✅ ${description}`);
+	} else {
+		failures++;
+		console.log(`  ❌ ${description}`);
+		console.log("     Expected:", expected);
+		console.log("     Actual:", actual);
+	}
+}
+
+/**
+ * Record an error that stopped a group of checks
+ */
+export function fail(description: string, error: unknown) {
+	failures++;
+	console.error(`  ❌ ${description}:`, error);
+}
+
+/**
+ * Log the outcome of all checks and set the exit code of the script
+ */
+export function reportResults() {
+	console.log(
+		failures === 0 ? "All tests passed!" : `${failures} checks failed`
+	);
+	process.exitCode = failures === 0 ? 0 : 1;
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests of the color conversions, the CIEDE2000 difference and the parsing
+ * of typed colors. Run with: npm test
+ */
+import {
+	deltaE2000,
+	hexToRgb,
+	labToRgb,
+	normalizeHex,
+	parseColor,
+	rgbToHex,
+	rgbToLab,
+	type LAB,
+} from "./color";
+import { check, reportResults } from "./test-check";
+
+// Pairs from the test data of Sharma, Wu and Dalal (2005), with their
+// CIEDE2000 difference to four decimals
+const referencePairs: [LAB, LAB, number][] = [
+	[{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+	[{ l: 50, a: 3.1571, b: -77.2803 }, { l: 50, a: 0, b: -82.7485 }, 2.8615],
+	[{ l: 50, a: 2.8361, b: -74.02 }, { l: 50, a: 0, b: -82.7485 }, 3.4412],
+	[{ l: 50, a: 0, b: 0 }, { l: 50, a: -1, b: 2 }, 2.3669],
+	[{ l: 50, a: 2.49, b: -0.001 }, { l: 50, a: -2.49, b: 0.0009 }, 7.1792],
+	[{ l: 50, a: 2.49, b: -0.001 }, { l: 50, a: -2.49, b: 0.0011 }, 7.2195],
+	[{ l: 50, a: -0.001, b: 2.49 }, { l: 50, a: 0.0009, b: -2.49 }, 4.8045],
+	[{ l: 50, a: 2.5, b: 0 }, { l: 56, a: -27, b: -3 }, 31.903],
+	[{ l: 50, a: 2.5, b: 0 }, { l: 58, a: 24, b: 15 }, 19.4535],
+	[{ l: 50, a: 2.5, b: 0 }, { l: 50, a: 3.1736, b: 0.5854 }, 1.0],
+	[
+		{ l: 60.2574, a: -34.0099, b: 36.2677 },
+		{ l: 60.4626, a: -34.1751, b: 39.4387 },
+		1.2644,
+	],
+	[
+		{ l: 63.0109, a: -31.0961, b: -5.8663 },
+		{ l: 62.8187, a: -29.7946, b: -4.0864 },
+		1.263,
+	],
+	[
+		{ l: 90.8027, a: -2.0831, b: 1.441 },
+		{ l: 91.1528, a: -1.6435, b: 0.0447 },
+		1.4441,
+	],
+	[
+		{ l: 90.9257, a: -0.5406, b: -0.9208 },
+		{ l: 88.6381, a: -0.8985, b: -0.7239 },
+		1.5381,
+	],
+];
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+function testDeltaE2000() {
+	console.log("Testing deltaE2000...");
+
+	for (const [first, second, expected] of referencePairs) {
+		const label = (lab: LAB) => `(${lab.l}, ${lab.a}, ${lab.b})`;
+		check(
+			`${label(first)} to ${label(second)} is ${expected}`,
+			round(deltaE2000(first, second)),
+			expected
+		);
+		check(
+			`${label(second)} to ${label(first)} is the same`,
+			round(deltaE2000(second, first)),
+			expected
+		);
+	}
+
+	const sage = { l: 72.8, a: -6.2, b: 18.4 };
+	check("a color has no difference to itself", deltaE2000(sage, sage), 0);
+}
+
+function testConversions() {
+	console.log("Testing color conversions...");
+
+	check("hexToRgb parses #RRGGBB", hexToRgb("#A1B2c3"), {
+		r: 161,
+		g: 178,
+		b: 195,
+	});
+	check("hexToRgb parses hex without #", hexToRgb("a1b2c3"), {
+		r: 161,
+		g: 178,
+		b: 195,
+	});
+	check("hexToRgb rejects short hex", hexToRgb("#abc"), null);
+	check(
+		"rgbToHex formats uppercase and clamps",
+		rgbToHex({ r: 300, g: 15.6, b: -4 }),
+		"#FF1000"
+	);
+	check("normalizeHex uppercases", normalizeHex("#aabbcc"), "#AABBCC");
+	check("normalizeHex adds the #", normalizeHex(" aabbcc "), "#AABBCC");
+	check("normalizeHex rejects invalid colors", normalizeHex("#aabbc"), null);
+
+	const white = rgbToLab({ r: 255, g: 255, b: 255 });
+	check("white has lightness 100", round(white.l, 2), 100);
+	check("white has no chroma", round(Math.hypot(white.a, white.b), 2), 0);
+	const black = rgbToLab({ r: 0, g: 0, b: 0 });
+	check("black has lightness 0", round(black.l, 2), 0);
+
+	for (const hex of ["#BCB88A", "#800020", "#36454F", "#98FB98"]) {
+		check(
+			`${hex} survives the round trip through CIELAB`,
+			rgbToHex(labToRgb(rgbToLab(hexToRgb(hex)!))),
+			hex
+		);
+	}
+}
+
+function testParseColor() {
+	console.log("Testing parseColor...");
+
+	const validColors: [string, { r: number; g: number; b: number }][] = [
+		["#A1B2C3", { r: 161, g: 178, b: 195 }],
+		["a1b2c3", { r: 161, g: 178, b: 195 }],
+		["#abc", { r: 170, g: 187, b: 204 }],
+		["  FFF ", { r: 255, g: 255, b: 255 }],
+		["rgb(255, 128, 0)", { r: 255, g: 128, b: 0 }],
+		["RGB(255 128 0)", { r: 255, g: 128, b: 0 }],
+		["rgb(10.4, 20.6, 0)", { r: 10, g: 21, b: 0 }],
+		["hsl(120, 100%, 50%)", { r: 0, g: 255, b: 0 }],
+		["hsl(240deg 100% 25%)", { r: 0, g: 0, b: 128 }],
+		["hsl(-120, 100%, 50%)", { r: 0, g: 0, b: 255 }],
+		["hsl(0, 0%, 100%)", { r: 255, g: 255, b: 255 }],
+	];
+	for (const [input, expected] of validColors) {
+		check(`parses "${input}"`, parseColor(input), expected);
+	}
+
+	const invalidColors = [
+		"",
+		"red",
+		"#abcd",
+		"#ggg",
+		"#a1b2c3d4",
+		"rgb(256, 0, 0)",
+		"rgb(-1, 0, 0)",
+		"rgb(1, 2)",
+		"rgb(1, 2, 3, 4)",
+		"rgba(1, 2, 3, 0.5)",
+		"hsl(0, 101%, 50%)",
+		"hsl(0, 50%, -1%)",
+		"hsl(0, 50, 50)",
+		"hsl(a, 50%, 50%)",
+	];
+	for (const input of invalidColors) {
+		check(`rejects "${input}"`, parseColor(input), null);
+	}
+}
+
+testDeltaE2000();
+testConversions();
+testParseColor();
+reportResults();
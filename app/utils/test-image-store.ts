@@ -0,0 +1,258 @@
+/**
+ * Conformance tests for the image store backends
+ * Runs the same checks against the memory and SQLite stores, and against Redis
+ * when REDIS_URL is set. Run with: npm test
+ */
+import * as os from "os";
+import * as path from "path";
+import {
+	createImageStore,
+	type ImageStore,
+	type ImageStoreName,
+} from "./image-store.server";
+import { check, fail, reportResults } from "./test-check";
+
+// Keep the test database away from the application database
+process.env.DATABASE_PATH ??= path.join(
+	os.tmpdir(),
+	`image-store-test-${Date.now()}.db`
+);
+
+const EXPIRY_SECONDS = 1;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function testStoreAndRetrieve(store: ImageStore) {
+	const imageId = "test-image-" + Date.now();
+	const metadata = {
+		status: "testing",
+		fileName: "test.png",
+		timestamp: new Date().toISOString(),
+		customField: "custom value",
+		jsonField: { test: true, nested: { value: 42 } },
+		count: 3,
+		empty: null,
+	};
+
+	const data = Buffer.from("test-image-data");
+	await store.storeImage(imageId, data, metadata);
+
+	check("getImage returns data and all fields", await store.getImage(imageId), {
+		data,
+		...metadata,
+	});
+	check(
+		"getImageField returns a direct field",
+		await store.getImageField(imageId, "status"),
+		"testing"
+	);
+	check(
+		"getImageField returns a JSON field",
+		await store.getImageField(imageId, "jsonField"),
+		metadata.jsonField
+	);
+	check(
+		"getImageField keeps number types",
+		await store.getImageField(imageId, "count"),
+		3
+	);
+	check(
+		"getImageField returns the data",
+		await store.getImageField(imageId, "data"),
+		data
+	);
+	check(
+		"getImageField returns null for a missing field",
+		await store.getImageField(imageId, "missing"),
+		null
+	);
+	check(
+		"getImageField returns null for a missing image",
+		await store.getImageField("missing-" + imageId, "status"),
+		null
+	);
+
+	await store.deleteImage(imageId);
+}
+
+async function testMerge(store: ImageStore) {
+	const imageId = "test-merge-" + Date.now();
+
+	await store.storeImage(imageId, Buffer.from("original"), {
+		status: "pending",
+		fileName: "room.png",
+		stage: "painting",
+	});
+	await store.storeImage(imageId, null, {
+		status: "completed",
+		resultId: "result-1",
+		stage: undefined,
+	});
+
+	check("storing merges metadata", await store.getImage(imageId), {
+		data: Buffer.from("original"),
+		status: "completed",
+		fileName: "room.png",
+		stage: "painting",
+		resultId: "result-1",
+	});
+
+	await store.storeImage(imageId, "", { status: "error" });
+	check(
+		"storing empty data keeps the existing data",
+		await store.getImageField(imageId, "data"),
+		Buffer.from("original")
+	);
+
+	await store.storeImage(imageId, Buffer.from("replaced").toString("base64"), {});
+	check(
+		"storing base64 data stores the decoded bytes",
+		await store.getImageField(imageId, "data"),
+		Buffer.from("replaced")
+	);
+
+	await store.deleteImage(imageId);
+}
+
+async function testDelete(store: ImageStore) {
+	const imageId = "test-delete-" + Date.now();
+
+	await store.storeImage(imageId, Buffer.from("data"), {
+		status: "pending",
+		extra: 1,
+	});
+	check("deleteImage returns 1", await store.deleteImage(imageId), 1);
+	check("deleted image is gone", await store.getImage(imageId), null);
+	check(
+		"deleted image metadata is gone",
+		await store.getImageField(imageId, "extra"),
+		null
+	);
+	check("deleting again returns 0", await store.deleteImage(imageId), 0);
+}
+
+async function testList(store: ImageStore) {
+	const run = "test-list-" + Date.now();
+	const images = [
+		{ id: `${run}-1`, status: "completed", color: "red", order: "2" },
+		{ id: `${run}-2`, status: "pending", color: "red", order: "3" },
+		{ id: `${run}-3`, status: "completed", color: "blue", order: "1" },
+		{ id: `${run}-4`, status: "completed", color: "red" },
+	];
+	for (const { id, ...metadata } of images) {
+		await store.storeImage(id, Buffer.from("data"), { run, ...metadata });
+	}
+
+	const list = await store.listImages({ where: { run }, orderBy: "order" });
+	check(
+		"listImages returns the fields without the data, sorted descending",
+		list,
+		{
+			images: [images[1], images[0], images[2], images[3]].map((image) => ({
+				...image,
+				run,
+			})),
+			total: 4,
+		}
+	);
+
+	const filtered = await store.listImages({
+		where: { run, status: "completed", color: "red" },
+		orderBy: "order",
+	});
+	check(
+		"listImages filters by direct and metadata fields",
+		filtered.images.map(({ id }) => id),
+		[images[0].id, images[3].id]
+	);
+
+	const page = await store.listImages({
+		where: { run },
+		orderBy: "order",
+		limit: 2,
+		offset: 1,
+	});
+	check(
+		"listImages returns a page with the total",
+		{ ids: page.images.map(({ id }) => id), total: page.total },
+		{ ids: [images[0].id, images[2].id], total: 4 }
+	);
+
+	check(
+		"listImages returns nothing without matches",
+		await store.listImages({ where: { run, color: "green" } }),
+		{ images: [], total: 0 }
+	);
+
+	for (const { id } of images) {
+		await store.deleteImage(id);
+	}
+}
+
+async function testExpiry(store: ImageStore) {
+	const imageId = "test-expiry-" + Date.now();
+
+	await store.storeImage(imageId, Buffer.from("data"), {
+		status: "pending",
+		extra: 1,
+	});
+	check(
+		"image is available before it expires",
+		await store.getImageField(imageId, "status"),
+		"pending"
+	);
+
+	// SQLite timestamps have a resolution of one second
+	await wait(EXPIRY_SECONDS * 1000 + 1500);
+
+	check("expired image is gone", await store.getImage(imageId), null);
+	check(
+		"expired image fields are gone",
+		await store.getImageField(imageId, "extra"),
+		null
+	);
+
+	await store.storeImage(imageId, null, { status: "completed" });
+	check(
+		"storing after expiry starts a new image",
+		await store.getImage(imageId),
+		{ data: null, status: "completed" }
+	);
+
+	await store.deleteImage(imageId);
+}
+
+async function testImageStore(name: ImageStoreName) {
+	console.log(`Testing ${name} image store...`);
+	const store = await createImageStore(name, {
+		expirySeconds: EXPIRY_SECONDS,
+	});
+
+	try {
+		await testStoreAndRetrieve(store);
+		await testMerge(store);
+		await testDelete(store);
+		await testList(store);
+		await testExpiry(store);
+	} catch (error) {
+		fail(`Error during ${name} tests`, error);
+	}
+}
+
+async function testImageStores() {
+	const names: ImageStoreName[] = ["memory", "sqlite"];
+	if (process.env.REDIS_URL) names.push("redis");
+
+	for (const name of names) {
+		await testImageStore(name);
+	}
+
+	if (process.env.REDIS_URL) {
+		await (await import("./redis.server")).closeRedisClient();
+	}
+
+	reportResults();
+}
+
+// Run the tests
+testImageStores();
@@ -0,0 +1,273 @@
+/**
+ * Tests of the render job queue: claiming, retries, timeouts and recovery
+ * after a restart, against a temporary SQLite database. Run with: npm test
+ */
+import * as os from "os";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { JobStatus } from "./jobs.server";
+import { check, fail, reportResults } from "./test-check";
+
+// Keep the test database away from the application database
+process.env.DATABASE_PATH ??= path.join(
+	os.tmpdir(),
+	`jobs-test-${Date.now()}.db`
+);
+process.env.IMAGE_STORE = "memory";
+process.env.JOB_TIMEOUT_SECONDS = "60";
+
+// The database path is read on import, so the queue is imported afterwards
+const {
+	claimNextJob,
+	failStuckJobs,
+	getRetryDelayMs,
+	recoverInterruptedJobs,
+	updateRunningJob,
+} = await import("./jobs.server");
+const { getImageStore } = await import("./image-store.server");
+const { getDatabase } = await import("./sqlite.server");
+
+const minutesAgo = (minutes: number) =>
+	new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+/**
+ * Insert a job as the worker would have left it
+ * @returns The ids of the job and its image
+ */
+async function insertJob(job: {
+	status: JobStatus;
+	attempts?: number;
+	maxAttempts?: number;
+	runAfter?: string;
+	lockedAt?: string | null;
+}) {
+	const db = await getDatabase();
+	const id = uuidv4();
+	const imageId = `jobs-test-${id}`;
+	db.prepare(
+		"INSERT INTO jobs (id, imageId, payload, status, attempts, maxAttempts, runAfter, lockedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+	).run(
+		id,
+		imageId,
+		JSON.stringify({ test: true }),
+		job.status,
+		job.attempts ?? 0,
+		job.maxAttempts ?? 3,
+		job.runAfter ?? minutesAgo(1),
+		job.lockedAt ?? null
+	);
+	return { id, imageId };
+}
+
+async function readJob(id: string) {
+	const db = await getDatabase();
+	return db
+		.prepare(
+			"SELECT status, attempts, lockedAt, lastError, payload FROM jobs WHERE id = ?"
+		)
+		.get(id) as {
+		status: JobStatus;
+		attempts: number;
+		lockedAt: string | null;
+		lastError: string | null;
+		payload: string | null;
+	};
+}
+
+async function readImageStatus(imageId: string) {
+	const imageStore = await getImageStore();
+	return {
+		status: await imageStore.getImageField(imageId, "status"),
+		stage: await imageStore.getImageField(imageId, "stage"),
+	};
+}
+
+function testRetryDelay() {
+	console.log("Testing retry backoff...");
+
+	check("waits 5 seconds after the first attempt", getRetryDelayMs(1), 5000);
+	check("waits 10 seconds after the second attempt", getRetryDelayMs(2), 10000);
+	check("waits 20 seconds after the third attempt", getRetryDelayMs(3), 20000);
+}
+
+async function testClaimAndUpdate() {
+	console.log("Testing claiming and updating jobs...");
+
+	const later = await insertJob({
+		status: "queued",
+		runAfter: new Date(Date.now() + 60 * 1000).toISOString(),
+	});
+	const due = await insertJob({ status: "queued" });
+
+	const claimed = await claimNextJob();
+	check("claims the due job", claimed?.id, due.id);
+	if (!claimed) return;
+	check("a claimed job is running", claimed.status, "running");
+	check("claiming counts the attempt", claimed.attempts, 1);
+	check("a claimed job is locked", claimed.lockedAt !== null, true);
+	check(
+		"jobs that are not due yet are not claimed",
+		await claimNextJob(),
+		null
+	);
+
+	check(
+		"a running job can be queued for a retry",
+		await updateRunningJob(claimed, "queued", "Provider busy", minutesAgo(1)),
+		true
+	);
+	const queued = await readJob(due.id);
+	check("a retried job is queued again", queued.status, "queued");
+	check("a retried job keeps its payload", queued.payload !== null, true);
+	check("a retried job records the error", queued.lastError, "Provider busy");
+	check("a retried job is unlocked", queued.lockedAt, null);
+
+	const reclaimed = await claimNextJob();
+	check("the retry is claimed again", reclaimed?.attempts, 2);
+	if (!reclaimed) return;
+
+	// The first attempt finishing late must not overwrite the second one
+	check(
+		"a stale attempt can't update the job",
+		await updateRunningJob(claimed, "completed", null),
+		false
+	);
+	check("the job stays running", (await readJob(due.id)).status, "running");
+
+	check(
+		"the current attempt completes the job",
+		await updateRunningJob(reclaimed, "completed", null),
+		true
+	);
+	const completed = await readJob(due.id);
+	check("the job is completed", completed.status, "completed");
+	check("a finished job drops its payload", completed.payload, null);
+	check(
+		"a finished job can't be updated again",
+		await updateRunningJob(reclaimed, "error", "Too late"),
+		false
+	);
+
+	// Leave the queue empty for the other tests
+	(await getDatabase()).prepare("DELETE FROM jobs WHERE id = ?").run(later.id);
+}
+
+async function testFailStuckJobs() {
+	console.log("Testing failStuckJobs...");
+
+	// A claimed job whose worker hasn't finished in time
+	const stuck = await insertJob({ status: "queued" });
+	const attempt = await claimNextJob();
+	check("claims the job", attempt?.id, stuck.id);
+	if (!attempt) return;
+	(await getDatabase())
+		.prepare("UPDATE jobs SET lockedAt = ? WHERE id = ?")
+		.run(minutesAgo(2), stuck.id);
+	const active = await insertJob({
+		status: "running",
+		attempts: 1,
+		lockedAt: new Date().toISOString(),
+	});
+
+	await failStuckJobs();
+
+	const failed = await readJob(stuck.id);
+	check("a job running past the timeout fails", failed.status, "error");
+	check(
+		"the timeout is the error",
+		failed.lastError,
+		"Render timed out after 60 seconds"
+	);
+	check("a failed job drops its payload", failed.payload, null);
+	check(
+		"the image of a timed out job is marked failed",
+		(await readImageStatus(stuck.imageId)).status,
+		"error"
+	);
+	check(
+		"a job within the timeout keeps running",
+		(await readJob(active.id)).status,
+		"running"
+	);
+
+	// The attempt that timed out may still finish
+	check(
+		"a timed out attempt can't complete the job",
+		await updateRunningJob(attempt, "completed", null),
+		false
+	);
+	check(
+		"the timed out job stays failed",
+		(await readJob(stuck.id)).status,
+		"error"
+	);
+
+	(await getDatabase()).prepare("DELETE FROM jobs WHERE id = ?").run(active.id);
+}
+
+async function testRecoverInterruptedJobs() {
+	console.log("Testing recoverInterruptedJobs...");
+
+	const interrupted = await insertJob({
+		status: "running",
+		attempts: 1,
+		lockedAt: new Date().toISOString(),
+	});
+	const exhausted = await insertJob({
+		status: "running",
+		attempts: 3,
+		lockedAt: new Date().toISOString(),
+	});
+	const queued = await insertJob({ status: "queued" });
+
+	await recoverInterruptedJobs();
+
+	const requeued = await readJob(interrupted.id);
+	check("an interrupted job is queued again", requeued.status, "queued");
+	check("a requeued job keeps its attempts", requeued.attempts, 1);
+	check("a requeued job keeps its payload", requeued.payload !== null, true);
+	check("a requeued job is unlocked", requeued.lockedAt, null);
+	check(
+		"the image of a requeued job is queued",
+		await readImageStatus(interrupted.imageId),
+		{ status: "pending", stage: "queued" }
+	);
+
+	const failed = await readJob(exhausted.id);
+	check(
+		"an interrupted job without attempts left fails",
+		failed.status,
+		"error"
+	);
+	check(
+		"the restart is the error",
+		failed.lastError,
+		"Render was interrupted by a server restart"
+	);
+	check(
+		"the image of a failed job is marked failed",
+		(await readImageStatus(exhausted.imageId)).status,
+		"error"
+	);
+
+	check(
+		"queued jobs are left alone",
+		(await readJob(queued.id)).lastError,
+		null
+	);
+}
+
+async function testJobs() {
+	try {
+		testRetryDelay();
+		await testClaimAndUpdate();
+		await testFailStuckJobs();
+		await testRecoverInterruptedJobs();
+	} catch (error) {
+		fail("Error during job queue tests", error);
+	}
+	reportResults();
+}
+
+// Run the tests
+testJobs();
@@ -0,0 +1,242 @@
+/**
+ * Tests of the preparation of uploaded masks: reading the painted areas,
+ * sizing, edge adjustments and coverage. Run with: npm test
+ */
+import sharp from "sharp";
+import { parseMaskAdjustments, prepareMask } from "./mask.server";
+import { check, fail, reportResults } from "./test-check";
+
+const WIDTH = 100;
+const HEIGHT = 80;
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+type RGBA = [number, number, number, number];
+
+const BLACK: RGBA = [0, 0, 0, 255];
+const WHITE: RGBA = [255, 255, 255, 255];
+const TRANSPARENT: RGBA = [0, 0, 0, 0];
+
+/**
+ * PNG of the given size with a rectangle drawn on a background
+ */
+function drawMask(
+	width: number,
+	height: number,
+	background: RGBA,
+	rectangle: { left: number; top: number; width: number; height: number },
+	fill: RGBA
+) {
+	const pixels = Buffer.alloc(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const isInside =
+				x >= rectangle.left &&
+				x < rectangle.left + rectangle.width &&
+				y >= rectangle.top &&
+				y < rectangle.top + rectangle.height;
+			pixels.set(isInside ? fill : background, (y * width + x) * 4);
+		}
+	}
+	return sharp(pixels, { raw: { width, height, channels: 4 } })
+		.png()
+		.toBuffer();
+}
+
+async function readMask(mask: Buffer) {
+	const { data, info } = await sharp(mask)
+		.extractChannel(0)
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+	return { pixels: data, width: info.width, height: info.height };
+}
+
+function testParseAdjustments() {
+	console.log("Testing parseMaskAdjustments...");
+
+	check(
+		"empty values leave the edges unchanged",
+		parseMaskAdjustments({ grow: null, feather: "" }),
+		{ ok: true, adjustments: { grow: 0, feather: 0 } }
+	);
+	check(
+		"parses growing, shrinking and feathering",
+		parseMaskAdjustments({ grow: "-12", feather: "4" }),
+		{ ok: true, adjustments: { grow: -12, feather: 4 } }
+	);
+	for (const values of [
+		{ grow: "51", feather: null },
+		{ grow: "1.5", feather: null },
+		{ grow: "abc", feather: null },
+		{ grow: null, feather: "-1" },
+		{ grow: null, feather: "51" },
+	]) {
+		check(
+			`rejects ${JSON.stringify(values)}`,
+			parseMaskAdjustments(values).ok,
+			false
+		);
+	}
+}
+
+async function testPrepareMask() {
+	console.log("Testing prepareMask...");
+
+	// The left half of the photo is painted
+	const half = { left: 0, top: 0, width: WIDTH / 2, height: HEIGHT };
+	const blackAndWhite = await drawMask(WIDTH, HEIGHT, BLACK, half, WHITE);
+	const prepared = await prepareMask(blackAndWhite, WIDTH, HEIGHT);
+	check("a black and white mask is accepted", prepared.ok, true);
+	if (prepared.ok) {
+		check("its coverage is the white share", round(prepared.coverage), 0.5);
+		const { pixels, width, height } = await readMask(prepared.mask);
+		check(
+			"the mask has the size of the photo",
+			[width, height],
+			[WIDTH, HEIGHT]
+		);
+		check("white areas stay white", pixels[0], 255);
+		check("black areas stay black", pixels[WIDTH - 1], 0);
+	}
+
+	const smaller = await drawMask(
+		WIDTH / 2,
+		HEIGHT / 2,
+		BLACK,
+		{ left: 0, top: 0, width: WIDTH / 4, height: HEIGHT / 2 },
+		WHITE
+	);
+	const resized = await prepareMask(smaller, WIDTH, HEIGHT);
+	check(
+		"a smaller mask of the same shape is scaled to the photo",
+		resized.ok && Math.abs(resized.coverage - 0.5) < 0.02,
+		true
+	);
+
+	const square = await drawMask(
+		HEIGHT,
+		HEIGHT,
+		BLACK,
+		{ left: 0, top: 0, width: HEIGHT / 2, height: HEIGHT },
+		WHITE
+	);
+	const misshaped = await prepareMask(square, WIDTH, HEIGHT);
+	check("a mask of another shape is rejected", misshaped.ok, false);
+
+	const shapes = await drawMask(WIDTH, HEIGHT, TRANSPARENT, half, WHITE);
+	const transparent = await prepareMask(shapes, WIDTH, HEIGHT);
+	check(
+		"white shapes on a transparent background paint the shapes",
+		transparent.ok && round(transparent.coverage),
+		0.5
+	);
+
+	// Opaque on the right, transparent on the left like an OpenAI edit mask
+	const alphaMask = await drawMask(WIDTH, HEIGHT, BLACK, half, TRANSPARENT);
+	const alpha = await prepareMask(alphaMask, WIDTH, HEIGHT);
+	check(
+		"an alpha mask paints its transparent areas",
+		alpha.ok && round(alpha.coverage),
+		0.5
+	);
+	if (alpha.ok) {
+		const { pixels } = await readMask(alpha.mask);
+		check("the transparent left side is painted", pixels[0], 255);
+	}
+
+	const empty = await prepareMask(
+		await drawMask(WIDTH, HEIGHT, BLACK, half, BLACK),
+		WIDTH,
+		HEIGHT
+	);
+	check("an empty mask is rejected", empty, {
+		ok: false,
+		error: "The mask is empty. Mark the areas to paint in white.",
+	});
+
+	const full = await prepareMask(
+		await drawMask(WIDTH, HEIGHT, WHITE, half, WHITE),
+		WIDTH,
+		HEIGHT
+	);
+	check("a mask that covers the whole photo is rejected", full, {
+		ok: false,
+		error:
+			"The mask covers the whole photo. Only the areas to paint should be white.",
+	});
+
+	const corrupt = await prepareMask(Buffer.from("not an image"), WIDTH, HEIGHT);
+	check("a file that is no image is rejected", corrupt.ok, false);
+}
+
+async function testAdjustments() {
+	console.log("Testing mask edge adjustments...");
+
+	// A 20x20 square in the middle of the photo
+	const square = await drawMask(
+		WIDTH,
+		HEIGHT,
+		BLACK,
+		{ left: 40, top: 30, width: 20, height: 20 },
+		WHITE
+	);
+	const area = WIDTH * HEIGHT;
+
+	const grown = await prepareMask(square, WIDTH, HEIGHT, {
+		grow: 5,
+		feather: 0,
+	});
+	check(
+		"growing by 5 pixels paints a 30x30 square",
+		grown.ok && round(grown.coverage),
+		round((30 * 30) / area)
+	);
+
+	const shrunk = await prepareMask(square, WIDTH, HEIGHT, {
+		grow: -5,
+		feather: 0,
+	});
+	check(
+		"shrinking by 5 pixels paints a 10x10 square",
+		shrunk.ok && round(shrunk.coverage),
+		round((10 * 10) / area)
+	);
+
+	const vanished = await prepareMask(square, WIDTH, HEIGHT, {
+		grow: -10,
+		feather: 0,
+	});
+	check("shrinking a mask away rejects it", vanished.ok, false);
+
+	const feathered = await prepareMask(square, WIDTH, HEIGHT, {
+		grow: 0,
+		feather: 6,
+	});
+	check("a feathered mask is accepted", feathered.ok, true);
+	if (feathered.ok) {
+		check(
+			"feathering keeps about the same coverage",
+			Math.abs(feathered.coverage - (20 * 20) / area) < 0.005,
+			true
+		);
+		const { pixels } = await readMask(feathered.mask);
+		const edge = pixels[40 * WIDTH + 40];
+		check("feathered edges are partly painted", edge > 0 && edge < 255, true);
+		check("the middle stays painted", pixels[40 * WIDTH + 50], 255);
+		check("far outside stays unpainted", pixels[0], 0);
+	}
+}
+
+async function testMasks() {
+	try {
+		testParseAdjustments();
+		await testPrepareMask();
+		await testAdjustments();
+	} catch (error) {
+		fail("Error during mask tests", error);
+	}
+	reportResults();
+}
+
+// Run the tests
+testMasks();
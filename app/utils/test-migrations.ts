@@ -0,0 +1,144 @@
+/**
+ * Tests of the schema migrations: a database at version 1, with image data
+ * stored as base64 text, is upgraded and reads back the same bytes.
+ * Run with: npm test
+ */
+import * as crypto from "crypto";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import {
+	getLatestVersion,
+	getSchemaVersion,
+	migrations,
+	runMigrations,
+} from "./migrations.server";
+import { check, fail, reportResults } from "./test-check";
+
+const DB_PATH = path.join(os.tmpdir(), `migrations-test-${Date.now()}.db`);
+
+// Bytes that are no valid text, as in any image
+const imageData = crypto.randomBytes(4096);
+
+/**
+ * Create the version 1 schema with images as they were stored then
+ */
+function createVersionOneDatabase() {
+	const db = new Database(DB_PATH);
+	getSchemaVersion(db);
+	migrations.find(({ version }) => version === 1)!.up(db);
+	db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)").run(
+		1,
+		"initial_schema"
+	);
+
+	const insertImage = db.prepare(
+		"INSERT INTO images (id, data, status, fileName) VALUES (?, ?, ?, ?)"
+	);
+	insertImage.run("image", imageData.toString("base64"), "completed", "a.png");
+	insertImage.run("empty", "", "pending", null);
+	insertImage.run("pending", null, "pending", null);
+	db.prepare("INSERT INTO metadata (imageId, key, value) VALUES (?, ?, ?)").run(
+		"image",
+		"stage",
+		JSON.stringify("done")
+	);
+	return db;
+}
+
+function testMigrateVersionOne() {
+	console.log("Testing migrations from version 1...");
+
+	const db = createVersionOneDatabase();
+	check("the database starts at version 1", getSchemaVersion(db), 1);
+
+	const applied = runMigrations(db);
+	check(
+		"applies every later migration in order",
+		applied,
+		migrations.slice(1).map(({ name }) => name)
+	);
+	check(
+		"the database is at the latest version",
+		getSchemaVersion(db),
+		getLatestVersion()
+	);
+	check("running the migrations again applies nothing", runMigrations(db), []);
+
+	const columns = db.prepare("PRAGMA table_info(images)").all() as {
+		name: string;
+		type: string;
+	}[];
+	check(
+		"image data is stored as a BLOB",
+		columns.find(({ name }) => name === "data")?.type,
+		"BLOB"
+	);
+
+	const images = db
+		.prepare("SELECT id, data, status, fileName FROM images ORDER BY id")
+		.all() as {
+		id: string;
+		data: Buffer | null;
+		status: string;
+		fileName: string | null;
+	}[];
+	const image = images.find(({ id }) => id === "image");
+	check(
+		"base64 data is decoded to the same bytes",
+		image?.data && Buffer.compare(image.data, imageData),
+		0
+	);
+	check(
+		"the other columns are kept",
+		[image?.status, image?.fileName],
+		["completed", "a.png"]
+	);
+	check(
+		"empty data becomes NULL",
+		images.find(({ id }) => id === "empty")?.data,
+		null
+	);
+	check(
+		"missing data stays NULL",
+		images.find(({ id }) => id === "pending")?.data,
+		null
+	);
+	check(
+		"metadata is kept",
+		db.prepare("SELECT imageId, key, value FROM metadata").all(),
+		[{ imageId: "image", key: "stage", value: JSON.stringify("done") }]
+	);
+
+	db.close();
+}
+
+async function testReadMigratedImage() {
+	console.log("Testing the SQLite store on the migrated database...");
+
+	// The database path is read on import, so the store is imported afterwards
+	process.env.DATABASE_PATH = DB_PATH;
+	const { createImageStore } = await import("./image-store.server");
+	const store = await createImageStore("sqlite");
+
+	const stored = await store.getImage("image");
+	check(
+		"the store reads back the same bytes",
+		stored?.data && Buffer.compare(stored.data, imageData),
+		0
+	);
+	check("the store reads the metadata", stored?.stage, "done");
+}
+
+async function testMigrations() {
+	try {
+		testMigrateVersionOne();
+		await testReadMigratedImage();
+	} catch (error) {
+		fail("Error during migration tests", error);
+	}
+	reportResults();
+}
+
+// Run the tests
+testMigrations();
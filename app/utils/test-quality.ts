@@ -0,0 +1,230 @@
+/**
+ * Tests of the quality checks of finished renders and of the decision to
+ * paint a render again when they fail. Run with: npm test
+ */
+import * as os from "os";
+import * as path from "path";
+import sharp from "sharp";
+import { hexToLab, labToRgb, rgbToHex } from "./color";
+import {
+	isBetterQuality,
+	measureQuality,
+	type RenderQuality,
+} from "./quality.server";
+import type { RenderRequest } from "./render.server";
+import { check, fail, reportResults } from "./test-check";
+
+// Renders are painted by the mock provider, which returns the photo unchanged,
+// or by the offline local provider, and stored in memory
+process.env.IMAGE_STORE = "memory";
+process.env.MOCK_PROVIDER_DELAY_MS = "0";
+process.env.DATABASE_PATH ??= path.join(
+	os.tmpdir(),
+	`quality-test-${Date.now()}.db`
+);
+
+const WIDTH = 64;
+const HEIGHT = 48;
+
+/**
+ * PNG of the photo size, with the left half and the right half in two colors
+ */
+function drawHalves(left: string, right: string) {
+	return sharp({
+		create: { width: WIDTH, height: HEIGHT, channels: 3, background: right },
+	})
+		.composite([
+			{
+				input: {
+					create: {
+						width: WIDTH / 2,
+						height: HEIGHT,
+						channels: 3,
+						background: left,
+					},
+				},
+				left: 0,
+				top: 0,
+			},
+		])
+		.png()
+		.toBuffer();
+}
+
+async function testMeasureQuality() {
+	console.log("Testing measureQuality...");
+
+	const original = await drawHalves("#808080", "#808080");
+	const mask = await drawHalves("#ffffff", "#000000");
+	const surfaces = [{ surface: "walls" as const, colorHex: "#2E8B57", mask }];
+
+	const painted = await measureQuality(
+		original,
+		await drawHalves("#2E8B57", "#808080"),
+		surfaces
+	);
+	check("the requested color passes", painted.passed, true);
+	check(
+		"the requested color has no difference",
+		painted.surfaces[0].colorDeltaE < 0.5,
+		true
+	);
+	check("nothing changed outside the mask", painted.outsideDrift, 0);
+
+	// Shadows change the lightness of the paint but not its hue
+	const target = hexToLab("#2E8B57")!;
+	const shadow = rgbToHex(labToRgb({ ...target, l: target.l - 20 }));
+	const shaded = await measureQuality(
+		original,
+		await drawHalves(shadow, "#808080"),
+		surfaces
+	);
+	check(
+		"the requested color in shadow passes",
+		shaded.passed && shaded.surfaces[0].colorDeltaE < 2,
+		true
+	);
+
+	const wrongColor = await measureQuality(
+		original,
+		await drawHalves("#B03060", "#808080"),
+		surfaces
+	);
+	check("another color fails", wrongColor.passed, false);
+	check(
+		"another color has a large difference",
+		wrongColor.surfaces[0].colorDeltaE > 10,
+		true
+	);
+
+	const drifted = await measureQuality(
+		original,
+		await drawHalves("#2E8B57", "#909090"),
+		surfaces
+	);
+	check("changes outside the mask are measured", drifted.outsideDrift, 16);
+	check("changes outside the mask fail", drifted.passed, false);
+
+	const wallpaper = await measureQuality(
+		original,
+		await drawHalves("#B03060", "#808080"),
+		[{ surface: "walls", colorHex: null, mask }]
+	);
+	check("wallpapers have no color to check", wallpaper.surfaces, []);
+	check("a wallpaper within the mask passes", wallpaper.passed, true);
+}
+
+function testIsBetterQuality() {
+	console.log("Testing isBetterQuality...");
+
+	// Thresholds are a difference of 10 and a drift of 4
+	const quality = (
+		colorDeltaE: number,
+		outsideDrift: number
+	): Omit<RenderQuality, "retried"> => ({
+		surfaces: [{ surface: "walls", colorDeltaE }],
+		outsideDrift,
+		passed: colorDeltaE <= 10 && outsideDrift <= 4,
+	});
+
+	check(
+		"a passing render beats a failing one",
+		isBetterQuality(quality(9, 3), quality(30, 1)),
+		true
+	);
+	check(
+		"a failing render doesn't beat a passing one",
+		isBetterQuality(quality(30, 1), quality(9, 3)),
+		false
+	);
+	check(
+		"the smaller worst score wins between failing renders",
+		isBetterQuality(quality(15, 1), quality(5, 8)),
+		true
+	);
+	check(
+		"scores are compared relative to their thresholds",
+		isBetterQuality(quality(5, 8), quality(25, 1)),
+		true
+	);
+	check(
+		"an equally good render is not better",
+		isBetterQuality(quality(20, 1), quality(20, 1)),
+		false
+	);
+}
+
+async function testRetry() {
+	console.log("Testing quality retries...");
+
+	const { runRenderStages } = await import("./render.server");
+	const image = await drawHalves("#808080", "#808080");
+	const render: RenderRequest = {
+		method: "ai",
+		image,
+		surfaces: [
+			{
+				surface: "walls",
+				prompt: "Paint the walls #2E8B57",
+				maskPrompt: "Mask the walls",
+				colorHex: "#2E8B57",
+				finish: null,
+				mask: await drawHalves("#ffffff", "#000000"),
+				wallpaper: null,
+			},
+		],
+	};
+	const runRender = async (
+		provider: string,
+		retry: boolean,
+		request = render
+	) => {
+		process.env.IMAGE_PROVIDER = provider;
+		process.env.QUALITY_RETRY = retry ? "true" : "false";
+		const { result, quality } = await runRenderStages(
+			`quality-test-${Date.now()}`,
+			request
+		);
+		return {
+			ok: result.ok,
+			passed: quality?.passed,
+			retried: quality?.retried,
+		};
+	};
+
+	check(
+		"a failing render is painted again when retries are enabled",
+		await runRender("mock", true),
+		{ ok: true, passed: false, retried: true }
+	);
+	check(
+		"a failing render is kept when retries are disabled",
+		await runRender("mock", false),
+		{ ok: true, passed: false, retried: false }
+	);
+	check(
+		"a passing render is not painted again",
+		await runRender("local", true),
+		{ ok: true, passed: true, retried: false }
+	);
+
+	const recolored = await runRender("mock", true, {
+		...render,
+		method: "local",
+	});
+	check("local recolors are not painted again", recolored.retried, false);
+}
+
+async function testQuality() {
+	try {
+		await testMeasureQuality();
+		testIsBetterQuality();
+		await testRetry();
+	} catch (error) {
+		fail("Error during quality tests", error);
+	}
+	reportResults();
+}
+
+// Run the tests
+testQuality();
@@ -0,0 +1,219 @@
+/**
+ * Perspective-correct wallpaper rendering for server-side operations
+ * The pattern is tiled on the wall plane at its real size, mapped onto the
+ * photo with a homography and lit with the shading of the original wall
+ * This file should only be imported in server-side code (actions, loaders)
+ */
+import sharp from "sharp";
+import { rgbToHex } from "./color";
+import type { Point, WallpaperPlacement } from "./wallpaper";
+
+// Smallest size of a tile in pixels, smaller tiles only show noise
+const MIN_TILE_PIXELS = 4;
+
+/**
+ * Solve a system of linear equations with Gaussian elimination
+ * @returns The solution, or null when the system has no unique solution
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+	const n = b.length;
+	const rows = a.map((row, i) => [...row, b[i]]);
+
+	for (let column = 0; column < n; column++) {
+		// Pivot on the largest value for numerical stability
+		let pivot = column;
+		for (let row = column + 1; row < n; row++) {
+			if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+				pivot = row;
+			}
+		}
+		if (Math.abs(rows[pivot][column]) < 1e-12) return null;
+		[rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+		for (let row = 0; row < n; row++) {
+			if (row === column) continue;
+			const factor = rows[row][column] / rows[column][column];
+			for (let k = column; k <= n; k++) {
+				rows[row][k] -= factor * rows[column][k];
+			}
+		}
+	}
+
+	return rows.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Get the homography that maps four points onto four other points
+ * @returns The 3x3 matrix in row-major order
+ */
+function getHomography(from: Point[], to: Point[]): number[] {
+	const a: number[][] = [];
+	const b: number[] = [];
+	for (let i = 0; i < 4; i++) {
+		const { x, y } = from[i];
+		const { x: u, y: v } = to[i];
+		a.push([x, y, 1, 0, 0, 0, -x * u, -y * u]);
+		b.push(u);
+		a.push([0, 0, 0, x, y, 1, -x * v, -y * v]);
+		b.push(v);
+	}
+
+	const h = solveLinearSystem(a, b);
+	if (!h) {
+		throw new Error("The corners of the wall don't span a plane");
+	}
+	return [...h, 1];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Get the average color of a pattern as #RRGGBB
+ */
+export async function getPatternColor(pattern: Buffer): Promise<string> {
+	const { channels } = await sharp(pattern).removeAlpha().stats();
+	return rgbToHex({
+		r: Math.round(channels[0].mean),
+		g: Math.round(channels[1].mean),
+		b: Math.round(channels[2].mean),
+	});
+}
+
+/**
+ * Cover the white area of a mask with a wallpaper
+ * The pattern repeats across the marked wall plane at its real size and
+ * continues beyond the corners, so the mask decides where it ends. The
+ * lightness of the original wall is multiplied in, which keeps its shading.
+ * @param image - Original image (any format sharp can read)
+ * @param mask - Black and white mask where white areas are covered
+ * @param pattern - Tile of the wallpaper pattern
+ * @returns PNG encoded result at the original image size
+ */
+export async function applyWallpaper(
+	image: Buffer,
+	mask: Buffer,
+	pattern: Buffer,
+	placement: WallpaperPlacement
+): Promise<Buffer> {
+	const { data: pixels, info } = await sharp(image)
+		.removeAlpha()
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+	const { width, height } = info;
+
+	const weights = await sharp(mask)
+		.resize(width, height, { fit: "fill" })
+		.flatten({ background: "#000000" })
+		.greyscale()
+		.raw()
+		.toBuffer();
+
+	const luma = new Float32Array(width * height);
+	let weightedLuma = 0;
+	let totalWeight = 0;
+	for (let i = 0; i < luma.length; i++) {
+		const offset = i * 3;
+		luma[i] =
+			0.299 * pixels[offset] +
+			0.587 * pixels[offset + 1] +
+			0.114 * pixels[offset + 2];
+		weightedLuma += luma[i] * weights[i];
+		totalWeight += weights[i];
+	}
+
+	if (totalWeight === 0) {
+		throw new Error("The mask does not cover any part of the image");
+	}
+	const averageLuma = Math.max(1, weightedLuma / totalWeight);
+
+	// Map the photo onto the wall plane, measured in centimeters
+	const { wallWidthCm, wallHeightCm, tileWidthCm } = placement;
+	const corners = placement.corners.map(({ x, y }) => ({
+		x: x * width,
+		y: y * height,
+	}));
+	const h = getHomography(corners, [
+		{ x: 0, y: 0 },
+		{ x: wallWidthCm, y: 0 },
+		{ x: wallWidthCm, y: wallHeightCm },
+		{ x: 0, y: wallHeightCm },
+	]);
+
+	// Scale the tile to about its size in the photo, so it is not aliased
+	const pixelsPerCm =
+		((distance(corners[0], corners[1]) + distance(corners[3], corners[2])) /
+			2 /
+			wallWidthCm +
+			(distance(corners[0], corners[3]) + distance(corners[1], corners[2])) /
+				2 /
+				wallHeightCm) /
+		2;
+	const metadata = await sharp(pattern).metadata();
+	const tileHeightCm = (tileWidthCm * metadata.height!) / metadata.width!;
+	const tileWidth = Math.max(
+		MIN_TILE_PIXELS,
+		Math.min(metadata.width!, Math.round(tileWidthCm * pixelsPerCm))
+	);
+	const tileHeight = Math.max(
+		MIN_TILE_PIXELS,
+		Math.round((tileWidth * metadata.height!) / metadata.width!)
+	);
+	const tile = await sharp(pattern)
+		.removeAlpha()
+		.resize(tileWidth, tileHeight, { fit: "fill" })
+		.raw()
+		.toBuffer();
+
+	// Points behind the camera have the opposite sign as the wall itself
+	const center = {
+		x: (corners[0].x + corners[1].x + corners[2].x + corners[3].x) / 4,
+		y: (corners[0].y + corners[1].y + corners[2].y + corners[3].y) / 4,
+	};
+	const wallSign = Math.sign(h[6] * center.x + h[7] * center.y + h[8]);
+
+	const output = Buffer.from(pixels);
+	const sample = [0, 0, 0];
+	for (let i = 0; i < luma.length; i++) {
+		const weight = weights[i] / 255;
+		if (weight === 0) continue;
+
+		const x = (i % width) + 0.5;
+		const y = Math.floor(i / width) + 0.5;
+		const w = h[6] * x + h[7] * y + h[8];
+		if (Math.sign(w) !== wallSign) continue;
+		const u = (h[0] * x + h[1] * y + h[2]) / w;
+		const v = (h[3] * x + h[4] * y + h[5]) / w;
+
+		// Bilinear sample of the tile, which repeats in both directions
+		const tx = (((u / tileWidthCm) % 1) + 1) * tileWidth - 0.5;
+		const ty = (((v / tileHeightCm) % 1) + 1) * tileHeight - 0.5;
+		const x0 = Math.floor(tx);
+		const y0 = Math.floor(ty);
+		const fx = tx - x0;
+		const fy = ty - y0;
+		const left = (x0 + tileWidth) % tileWidth;
+		const right = (x0 + 1) % tileWidth;
+		const top = ((y0 + tileHeight) % tileHeight) * tileWidth;
+		const bottom = ((y0 + 1) % tileHeight) * tileWidth;
+		for (let channel = 0; channel < 3; channel++) {
+			const at = (row: number, column: number) =>
+				tile[(row + column) * 3 + channel];
+			sample[channel] =
+				(at(top, left) * (1 - fx) + at(top, right) * fx) * (1 - fy) +
+				(at(bottom, left) * (1 - fx) + at(bottom, right) * fx) * fy;
+		}
+
+		const shading = luma[i] / averageLuma;
+		const offset = i * 3;
+		for (let channel = 0; channel < 3; channel++) {
+			const covered = Math.min(255, sample[channel] * shading);
+			output[offset + channel] = Math.round(
+				pixels[offset + channel] * (1 - weight) + covered * weight
+			);
+		}
+	}
+
+	return sharp(output, { raw: { width, height, channels: 3 } })
+		.png()
+		.toBuffer();
+}
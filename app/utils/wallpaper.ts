@@ -0,0 +1,120 @@
+/**
+ * Placement of a wallpaper on a wall plane of a photo
+ * The wall plane is marked by its four corners, clockwise from the top left.
+ * Corners are fractions of the photo size, so they don't depend on the
+ * resolution the photo is processed at.
+ */
+
+export type Point = { x: number; y: number };
+
+export type WallpaperPlacement = {
+	/** Corners of the wall plane: top left, top right, bottom right, bottom left */
+	corners: Point[];
+	/** Real width of the marked wall plane in centimeters */
+	wallWidthCm: number;
+	/** Real height of the marked wall plane in centimeters */
+	wallHeightCm: number;
+	/** Width of one repeat of the pattern, its height follows the tile */
+	tileWidthCm: number;
+};
+
+export type WallpaperPlacementResult =
+	| { ok: true; placement: WallpaperPlacement }
+	| { ok: false; error: string };
+
+export const wallCornerLabels = [
+	"top left",
+	"top right",
+	"bottom right",
+	"bottom left",
+];
+
+// Sizes beyond this are not a wall, but most likely a typo
+const MAX_SIZE_CM = 10000;
+
+/**
+ * Whether four corners form a convex quadrilateral in clockwise order
+ * Corners in the opposite order would mirror the pattern
+ */
+export function isClockwiseQuad(corners: Point[]): boolean {
+	if (corners.length !== 4) return false;
+
+	for (let i = 0; i < 4; i++) {
+		const a = corners[i];
+		const b = corners[(i + 1) % 4];
+		const c = corners[(i + 2) % 4];
+		// Turns right at every corner, since y points down in images
+		const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+		if (cross <= 0) return false;
+	}
+	return true;
+}
+
+const parseSize = (value: string | null) => {
+	const size = Number(value);
+	return value && Number.isFinite(size) && size > 0 && size <= MAX_SIZE_CM
+		? size
+		: null;
+};
+
+/**
+ * Parse the placement of a wallpaper from its form values
+ * @param corners - JSON array of the corners as `{ x, y }` fractions
+ */
+export function parseWallpaperPlacement(values: {
+	corners: string | null;
+	wallWidthCm: string | null;
+	wallHeightCm: string | null;
+	tileWidthCm: string | null;
+}): WallpaperPlacementResult {
+	let corners: Point[];
+	try {
+		corners = JSON.parse(values.corners ?? "");
+	} catch {
+		return { ok: false, error: "Please mark the four corners of the wall." };
+	}
+
+	if (
+		!Array.isArray(corners) ||
+		corners.length !== 4 ||
+		!corners.every(
+			(corner) =>
+				typeof corner?.x === "number" &&
+				typeof corner?.y === "number" &&
+				corner.x >= 0 &&
+				corner.x <= 1 &&
+				corner.y >= 0 &&
+				corner.y <= 1
+		)
+	) {
+		return { ok: false, error: "Please mark the four corners of the wall." };
+	}
+	if (!isClockwiseQuad(corners)) {
+		return {
+			ok: false,
+			error: `The corners of the wall must be marked in order (${wallCornerLabels.join(
+				", "
+			)}) and form a four-sided shape.`,
+		};
+	}
+
+	const wallWidthCm = parseSize(values.wallWidthCm);
+	const wallHeightCm = parseSize(values.wallHeightCm);
+	const tileWidthCm = parseSize(values.tileWidthCm);
+	if (!wallWidthCm || !wallHeightCm || !tileWidthCm) {
+		return {
+			ok: false,
+			error: `The sizes of the wall and the pattern must be between 0 and ${MAX_SIZE_CM} cm.`,
+		};
+	}
+
+	return {
+		ok: true,
+		placement: {
+			corners: corners.map(({ x, y }) => ({ x, y })),
+			wallWidthCm,
+			wallHeightCm,
+			tileWidthCm,
+		},
+	};
+}